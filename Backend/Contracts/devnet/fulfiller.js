@@ -0,0 +1,102 @@
+const { simulateScript } = require("@chainlink/functions-toolkit");
+const { ethers } = require("ethers");
+const { buildSource } = require("../oracle/build");
+const { decodeResponse } = require("../oracle/simulate");
+const { TOKEN } = require("../oracle/stubGitHub");
+
+// Plays the Chainlink DON for MockOracle: every VerificationRequested event is run through
+// the verification script in the Functions simulator and answered with fulfill().
+// Usage: node devnet/fulfiller.js (with the devnet's chain and stub GitHub already running)
+
+const RPC_URL = process.env.DEVNET_RPC_URL || "http://127.0.0.1:8545";
+const GITHUB_URL = process.env.DEVNET_GITHUB_URL || "http://127.0.0.1:8547";
+// Where DeployLocal puts MockOracle on a fresh Anvil chain
+const ORACLE_ADDRESS = process.env.DEVNET_ORACLE_ADDRESS || "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+// Anvil's first default account, which DeployLocal makes the fulfiller
+const FULFILLER_KEY =
+  process.env.DEVNET_PRIVATE_KEY || "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const POLL_MS = 1000;
+
+const MOCK_ORACLE_ABI = [
+  "event VerificationRequested(bytes32 indexed requestId, string[] args)",
+  "function requests(bytes32) view returns (bytes32 bountyId, address claimant, bool active)",
+  "function fulfill(bytes32 requestId, bytes response, bytes err)"
+];
+
+async function fulfillRequest(oracle, source, requestId, args) {
+  const { active } = await oracle.requests(requestId);
+  if (!active) return;
+
+  console.log(`\n📨 Request ${requestId}`);
+  console.log(`   Arguments: ${JSON.stringify(args)}`);
+
+  const { responseBytesHexstring, errorString } = await simulateScript({
+    source,
+    args,
+    bytesArgs: [],
+    secrets: { githubToken: TOKEN }
+  });
+
+  if (errorString) {
+    console.log(`   ❌ Script Error: ${errorString}`);
+  } else {
+    const isSplit = args.length > 7;
+    const [verified, author, reason, weights] = decodeResponse(responseBytesHexstring, isSplit);
+    console.log(`   ${verified ? "✅ Verified" : "❌ Rejected"} (${isSplit ? "" : `author "${author}", `}reason ${reason})`);
+    if (isSplit) console.log(`   Weights: ${weights.map((weight) => weight.toString()).join(", ")}`);
+  }
+
+  const tx = await oracle.fulfill(
+    requestId,
+    errorString ? "0x" : responseBytesHexstring,
+    errorString ? ethers.utils.toUtf8Bytes(errorString) : "0x"
+  );
+  await tx.wait();
+  console.log(`   Fulfilled in ${tx.hash}`);
+}
+
+/**
+ * Watches MockOracle from the given block and answers requests one at a time, in order.
+ * Returns a function that stops watching.
+ */
+function startFulfiller({ fromBlock = 0 } = {}) {
+  const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
+  const wallet = new ethers.Wallet(FULFILLER_KEY, provider);
+  const oracle = new ethers.Contract(ORACLE_ADDRESS, MOCK_ORACLE_ABI, wallet);
+  const source = buildSource(undefined, GITHUB_URL);
+
+  let nextBlock = fromBlock;
+  let stopped = false;
+  let timer;
+
+  const poll = async () => {
+    try {
+      const latest = await provider.getBlockNumber();
+      if (latest >= nextBlock) {
+        const events = await oracle.queryFilter(oracle.filters.VerificationRequested(), nextBlock, latest);
+        for (const event of events) {
+          await fulfillRequest(oracle, source, event.args.requestId, event.args.args);
+        }
+        nextBlock = latest + 1;
+      }
+    } catch (err) {
+      // Retried from the same block on the next poll
+      console.error("❌ Fulfiller Error:", err.message || err);
+    }
+    if (!stopped) timer = setTimeout(poll, POLL_MS);
+  };
+
+  console.log(`🤖 Fulfilling MockOracle ${ORACLE_ADDRESS} requests against ${GITHUB_URL}`);
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+if (require.main === module) {
+  startFulfiller();
+}
+
+module.exports = { startFulfiller };
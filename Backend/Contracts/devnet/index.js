@@ -0,0 +1,76 @@
+const { spawn, spawnSync } = require("child_process");
+const path = require("path");
+const { startStubGitHub } = require("../oracle/stubGitHub");
+const { startFulfiller } = require("./fulfiller");
+const world = require("./github.json");
+
+// One command for the whole local stack: an Anvil chain with DeployLocal's contracts,
+// a stub GitHub serving github.json, and the fulfiller answering MockOracle's requests.
+// Usage: npm run devnet (needs anvil and forge on PATH). Ctrl+C stops everything.
+
+const ROOT = path.resolve(__dirname, "..");
+const ANVIL_PORT = 8545;
+const GITHUB_PORT = 8547;
+const RPC_URL = `http://127.0.0.1:${ANVIL_PORT}`;
+
+async function waitForChain(anvil) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (anvil.exitCode !== null) throw new Error(`anvil exited with code ${anvil.exitCode}`);
+    try {
+      const response = await fetch(RPC_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] })
+      });
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  throw new Error(`anvil did not start on ${RPC_URL}`);
+}
+
+function deploy() {
+  const result = spawnSync(
+    "forge",
+    ["script", "script/Deploy.s.sol:DeployLocal", "--rpc-url", RPC_URL, "--broadcast"],
+    { cwd: ROOT, stdio: "inherit" }
+  );
+  if (result.status !== 0) throw new Error("DeployLocal failed");
+}
+
+async function main() {
+  console.log("⛓️  Starting anvil...");
+  const anvil = spawn("anvil", ["--port", String(ANVIL_PORT)], { stdio: "ignore" });
+  let stub;
+  let stopFulfiller;
+
+  const shutdown = async () => {
+    stopFulfiller?.();
+    await stub?.close();
+    anvil.kill();
+  };
+  process.on("SIGINT", () => shutdown().then(() => process.exit(0)));
+
+  try {
+    await waitForChain(anvil);
+    deploy();
+
+    stub = await startStubGitHub({ port: GITHUB_PORT });
+    stub.use(world);
+    console.log(`🐙 Stub GitHub on ${stub.url}`);
+
+    stopFulfiller = startFulfiller();
+  } catch (err) {
+    console.error("❌ Devnet Error:", err.message || err);
+    await shutdown();
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`\n✅ Devnet running on ${RPC_URL} (chain 31337). Press Ctrl+C to stop.`);
+  console.log("   Frontend: cd frontend && npm run dev:devnet");
+}
+
+main();
@@ -0,0 +1,64 @@
+const ts = require("typescript");
+const fs = require("fs");
+const path = require("path");
+require("dotenv").config();
+
+// The DON runs a single script with no module loader, so the shared rules are
+// transpiled and inlined ahead of don.js to produce verification.js
+const RULES = path.resolve(__dirname, "rules/verification.ts");
+const ENTRY = path.resolve(__dirname, "don.js");
+const OUTPUT = path.resolve(__dirname, "verification.js");
+
+// Set ORACLE_BODY_FALLBACK=true to also accept "Closes #N" in the PR body when
+// GitHub lists no matching closing reference (e.g. PRs into a non-default branch)
+const DEFAULT_OPTIONS = {
+  bodyFallback: process.env.ORACLE_BODY_FALLBACK === "true"
+};
+
+// The offline harness points the script at its stub server instead
+const GITHUB_API_URL = "https://api.github.com";
+
+function buildRules() {
+  const { outputText } = ts.transpileModule(fs.readFileSync(RULES, "utf8"), {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ES2020,
+      removeComments: false
+    }
+  });
+
+  if (/^\s*import\s/m.test(outputText)) {
+    throw new Error("rules/verification.ts must not import anything");
+  }
+
+  return outputText
+    .replace(/^export \{\};?\s*$/m, "")
+    .replace(/^export /gm, "");
+}
+
+/**
+ * Returns the DON script source with the given VerificationOptions and GitHub API base URL baked in
+ */
+function buildSource(options = DEFAULT_OPTIONS, githubApiUrl = GITHUB_API_URL) {
+  return [
+    "// GENERATED by oracle/build.js from rules/verification.ts and don.js. Do not edit by hand.",
+    "",
+    buildRules().trim(),
+    "",
+    `const VERIFICATION_OPTIONS = ${JSON.stringify(options)};`,
+    `const GITHUB_API_URL = ${JSON.stringify(githubApiUrl)};`,
+    "",
+    fs.readFileSync(ENTRY, "utf8")
+  ].join("\n");
+}
+
+function build() {
+  fs.writeFileSync(OUTPUT, buildSource());
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+if (require.main === module) {
+  build();
+}
+
+module.exports = { buildSource };
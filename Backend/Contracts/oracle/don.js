@@ -0,0 +1,277 @@
+// This script runs on the Chainlink Decentralized Oracle Network (DON)
+// Run `npm run build:oracle` after editing; it bundles this file with rules/ into verification.js
+// Inputs: 
+// args[0]: Repository Owner (e.g., "vihaan1016")
+// args[1]: Repository Name (e.g., "MergeMint")
+// args[2]: PR Number (e.g., "42")
+// args[3]: Issue ID to check against (e.g., "101")
+// args[4]: Claimer wallet address (e.g., "0xabc...")
+// args[5]: GitHub username linked to the claimer on chain
+// args[6]: ID of the gist holding the claimer's identity proof
+// For a bounty with a payout split, args[2] lists the PR numbers comma separated, and:
+// args[7]: Split mode ("fixed" or "perPullRequest")
+// args[8...]: Each recipient's wallet address, linked GitHub username and gist ID, in registry order
+
+// Checking if the number of argunents is correct
+if (!args || args.length < 7) {
+  throw new Error("Missing required arguments");
+}
+const owner = args[0];
+const repo = args[1];
+const prNumber = parseInt(args[2]);
+const targetIssueId = args[3];
+const claimerAddress = args[4];
+const linkedUsername = args[5];
+const gistId = args[6];
+
+if (args.length > 7) {
+  return await verifySplit();
+}
+
+// GitHub would reject an unreadable number as a bad variable, which reads as its own failure
+if (!isPullRequestNumber(args[2])) {
+  return encodeAbi(false, "", RejectionReason.PullRequestNotFound);
+}
+
+// The GraphQL query (PULL_REQUEST_QUERY) comes from rules/verification.ts
+// VERIFICATION_OPTIONS (ORACLE_BODY_FALLBACK) and GITHUB_API_URL are set by build.js
+
+// Output: ABI encoded (bool verified, string author, uint8 reason), where reason is a
+// RejectionReason (0 when verified). Failures GitHub is responsible for are returned
+// with a reason rather than thrown, since a thrown error only reaches the chain as SCRIPT_ERROR
+
+// 2. Make the Request
+// Using the globally available Functions object
+const response = await Functions.makeHttpRequest({
+  url: `${GITHUB_API_URL}/graphql`,
+  method: "POST",
+  headers: {
+    "Authorization": `Bearer ${secrets.githubToken}`,
+    "Content-Type": "application/json"
+  },
+  data: {
+    query: PULL_REQUEST_QUERY,
+    variables: { owner, name: repo, number: prNumber }
+  }
+});
+
+// Anything but a GraphQL body (e.g. an HTML error page), or errors other than a missing PR,
+// says nothing about the claim
+const body = response.data;
+const malformed = !body || typeof body !== "object" || !("data" in body);
+if (response.error || malformed || body.errors?.some((e) => e.type !== "NOT_FOUND")) {
+  console.log(`GitHub API Request Failed: ${JSON.stringify(response)}`);
+  return encodeAbi(false, "", RejectionReason.GitHubApiError);
+}
+
+// Sample Response Structure:
+// {
+//   "response" (The main object variable)
+//   "status": 200,
+//   "statusText": "OK",
+//   "data": { // "response.data" (The HTTP body)
+//     "data": { // "response.data.data" (The GraphQL root)
+//       "repository": { // "response.data.data.repository"
+//         "pullRequest": { // "response.data.data.repository.pullRequest" (<-- prData)
+//           "id": "PR",
+//           "number": 42,
+//           "title": "Fix Issue #10: Add Funding Logic",
+//           "state": "MERGED",
+//           "merged": true,
+//           "author": {
+//             "login": "bountyHunter69"
+//           },
+//           "closingIssuesReferences": {
+//             "nodes": [{ "number": 10, "repository": { "name": "MergeMint", "owner": { "login": "vihaan1016" } } }]
+//           }
+//         }
+//       }
+//     }
+//   }
+// }
+const prData = parsePullRequest(body.data?.repository?.pullRequest);
+
+if (!prData) {
+  console.log("Pull Request not found");
+  return encodeAbi(false, "", RejectionReason.PullRequestNotFound);
+}
+
+// 3. Fetch the gist that proves the linked account belongs to the claimer
+const gistResponse = await Functions.makeHttpRequest({
+  url: `${GITHUB_API_URL}/gists/${encodeURIComponent(gistId)}`,
+  headers: {
+    "Authorization": `Bearer ${secrets.githubToken}`,
+    "Accept": "application/vnd.github+json"
+  }
+});
+
+// A deleted gist (404) fails the identity rule rather than the whole request
+if (gistResponse.error && gistResponse.response?.status !== 404) {
+  console.log(`GitHub Gist Request Failed: ${JSON.stringify(gistResponse)}`);
+  return encodeAbi(false, prData.author, RejectionReason.GitHubApiError);
+}
+
+const claimer = {
+  address: claimerAddress,
+  username: linkedUsername,
+  gist: gistResponse.error ? null : parseGist(gistResponse.data)
+};
+
+// Verification Logic (rules/verification.ts, inlined by build.js)
+const result = verifyPullRequest(
+  prData,
+  { owner, repo, issueNumber: targetIssueId },
+  claimer,
+  VERIFICATION_OPTIONS
+);
+const verificationPassed = result.passed;
+const author = prData.author;
+
+const ruleSummary = result.rules.map((rule) => `${rule.id}: ${rule.passed}`).join(", ");
+console.log(`Verification: ${verificationPassed} (${ruleSummary})`);
+console.log(`Author: ${author}`);
+
+return encodeAbi(verificationPassed, author, result.reason ?? 0);
+
+// A split claim: every PR and every recipient is checked, and the answer carries each
+// recipient's weight. One GraphQL request for the PRs plus one per gist stays within
+// the DON's HTTP request limit at BountyRegistry.MAX_SPLIT_RECIPIENTS
+async function verifySplit() {
+  const mode = args[7];
+  if ((mode !== "fixed" && mode !== "perPullRequest") || (args.length - 8) % 3 !== 0) {
+    throw new Error("Malformed split arguments");
+  }
+
+  const recipients = [];
+  for (let i = 8; i < args.length; i += 3) {
+    recipients.push({ address: args[i], username: args[i + 1], gistId: args[i + 2] });
+  }
+  const noWeights = recipients.map(() => 0);
+
+  // The PR list is the claimer's input, so an unreadable one is their fault
+  const prNumbers = parsePullRequestNumbers(args[2]);
+  if (!prNumbers) {
+    return encodeSplitResponse(false, RejectionReason.PullRequestNotFound, noWeights);
+  }
+
+  const prResponse = await Functions.makeHttpRequest({
+    url: `${GITHUB_API_URL}/graphql`,
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${secrets.githubToken}`,
+      "Content-Type": "application/json"
+    },
+    data: {
+      query: pullRequestsQuery(prNumbers.length),
+      variables: Object.fromEntries([
+        ["owner", owner],
+        ["name", repo],
+        ...prNumbers.map((n, i) => [`pr${i}`, parseInt(n)])
+      ])
+    }
+  });
+
+  const prBody = prResponse.data;
+  const prMalformed = !prBody || typeof prBody !== "object" || !("data" in prBody);
+  if (prResponse.error || prMalformed || prBody.errors?.some((e) => e.type !== "NOT_FOUND")) {
+    console.log(`GitHub API Request Failed: ${JSON.stringify(prResponse)}`);
+    return encodeSplitResponse(false, RejectionReason.GitHubApiError, noWeights);
+  }
+
+  const prs = prNumbers.map((n, i) => ({ number: n, data: parsePullRequest(prBody.data?.repository?.[`pr${i}`]) }));
+  const missing = prs.find((pr) => !pr.data);
+  if (missing) {
+    console.log(`Pull Request #${missing.number} not found`);
+    return encodeSplitResponse(false, RejectionReason.PullRequestNotFound, noWeights);
+  }
+
+  const participants = [];
+  for (const recipient of recipients) {
+    const response = await Functions.makeHttpRequest({
+      url: `${GITHUB_API_URL}/gists/${encodeURIComponent(recipient.gistId)}`,
+      headers: {
+        "Authorization": `Bearer ${secrets.githubToken}`,
+        "Accept": "application/vnd.github+json"
+      }
+    });
+    if (response.error && response.response?.status !== 404) {
+      console.log(`GitHub Gist Request Failed: ${JSON.stringify(response)}`);
+      return encodeSplitResponse(false, RejectionReason.GitHubApiError, noWeights);
+    }
+    participants.push({
+      address: recipient.address,
+      username: recipient.username,
+      gist: response.error ? null : parseGist(response.data)
+    });
+  }
+
+  const result = verifySplitClaim(prs, { owner, repo, issueNumber: targetIssueId }, participants, VERIFICATION_OPTIONS);
+
+  const ruleSummary = result.rules.filter((rule) => !rule.passed).map((rule) => rule.description).join(", ");
+  console.log(`Split verification: ${result.passed}${ruleSummary ? ` (failed: ${ruleSummary})` : ""}`);
+  console.log(`Weights: ${result.weights.join(", ")}`);
+
+  return encodeSplitResponse(result.passed, result.reason ?? 0, result.weights);
+}
+
+// Packed rather than ABI encoded, since a DON response may be at most 256 bytes:
+// verified, reason, then each recipient's weight, one byte apiece (a weight is at most
+// MAX_SPLIT_PULL_REQUESTS * PULL_REQUEST_SHARE = 120). The registry has the usernames
+function encodeSplitResponse(verified, reason, weights) {
+  return new Uint8Array([verified ? 1 : 0, reason & 0xff, ...weights]);
+}
+
+// Manual ABI Encoding (Gas Efficient & No external dependencies)
+// We need to return ABI encoded: (bool, string, uint8)
+// Layout:
+// - Bool (32 bytes)
+// - Offset to String (32 bytes) -> always 96 (0x60) for this specific tuple
+// - Uint8 (32 bytes)
+// - String Length (32 bytes)
+// - String Data (padded to 32 byte chunks)
+// Function declarations are hoisted, so the early returns above can use it
+
+function encodeAbi(boolValue, stringValue, reason) {
+  // A. Encode Bool
+  const boolBuf = new Uint8Array(32);
+  boolBuf[31] = boolValue ? 1 : 0;
+
+  // B. Encode String
+  const encoder = new TextEncoder();
+  const stringBytes = encoder.encode(stringValue);
+  const len = stringBytes.length;
+  
+  // Encode Length (uint256)
+  const lenBuf = new Uint8Array(32);
+  let lenTemp = len;
+  for (let i = 31; i >= 0; i--) {
+    lenBuf[i] = lenTemp & 0xff;
+    lenTemp >>= 8;
+  }
+
+  // Pad String Data to 32 bytes
+  const paddedLen = Math.ceil(len / 32) * 32;
+  const strBuf = new Uint8Array(paddedLen);
+  strBuf.set(stringBytes);
+
+  // C. Encode Offset (uint256) -> 96 bytes
+  // Why 96? Because the "Head" is Bool(32) + Offset(32) + Uint8(32) = 96
+  const offsetBuf = new Uint8Array(32);
+  offsetBuf[31] = 96;
+
+  // D. Encode Reason (uint8, left padded like any uint)
+  const reasonBuf = new Uint8Array(32);
+  reasonBuf[31] = reason & 0xff;
+
+  // E. Combine All
+  const totalLen = 32 + 32 + 32 + 32 + paddedLen;
+  const result = new Uint8Array(totalLen);
+  
+  result.set(boolBuf, 0);       // 0-31: Bool
+  result.set(offsetBuf, 32);    // 32-63: Offset
+  result.set(reasonBuf, 64);    // 64-95: Reason
+  result.set(lenBuf, 96);       // 96-127: String Length
+  result.set(strBuf, 128);      // 128-End: String Data
+  
+  return result;
+}
\ No newline at end of file
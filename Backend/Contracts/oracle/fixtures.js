@@ -0,0 +1,304 @@
+// Recorded GitHub responses, served by stubGitHub.js to `node oracle/harness.js`
+// args: [Owner, Repo, PR_Number, Target_Issue_ID, Claimer, Linked_Username, Gist_ID]
+// `gist` is the /gists/{id} body (null for a 404); `options` overrides the build's VerificationOptions
+// `githubError` fails the GraphQL request with that HTTP status; `rawGraphQL` replaces its body
+// Split claims give `pullRequests` ({ number: node }) and `gists` ({ id: body }) instead
+// `expectedReason`, `expectedAuthor` (not for splits) and `expectedWeights` (splits only) are checked when set;
+// `expectedError` means the script should throw (the registry then records SCRIPT_ERROR)
+
+const CLAIMER = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+const OTHER_WALLET = "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc";
+
+// RejectionReason in rules/verification.ts
+const REASON = {
+  NONE: 0,
+  NOT_MERGED: 1,
+  ISSUE_NOT_LINKED: 2,
+  PR_NOT_FOUND: 3,
+  AUTHOR_MISMATCH: 4,
+  IDENTITY_NOT_PROVEN: 5,
+  GITHUB_API_ERROR: 6
+};
+
+function closes(owner, repo, number) {
+  return { number, repository: { name: repo, owner: { login: owner } } };
+}
+
+function pullRequest({ merged = true, body = "", closing = [], author = "bountyHunter69", coAuthors }) {
+  return {
+    merged,
+    body,
+    author: { login: author },
+    closingIssuesReferences: { nodes: closing },
+    // Only the split query asks for commits
+    ...(coAuthors && {
+      commits: {
+        nodes: [{ commit: { authors: { nodes: [author, ...coAuthors].map((login) => ({ user: { login } })) } } }]
+      }
+    })
+  };
+}
+
+function gist(owner = "bountyHunter69", wallet = CLAIMER) {
+  return {
+    owner: { login: owner },
+    files: { "mergemint.md": { content: `MergeMint identity proof: ${wallet}` } }
+  };
+}
+
+function claimArgs(prNumber, issueNumber, username = "bountyHunter69") {
+  return ["acme", "widgets", prNumber, issueNumber, CLAIMER, username, "a1b2c3"];
+}
+
+// bountyHunter69 claims for both of them; coder2 proves OTHER_WALLET with gist d4e5f6
+function splitArgs(prNumbers, issueNumber, mode) {
+  return [
+    ...claimArgs(prNumbers, issueNumber),
+    mode,
+    CLAIMER, "bountyHunter69", "a1b2c3",
+    OTHER_WALLET, "coder2", "d4e5f6"
+  ];
+}
+
+function splitGists() {
+  return { a1b2c3: gist(), d4e5f6: gist("coder2", OTHER_WALLET) };
+}
+
+module.exports = [
+  {
+    name: "Closed with 'close'",
+    args: claimArgs("11", "1"),
+    gist: gist(),
+    pullRequest: pullRequest({ body: "close #1", closing: [closes("acme", "widgets", 1)] }),
+    expectedSuccess: true,
+    expectedAuthor: "bountyHunter69",
+    expectedReason: REASON.NONE
+  },
+  {
+    name: "Closed with 'fixed'",
+    args: claimArgs("12", "2"),
+    gist: gist(),
+    pullRequest: pullRequest({ body: "Fixed #2", closing: [closes("acme", "widgets", 2)] }),
+    expectedSuccess: true
+  },
+  {
+    name: "Closed with 'resolved'",
+    args: claimArgs("13", "3"),
+    gist: gist(),
+    pullRequest: pullRequest({ body: "Resolved: #3", closing: [closes("acme", "widgets", 3)] }),
+    expectedSuccess: true
+  },
+  {
+    name: "owner/repo#N reference",
+    args: claimArgs("14", "4"),
+    gist: gist(),
+    pullRequest: pullRequest({ body: "Closes acme/widgets#4", closing: [closes("acme", "widgets", 4)] }),
+    expectedSuccess: true
+  },
+  {
+    name: "Full issue URL",
+    args: claimArgs("15", "5"),
+    gist: gist(),
+    pullRequest: pullRequest({
+      body: "Fixes https://github.com/acme/widgets/issues/5",
+      closing: [closes("acme", "widgets", 5)]
+    }),
+    expectedSuccess: true
+  },
+  {
+    name: "Keyword inside a code block",
+    args: claimArgs("16", "6"),
+    gist: gist(),
+    // GitHub doesn't link it, and the body fallback ignores code too
+    pullRequest: pullRequest({ body: "Usage:\n```\ngit commit -m 'Fixes #6'\n```" }),
+    options: { bodyFallback: true },
+    expectedSuccess: false,
+    expectedReason: REASON.ISSUE_NOT_LINKED
+  },
+  {
+    name: "Same number in another repo",
+    args: claimArgs("17", "7"),
+    gist: gist(),
+    pullRequest: pullRequest({ body: "Closes fork/widgets#7", closing: [closes("fork", "widgets", 7)] }),
+    expectedSuccess: false,
+    expectedReason: REASON.ISSUE_NOT_LINKED
+  },
+  {
+    name: "Unmerged PR",
+    args: claimArgs("18", "8"),
+    gist: gist(),
+    pullRequest: pullRequest({ merged: false, body: "Closes #8", closing: [closes("acme", "widgets", 8)] }),
+    expectedSuccess: false,
+    expectedReason: REASON.NOT_MERGED
+  },
+  {
+    name: "Body only, fallback off",
+    args: claimArgs("19", "9"),
+    gist: gist(),
+    // e.g. a PR into a non-default branch, which GitHub never links
+    pullRequest: pullRequest({ body: "Closes #9" }),
+    options: { bodyFallback: false },
+    expectedSuccess: false,
+    expectedReason: REASON.ISSUE_NOT_LINKED
+  },
+  {
+    name: "Body only, fallback on",
+    args: claimArgs("19", "9"),
+    gist: gist(),
+    pullRequest: pullRequest({ body: "Closes #9" }),
+    options: { bodyFallback: true },
+    expectedSuccess: true
+  },
+  {
+    name: "Claimed by someone else's wallet",
+    // mallory linked their own account and claimed bountyHunter69's PR
+    args: claimArgs("20", "10", "mallory"),
+    gist: gist("mallory"),
+    pullRequest: pullRequest({ body: "Closes #10", closing: [closes("acme", "widgets", 10)] }),
+    expectedSuccess: false,
+    expectedReason: REASON.AUTHOR_MISMATCH
+  },
+  {
+    name: "Gist proves a different wallet",
+    args: claimArgs("21", "11"),
+    gist: gist("bountyHunter69", OTHER_WALLET),
+    pullRequest: pullRequest({ body: "Closes #11", closing: [closes("acme", "widgets", 11)] }),
+    expectedSuccess: false,
+    expectedReason: REASON.IDENTITY_NOT_PROVEN
+  },
+  {
+    name: "Gist deleted",
+    args: claimArgs("22", "12"),
+    gist: null,
+    pullRequest: pullRequest({ body: "Closes #12", closing: [closes("acme", "widgets", 12)] }),
+    expectedSuccess: false,
+    expectedReason: REASON.IDENTITY_NOT_PROVEN
+  },
+  {
+    name: "PR not found",
+    args: claimArgs("404", "13"),
+    gist: gist(),
+    pullRequest: null,
+    expectedSuccess: false,
+    expectedReason: REASON.PR_NOT_FOUND
+  },
+  {
+    name: "PR number that isn't a number",
+    args: claimArgs("abc", "18"),
+    gist: gist(),
+    // What GitHub says about the variable if the script ever asks
+    rawGraphQL: { errors: [{ message: "Variable $number of type Int! was provided invalid value" }] },
+    expectedSuccess: false,
+    expectedReason: REASON.PR_NOT_FOUND
+  },
+  {
+    name: "GitHub unavailable",
+    args: claimArgs("23", "14"),
+    gist: gist(),
+    githubError: 502,
+    expectedSuccess: false,
+    expectedReason: REASON.GITHUB_API_ERROR
+  },
+  {
+    name: "HTML error page",
+    args: claimArgs("24", "15"),
+    gist: gist(),
+    // e.g. a proxy in front of GitHub answering 200 with a page
+    rawGraphQL: "<html><body>Service Unavailable</body></html>",
+    expectedSuccess: false,
+    expectedReason: REASON.GITHUB_API_ERROR
+  },
+  {
+    name: "Response without a data field",
+    args: claimArgs("25", "16"),
+    gist: gist(),
+    rawGraphQL: { message: "Something went wrong" },
+    expectedSuccess: false,
+    expectedReason: REASON.GITHUB_API_ERROR
+  },
+  {
+    name: "Malformed pull request node",
+    args: claimArgs("26", "17"),
+    gist: gist(),
+    // A closing reference without its repository can't be checked against the bounty
+    pullRequest: { merged: true, body: "", author: { login: "bountyHunter69" }, closingIssuesReferences: { nodes: [{ number: 17 }] } },
+    expectedError: true
+  },
+  {
+    name: "Split: fixed shares with a co-author",
+    args: splitArgs("30", "20", "fixed"),
+    gists: splitGists(),
+    pullRequests: {
+      30: pullRequest({ body: "Closes #20", closing: [closes("acme", "widgets", 20)], coAuthors: ["coder2"] })
+    },
+    expectedSuccess: true,
+    expectedWeights: [6, 6]
+  },
+  {
+    name: "Split: one share per PR",
+    args: splitArgs("31, 32,33", "21", "perPullRequest"),
+    gists: splitGists(),
+    pullRequests: {
+      31: pullRequest({ body: "Closes #21", closing: [closes("acme", "widgets", 21)], coAuthors: [] }),
+      32: pullRequest({ body: "Closes #21", closing: [closes("acme", "widgets", 21)], author: "coder2", coAuthors: [] }),
+      33: pullRequest({ body: "Closes #21", closing: [closes("acme", "widgets", 21)], coAuthors: [] })
+    },
+    expectedSuccess: true,
+    expectedWeights: [24, 12]
+  },
+  {
+    name: "Split: a participant authored nothing",
+    args: splitArgs("34", "22", "fixed"),
+    gists: splitGists(),
+    pullRequests: {
+      34: pullRequest({ body: "Closes #22", closing: [closes("acme", "widgets", 22)], coAuthors: [] })
+    },
+    expectedSuccess: false,
+    expectedReason: REASON.AUTHOR_MISMATCH,
+    expectedWeights: [12, 0]
+  },
+  {
+    name: "Split: one PR missing",
+    args: splitArgs("35,36", "23", "perPullRequest"),
+    gists: splitGists(),
+    pullRequests: {
+      35: pullRequest({ body: "Closes #23", closing: [closes("acme", "widgets", 23)], coAuthors: [] })
+    },
+    expectedSuccess: false,
+    expectedReason: REASON.PR_NOT_FOUND
+  },
+  {
+    name: "Split: a participant's gist deleted",
+    args: splitArgs("37", "24", "fixed"),
+    gists: { a1b2c3: gist() },
+    pullRequests: {
+      37: pullRequest({ body: "Closes #24", closing: [closes("acme", "widgets", 24)], coAuthors: ["coder2"] })
+    },
+    expectedSuccess: false,
+    expectedReason: REASON.IDENTITY_NOT_PROVEN
+  },
+  {
+    name: "Split: unreadable PR list",
+    args: splitArgs("39,,40", "26", "fixed"),
+    gists: splitGists(),
+    pullRequests: {},
+    expectedSuccess: false,
+    expectedReason: REASON.PR_NOT_FOUND,
+    expectedWeights: [0, 0]
+  },
+  {
+    name: "Split: too many PRs",
+    args: splitArgs(Array.from({ length: 11 }, (_, i) => 41 + i).join(","), "27", "perPullRequest"),
+    gists: splitGists(),
+    pullRequests: {},
+    expectedSuccess: false,
+    expectedReason: REASON.PR_NOT_FOUND
+  },
+  {
+    name: "Split: unknown mode",
+    args: splitArgs("38", "25", "evenly"),
+    gists: splitGists(),
+    pullRequests: {},
+    expectedError: true
+  }
+];
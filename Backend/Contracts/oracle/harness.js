@@ -0,0 +1,78 @@
+const { simulateScript } = require("@chainlink/functions-toolkit");
+const { buildSource } = require("./build");
+const { reportResult } = require("./simulate");
+const { startStubGitHub, TOKEN } = require("./stubGitHub");
+const fixtures = require("./fixtures");
+
+// Offline counterpart of simulate.js: runs the DON script through the Functions
+// simulator with GitHub replaced by a local stub serving fixtures.js, so no token
+// or network is needed. Usage: node oracle/harness.js [name filter]
+
+/**
+ * The stub's world for one fixture: its pull requests and gists under the claim's coordinates
+ */
+function fixtureWorld(test) {
+  const [owner, repo, prNumber, , , , gistId] = test.args;
+  const pullRequests = test.pullRequests ?? { [prNumber]: test.pullRequest ?? null };
+  return {
+    pullRequests: Object.fromEntries(
+      Object.entries(pullRequests).map(([number, node]) => [`${owner}/${repo}#${number}`, node])
+    ),
+    gists: test.gists ?? (test.gist ? { [gistId]: test.gist } : {}),
+    githubError: test.githubError,
+    rawGraphQL: test.rawGraphQL
+  };
+}
+
+async function runCase(stub, test) {
+  console.log(`\nTesting Case: ${test.name}`);
+  console.log(`Arguments: ${JSON.stringify(test.args)}`);
+
+  stub.use(fixtureWorld(test));
+  const { responseBytesHexstring, errorString, capturedTerminalOutput } = await simulateScript({
+    source: buildSource(test.options, stub.url),
+    args: test.args,
+    bytesArgs: [],
+    secrets: { githubToken: TOKEN }
+  });
+
+  if (errorString) {
+    console.log(`\n🔍 Script Error: ${errorString}`);
+    console.log(`\n${test.expectedError ? "✅ TEST PASSED" : "❌ TEST FAILED"}`);
+    if (!test.expectedError) console.log("Logs:", capturedTerminalOutput);
+    return !!test.expectedError;
+  }
+  if (test.expectedError) {
+    console.log(`\n❌ TEST FAILED\n   Expected the script to throw`);
+    return false;
+  }
+  return reportResult(test, responseBytesHexstring);
+}
+
+async function main() {
+  const filter = process.argv[2];
+  const cases = filter ? fixtures.filter((test) => test.name.includes(filter)) : fixtures;
+  const stub = await startStubGitHub({ requireToken: true });
+  let failures = 0;
+
+  console.log(`🧪 Running ${cases.length} verification fixtures against ${stub.url}...\n`);
+
+  try {
+    for (const test of cases) {
+      try {
+        if (!(await runCase(stub, test))) failures++;
+      } catch (err) {
+        console.error("❌ Simulation Error:", err);
+        failures++;
+      }
+      console.log("-".repeat(50));
+    }
+  } finally {
+    await stub.close();
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} fixtures passed`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,287 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RejectionReason,
+  describePullRequestInputError,
+  describeRejectionReason,
+  findClosingReferences,
+  identityProofMessage,
+  isPullRequestNumber,
+  parseGist,
+  parsePullRequest,
+  parsePullRequestNumbers,
+  stripCode,
+  verifyPullRequest,
+  verifySplitClaim,
+  type ClaimerIdentity,
+  type PullRequestData
+} from './verification';
+
+const target = { owner: 'acme', repo: 'widgets', issueNumber: '101' };
+const wallet = '0xAbC0000000000000000000000000000000000001';
+
+function claimer(overrides: Partial<ClaimerIdentity> = {}): ClaimerIdentity {
+  return {
+    address: wallet,
+    username: 'alice',
+    gist: { owner: 'alice', text: identityProofMessage(wallet) },
+    ...overrides
+  };
+}
+
+function failing(result: { rules: Array<{ id: string; passed: boolean }> }): string[] {
+  return result.rules.filter((r) => !r.passed).map((r) => r.id);
+}
+
+function pr(overrides: Partial<PullRequestData> = {}): PullRequestData {
+  return { merged: true, body: '', author: 'alice', closingIssues: [], commitAuthors: null, ...overrides };
+}
+
+function linksIssue(data: PullRequestData, options = { bodyFallback: false }): boolean {
+  return verifyPullRequest(data, target, claimer(), options).rules.find((r) => r.id === 'linksIssue')!.passed;
+}
+
+test('findClosingReferences accepts every closing keyword, case-insensitively', () => {
+  for (const keyword of ['close', 'Closes', 'closed', 'FIX', 'fixes', 'Fixed', 'resolve', 'resolves', 'RESOLVED']) {
+    assert.deepEqual(
+      findClosingReferences(`${keyword} #101`, 'acme', 'widgets'),
+      [{ owner: 'acme', repo: 'widgets', number: 101 }],
+      keyword
+    );
+  }
+  assert.equal(findClosingReferences('Fixes: #101', 'acme', 'widgets').length, 1);
+});
+
+test('findClosingReferences reads owner/repo#N and issue URLs', () => {
+  assert.deepEqual(findClosingReferences('Closes other/lib#7', 'acme', 'widgets'), [
+    { owner: 'other', repo: 'lib', number: 7 }
+  ]);
+  assert.deepEqual(findClosingReferences('Resolves https://github.com/acme/widgets/issues/101', 'acme', 'widgets'), [
+    { owner: 'acme', repo: 'widgets', number: 101 }
+  ]);
+});
+
+test('findClosingReferences finds several references in one body', () => {
+  const refs = findClosingReferences('Fixes #1, closes #2\n\nRelated to #3', 'acme', 'widgets');
+  assert.deepEqual(refs.map((r) => r.number), [1, 2]);
+});
+
+test('findClosingReferences ignores mentions without a keyword and keywords inside words', () => {
+  assert.deepEqual(findClosingReferences('Related to #101', 'acme', 'widgets'), []);
+  assert.deepEqual(findClosingReferences('prefixes #101', 'acme', 'widgets'), []);
+});
+
+test('stripCode removes fenced blocks and inline code', () => {
+  assert.equal(stripCode('a\n```\nCloses #1\n```\nb'), 'a\n\nb');
+  assert.equal(stripCode('run `fixes #1` now'), 'run  now');
+  // An unclosed fence runs to the end of the body
+  assert.equal(stripCode('a\n~~~js\nfixes #1'), 'a\n');
+});
+
+test('closing references must point at the bounty repo', () => {
+  assert.equal(linksIssue(pr({ closingIssues: [{ owner: 'Acme', repo: 'Widgets', number: 101 }] })), true);
+  assert.equal(linksIssue(pr({ closingIssues: [{ owner: 'fork', repo: 'widgets', number: 101 }] })), false);
+  assert.equal(linksIssue(pr({ closingIssues: [{ owner: 'acme', repo: 'widgets', number: 1010 }] })), false);
+});
+
+test('the PR body only counts when the fallback is enabled', () => {
+  const data = pr({ body: 'Closes #101' });
+  assert.equal(linksIssue(data), false);
+  assert.equal(linksIssue(data, { bodyFallback: true }), true);
+});
+
+test('the body fallback rejects code blocks and other repos', () => {
+  assert.equal(linksIssue(pr({ body: '```\nCloses #101\n```' }), { bodyFallback: true }), false);
+  assert.equal(linksIssue(pr({ body: 'Closes other/widgets#101' }), { bodyFallback: true }), false);
+  assert.equal(linksIssue(pr({ body: 'Closes #1010' }), { bodyFallback: true }), false);
+});
+
+test('without closing references the body is used as an estimate', () => {
+  assert.equal(linksIssue(pr({ closingIssues: null, body: 'fixed acme/widgets#101' })), true);
+});
+
+test('verifyPullRequest reports each failing rule', () => {
+  const closes = [{ owner: 'acme', repo: 'widgets', number: 101 }];
+
+  const passed = verifyPullRequest(pr({ closingIssues: closes }), target, claimer());
+  assert.equal(passed.passed, true);
+
+  const unmerged = verifyPullRequest(pr({ merged: false, closingIssues: closes }), target, claimer());
+  assert.equal(unmerged.passed, false);
+  assert.deepEqual(failing(unmerged), ['merged']);
+
+  const unlinked = verifyPullRequest(pr({ closingIssues: [{ owner: 'acme', repo: 'widgets', number: 7 }] }), target, claimer());
+  assert.equal(unlinked.passed, false);
+  assert.deepEqual(failing(unlinked), ['linksIssue']);
+});
+
+test('the PR author must be the account linked to the claimer', () => {
+  const closes = [{ owner: 'acme', repo: 'widgets', number: 101 }];
+
+  assert.equal(verifyPullRequest(pr({ author: 'Alice', closingIssues: closes }), target, claimer()).passed, true);
+  // Someone else claiming alice's PR with their own linked account
+  const frontRun = verifyPullRequest(
+    pr({ closingIssues: closes }),
+    target,
+    claimer({ username: 'mallory', gist: { owner: 'mallory', text: identityProofMessage(wallet) } })
+  );
+  assert.deepEqual(failing(frontRun), ['author']);
+
+  assert.deepEqual(failing(verifyPullRequest(pr({ closingIssues: closes }), target, null)), ['author', 'identityProof']);
+});
+
+test('the gist must belong to the linked account and name the claiming wallet', () => {
+  const closes = [{ owner: 'acme', repo: 'widgets', number: 101 }];
+  const check = (identity: ClaimerIdentity) => failing(verifyPullRequest(pr({ closingIssues: closes }), target, identity));
+
+  assert.deepEqual(check(claimer({ gist: null })), ['identityProof']);
+  assert.deepEqual(check(claimer({ gist: { owner: 'mallory', text: identityProofMessage(wallet) } })), ['identityProof']);
+  assert.deepEqual(check(claimer({ gist: { owner: 'alice', text: identityProofMessage('0x0000000000000000000000000000000000000002') } })), ['identityProof']);
+  // Checksummed or lowercase, the address is the same
+  assert.deepEqual(check(claimer({ gist: { owner: 'alice', text: `MergeMint identity proof: ${wallet}` } })), []);
+});
+
+test('the first failing rule decides the rejection reason', () => {
+  const closes = [{ owner: 'acme', repo: 'widgets', number: 101 }];
+
+  assert.equal(verifyPullRequest(pr({ closingIssues: closes }), target, claimer()).reason, null);
+  assert.equal(verifyPullRequest(pr({ merged: false }), target, claimer()).reason, RejectionReason.NotMerged);
+  assert.equal(verifyPullRequest(pr(), target, claimer()).reason, RejectionReason.IssueNotLinked);
+  assert.equal(
+    verifyPullRequest(pr({ author: 'mallory', closingIssues: closes }), target, claimer()).reason,
+    RejectionReason.AuthorMismatch
+  );
+  assert.equal(
+    verifyPullRequest(pr({ closingIssues: closes }), target, claimer({ gist: null })).reason,
+    RejectionReason.IdentityNotProven
+  );
+});
+
+test('describeRejectionReason falls back for unknown codes', () => {
+  assert.match(describeRejectionReason(RejectionReason.NotMerged), /not merged/);
+  assert.match(describeRejectionReason(RejectionReason.TimedOut), /did not answer in time/);
+  assert.equal(describeRejectionReason(99), describeRejectionReason(RejectionReason.Unknown));
+});
+
+test('parseGist joins every file and reads the owner', () => {
+  assert.equal(parseGist({ message: 'Not Found' }), null);
+  assert.deepEqual(parseGist({
+    owner: { login: 'alice' },
+    files: { 'a.md': { content: 'one' }, 'b.md': { content: 'two' } }
+  }), { owner: 'alice', text: 'one\ntwo' });
+});
+
+test('parsePullRequest reads the GraphQL pullRequest node', () => {
+  assert.equal(parsePullRequest(null), null);
+  assert.deepEqual(parsePullRequest({
+    merged: true,
+    body: null,
+    author: { login: 'alice' },
+    closingIssuesReferences: {
+      nodes: [{ number: 101, repository: { name: 'widgets', owner: { login: 'acme' } } }]
+    }
+  }), pr({ body: null, closingIssues: [{ owner: 'acme', repo: 'widgets', number: 101 }] }));
+});
+
+test('parsePullRequest reads commit authors when the split query fetched them', () => {
+  const parsed = parsePullRequest({
+    merged: true,
+    body: '',
+    author: { login: 'alice' },
+    closingIssuesReferences: { nodes: [] },
+    commits: {
+      nodes: [
+        { commit: { authors: { nodes: [{ user: { login: 'alice' } }, { user: { login: 'bob' } }] } } },
+        // A trailer GitHub couldn't match to an account
+        { commit: { authors: { nodes: [{ user: null }] } } }
+      ]
+    }
+  });
+  assert.deepEqual(parsed?.commitAuthors, ['alice', 'bob']);
+});
+
+test('isPullRequestNumber accepts only numbers GitHub can look up', () => {
+  assert.equal(isPullRequestNumber('42'), true);
+  assert.equal(isPullRequestNumber('999999999'), true);
+  assert.equal(isPullRequestNumber('abc'), false);
+  assert.equal(isPullRequestNumber(''), false);
+  assert.equal(isPullRequestNumber('042'), false);
+  assert.equal(isPullRequestNumber('1e3'), false);
+  assert.equal(isPullRequestNumber('9999999999'), false);
+});
+
+test('parsePullRequestNumbers reads a comma separated list of distinct PRs', () => {
+  assert.deepEqual(parsePullRequestNumbers('12, 15,12'), ['12', '15']);
+  assert.deepEqual(parsePullRequestNumbers('7'), ['7']);
+  assert.equal(parsePullRequestNumbers(''), null);
+  assert.equal(parsePullRequestNumbers('12, #15'), null);
+  assert.equal(parsePullRequestNumbers('0'), null);
+  assert.equal(parsePullRequestNumbers('7,,8'), null);
+  assert.equal(parsePullRequestNumbers(Array.from({ length: 11 }, (_, i) => i + 1).join(',')), null);
+});
+
+test('describePullRequestInputError explains input claimBounty would reject', () => {
+  assert.equal(describePullRequestInputError('42', false), null);
+  assert.match(describePullRequestInputError('42.5', false) ?? '', /PR number only/);
+  assert.match(describePullRequestInputError('42,43', false) ?? '', /PR number only/);
+  assert.equal(describePullRequestInputError('42, 43', true), null);
+  assert.match(describePullRequestInputError('42,,43', true) ?? '', /separated by commas/);
+});
+
+const bobWallet = '0xAbC0000000000000000000000000000000000002';
+const bob = claimer({
+  address: bobWallet,
+  username: 'bob',
+  gist: { owner: 'bob', text: identityProofMessage(bobWallet) }
+});
+const closing = [{ owner: 'acme', repo: 'widgets', number: 101 }];
+
+test('verifySplitClaim gives each PR one share, divided among its participating authors', () => {
+  const result = verifySplitClaim([
+    { number: '1', data: pr({ closingIssues: closing, commitAuthors: ['alice', 'bob'] }) },
+    { number: '2', data: pr({ closingIssues: closing, author: 'bob' }) },
+    // Carol isn't a participant, so her co-authorship earns nothing
+    { number: '3', data: pr({ closingIssues: closing, commitAuthors: ['carol'] }) }
+  ], target, [claimer(), bob]);
+
+  assert.equal(result.passed, true);
+  assert.equal(result.reason, null);
+  assert.deepEqual(result.weights, [18, 18]);
+});
+
+test('verifySplitClaim rejects a participant who contributed to none of the PRs', () => {
+  const result = verifySplitClaim(
+    [{ number: '1', data: pr({ closingIssues: closing }) }],
+    target,
+    [claimer(), bob]
+  );
+
+  assert.equal(result.passed, false);
+  assert.equal(result.reason, RejectionReason.AuthorMismatch);
+  assert.deepEqual(failing(result), ['contributed']);
+  assert.deepEqual(result.weights, [12, 0]);
+});
+
+test('verifySplitClaim checks every PR and every participant', () => {
+  const outsider = verifySplitClaim(
+    [{ number: '1', data: pr({ closingIssues: closing, author: 'mallory', commitAuthors: ['alice'] }) }],
+    target,
+    [claimer()]
+  );
+  assert.deepEqual(failing(outsider), ['author']);
+  assert.match(outsider.rules.find((r) => !r.passed)!.detail!, /mallory/);
+
+  const unmerged = verifySplitClaim([
+    { number: '1', data: pr({ closingIssues: closing }) },
+    { number: '2', data: pr({ closingIssues: closing, merged: false }) }
+  ], target, [claimer()]);
+  assert.equal(unmerged.reason, RejectionReason.NotMerged);
+  assert.match(unmerged.rules.find((r) => !r.passed)!.description, /#2/);
+
+  const unproven = verifySplitClaim(
+    [{ number: '1', data: pr({ closingIssues: closing, commitAuthors: ['bob'] }) }],
+    target,
+    [claimer(), { ...bob, gist: null }]
+  );
+  assert.equal(unproven.reason, RejectionReason.IdentityNotProven);
+});
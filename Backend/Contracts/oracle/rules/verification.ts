@@ -0,0 +1,504 @@
+// Verification rules shared by the DON script (bundled by oracle/build.js) and the frontend.
+// This file is inlined into verification.js, so it must not import anything.
+
+export type VerificationRuleId = 'merged' | 'linksIssue' | 'author' | 'identityProof' | 'contributed';
+
+// Mirrors BountyRegistry.SplitMode, as the registry passes it in the DON args
+export type SplitMode = 'fixed' | 'perPullRequest';
+
+// Why the oracle rejected a claim. The DON returns it and the registry emits it in
+// ClaimRejected, so the numbering must match BountyRegistry.RejectionReason.
+// TimedOut is never returned by the DON; the registry uses it for resetVerification
+export enum RejectionReason {
+  Unknown = 0,
+  NotMerged = 1,
+  IssueNotLinked = 2,
+  PullRequestNotFound = 3,
+  AuthorMismatch = 4,
+  IdentityNotProven = 5,
+  GitHubApiError = 6,
+  ScriptError = 7,
+  TimedOut = 8
+}
+
+export interface IssueReference {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+// The fields of a pull request the rules look at
+export interface PullRequestData {
+  merged: boolean;
+  body: string | null;
+  author: string;
+  // GitHub's closingIssuesReferences; null when they weren't fetched (REST has no equivalent)
+  closingIssues: IssueReference[] | null;
+  // Accounts credited on the PR's commits, Co-authored-by trailers included; null when
+  // they weren't fetched (only the split query asks for them)
+  commitAuthors: string[] | null;
+}
+
+// The parts of a GraphQL pullRequest node the rules read: PULL_REQUEST_FIELDS, plus
+// commits when fetched by pullRequestsQuery
+export interface PullRequestNode {
+  merged?: boolean;
+  body?: string | null;
+  author?: { login: string } | null;
+  closingIssuesReferences?: {
+    nodes: { number: number; repository: { name: string; owner: { login: string } } }[];
+  } | null;
+  commits?: {
+    nodes: { commit: { authors: { nodes: { user: { login: string } | null }[] } } }[];
+  } | null;
+}
+
+// The parts of a REST /gists/{id} response the rules read; an error body has only a message
+export interface GistJson {
+  owner?: { login: string } | null;
+  files?: Record<string, { content?: string | null } | null>;
+  message?: string;
+}
+
+// The bounty's issue
+export interface VerificationTarget {
+  owner: string;
+  repo: string;
+  issueNumber: string;
+}
+
+// The public gist a GitHub account uses to prove it belongs to a wallet
+export interface GistData {
+  owner: string;
+  // Every file's content, concatenated
+  text: string;
+}
+
+// The claiming wallet and the GitHub account it linked on chain
+export interface ClaimerIdentity {
+  address: string;
+  username: string;
+  // null when the gist doesn't exist
+  gist: GistData | null;
+}
+
+export interface VerificationOptions {
+  // Also accept a closing keyword in the PR body when GitHub lists no matching closing reference,
+  // e.g. for PRs into a non-default branch, which GitHub never links
+  bodyFallback: boolean;
+}
+
+export interface VerificationRuleResult {
+  id: VerificationRuleId;
+  description: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  rules: VerificationRuleResult[];
+  // The first failing rule's reason; null when every rule passed
+  reason: RejectionReason | null;
+}
+
+export interface SplitVerificationResult extends VerificationResult {
+  // Each participant's PR shares, in the order given; PER_PULL_REQUEST splits pay by them
+  weights: number[];
+}
+
+const RULE_REJECTION_REASONS: Record<VerificationRuleId, RejectionReason> = {
+  merged: RejectionReason.NotMerged,
+  linksIssue: RejectionReason.IssueNotLinked,
+  author: RejectionReason.AuthorMismatch,
+  identityProof: RejectionReason.IdentityNotProven,
+  contributed: RejectionReason.AuthorMismatch
+};
+
+const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  [RejectionReason.Unknown]: 'The oracle rejected the claim without a reason.',
+  [RejectionReason.NotMerged]: 'The pull request is not merged.',
+  [RejectionReason.IssueNotLinked]: 'The pull request does not close this issue.',
+  [RejectionReason.PullRequestNotFound]: 'The pull request was not found in this repository.',
+  [RejectionReason.AuthorMismatch]: "The pull request was not opened by the claimer's linked GitHub account, or a split participant authored none of the pull requests.",
+  [RejectionReason.IdentityNotProven]: "The claimer's gist no longer proves their GitHub account belongs to their wallet.",
+  [RejectionReason.GitHubApiError]: 'The oracle could not reach GitHub. Nothing is wrong with the claim; try again.',
+  [RejectionReason.ScriptError]: 'The verification script failed. Try again, or contact the maintainers if it keeps happening.',
+  [RejectionReason.TimedOut]: 'The oracle did not answer in time, so the claim was reset. Nothing is wrong with the claim; try again.'
+};
+
+export const DEFAULT_VERIFICATION_OPTIONS: VerificationOptions = { bodyFallback: false };
+
+// GitHub's closing keywords (docs: "Linking a pull request to an issue")
+export const CLOSING_KEYWORDS = [
+  'close', 'closes', 'closed',
+  'fix', 'fixes', 'fixed',
+  'resolve', 'resolves', 'resolved'
+];
+
+// A split claim may list this many PRs, all fetched in one query. Keep
+// BountyRegistry.MAX_SPLIT_PULL_REQUESTS in step
+export const MAX_SPLIT_PULL_REQUESTS = 10;
+
+// One PR's verified share in a PER_PULL_REQUEST split, divided evenly among its authors.
+// Divisible by every participant count up to BountyRegistry.MAX_SPLIT_RECIPIENTS (4)
+export const PULL_REQUEST_SHARE = 12;
+
+const PULL_REQUEST_FIELDS = `
+      merged
+      body
+      author {
+        login
+      }
+      closingIssuesReferences(first: 50) {
+        nodes {
+          number
+          repository {
+            name
+            owner {
+              login
+            }
+          }
+        }
+      }`;
+
+export const PULL_REQUEST_QUERY = `
+query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {${PULL_REQUEST_FIELDS}
+    }
+  }
+}`;
+
+/**
+ * Fetches `count` PRs at once, aliased pr0, pr1, ... and numbered by the variables of the
+ * same names. Also reads commit authors, so co-authors count as contributors.
+ */
+export function pullRequestsQuery(count: number): string {
+  const indexes = Array.from({ length: count }, (_, i) => i);
+  const variables = indexes.map((i) => `, $pr${i}: Int!`).join('');
+  const fields = indexes.map((i) => `
+    pr${i}: pullRequest(number: $pr${i}) {${PULL_REQUEST_FIELDS}
+      commits(first: 100) {
+        nodes {
+          commit {
+            authors(first: 10) {
+              nodes {
+                user {
+                  login
+                }
+              }
+            }
+          }
+        }
+      }
+    }`).join('');
+
+  return `
+query($owner: String!, $name: String!${variables}) {
+  repository(owner: $owner, name: $name) {${fields}
+  }
+}`;
+}
+
+/**
+ * Reads PULL_REQUEST_QUERY's pullRequest node, or returns null when the PR doesn't exist
+ */
+export function parsePullRequest(node: PullRequestNode | null | undefined): PullRequestData | null {
+  if (!node) return null;
+
+  return {
+    merged: node.merged === true,
+    body: node.body ?? null,
+    author: node.author?.login ?? '',
+    closingIssues: (node.closingIssuesReferences?.nodes ?? []).map((issue) => ({
+      owner: issue.repository.owner.login,
+      repo: issue.repository.name,
+      number: issue.number
+    })),
+    // Authors GitHub couldn't match to an account have no user
+    commitAuthors: node.commits
+      ? node.commits.nodes.flatMap((commit) => commit.commit.authors.nodes
+        .map((author) => author.user?.login)
+        .filter((login): login is string => !!login))
+      : null
+  };
+}
+
+/**
+ * Whether a claimed PR number is one GitHub can look up: digits without a leading zero,
+ * within GraphQL's 32-bit Int. BountyRegistry.claimBounty applies the same check
+ */
+export function isPullRequestNumber(value: string): boolean {
+  return /^[1-9]\d{0,8}$/.test(value);
+}
+
+/**
+ * Reads a split claim's PR list ("12, 15"), or returns null unless it names between one
+ * and MAX_SPLIT_PULL_REQUESTS distinct PRs
+ */
+export function parsePullRequestNumbers(input: string): string[] | null {
+  const numbers = input.split(',').map((part) => part.trim());
+  if (!numbers.every(isPullRequestNumber)) return null;
+
+  const unique = Array.from(new Set(numbers));
+  return unique.length <= MAX_SPLIT_PULL_REQUESTS ? unique : null;
+}
+
+/**
+ * What is wrong with a claim's PR input, or null when claimBounty will accept it: one PR
+ * number, or for a split claim a comma separated list of them
+ */
+export function describePullRequestInputError(input: string, split: boolean): string | null {
+  if (split) {
+    return parsePullRequestNumbers(input)
+      ? null
+      : `Enter up to ${MAX_SPLIT_PULL_REQUESTS} PR numbers separated by commas.`;
+  }
+  return isPullRequestNumber(input) ? null : 'Enter the PR number only, e.g. 42.';
+}
+
+/**
+ * Reads a REST /gists/{id} response, or returns null when the gist doesn't exist
+ */
+export function parseGist(json: GistJson | null | undefined): GistData | null {
+  if (!json?.owner) return null;
+
+  return {
+    owner: json.owner.login,
+    text: Object.values(json.files ?? {}).map((file) => file?.content ?? '').join('\n')
+  };
+}
+
+/**
+ * The text a GitHub account publishes in a gist to prove it belongs to a wallet
+ */
+export function identityProofMessage(address: string): string {
+  return `MergeMint identity proof: ${address.toLowerCase()}`;
+}
+
+function isTargetIssue(ref: IssueReference, target: VerificationTarget): boolean {
+  return ref.owner.toLowerCase() === target.owner.toLowerCase()
+    && ref.repo.toLowerCase() === target.repo.toLowerCase()
+    && String(ref.number) === target.issueNumber;
+}
+
+/**
+ * Drops fenced code blocks and inline code, where GitHub ignores closing keywords too
+ */
+export function stripCode(body: string): string {
+  return body
+    .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(^\1[^\S\n]*$|(?![\s\S]))/gm, '')
+    .replace(/`[^`\n]*`/g, '');
+}
+
+/**
+ * Issues a PR body closes with a keyword: "Fixes #1", "closes owner/repo#1" or
+ * "Resolved: https://github.com/owner/repo/issues/1". Bare "#1" is relative to the PR's repo.
+ */
+export function findClosingReferences(body: string | null, owner: string, repo: string): IssueReference[] {
+  const reference = [
+    'https?://github\\.com/([\\w.-]+)/([\\w.-]+)/issues/(\\d+)',
+    '([\\w.-]+)/([\\w.-]+)#(\\d+)',
+    '#(\\d+)'
+  ].join('|');
+  const regex = new RegExp(`\\b(?:${CLOSING_KEYWORDS.join('|')}):?\\s+(?:${reference})(?![\\w/])`, 'gi');
+
+  const refs: IssueReference[] = [];
+  for (const match of stripCode(body || '').matchAll(regex)) {
+    if (match[3]) {
+      refs.push({ owner: match[1], repo: match[2], number: Number(match[3]) });
+    } else if (match[6]) {
+      refs.push({ owner: match[4], repo: match[5], number: Number(match[6]) });
+    } else {
+      refs.push({ owner, repo, number: Number(match[7]) });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Explains a ClaimRejected reason code, including codes this build doesn't know
+ */
+export function describeRejectionReason(reason: number): string {
+  return REJECTION_MESSAGES[reason as RejectionReason] ?? REJECTION_MESSAGES[RejectionReason.Unknown];
+}
+
+/**
+ * Rules a single-PR claim must pass, described for the given issue
+ * ('contributed' only applies to split claims)
+ */
+export function describeVerificationRules(
+  issueNumber: string
+): Array<{ id: Exclude<VerificationRuleId, 'contributed'>; description: string }> {
+  return [
+    { id: 'merged', description: 'The PR is merged' },
+    { id: 'linksIssue', description: `The PR closes issue #${issueNumber} (e.g. "Closes #${issueNumber}")` },
+    { id: 'author', description: 'The PR was opened by the GitHub account linked to the claiming wallet' },
+    { id: 'identityProof', description: "The linked account's gist proves it belongs to the claiming wallet" }
+  ];
+}
+
+/**
+ * Rules a split claim must pass: each PR's, then each participant's
+ */
+export function describeSplitRules(
+  issueNumber: string,
+  prNumbers: string[],
+  usernames: string[]
+): Array<{ id: VerificationRuleId; description: string }> {
+  return [
+    ...prNumbers.flatMap((n) => [
+      { id: 'merged' as const, description: `PR #${n} is merged` },
+      { id: 'linksIssue' as const, description: `PR #${n} closes issue #${issueNumber}` },
+      { id: 'author' as const, description: `PR #${n} was opened by one of the participants` }
+    ]),
+    ...usernames.flatMap((username) => [
+      { id: 'identityProof' as const, description: `@${username}'s gist proves their wallet` },
+      { id: 'contributed' as const, description: `@${username} authored or co-authored one of the PRs` }
+    ])
+  ];
+}
+
+function checkLinksIssue(
+  pr: PullRequestData,
+  target: VerificationTarget,
+  options: VerificationOptions
+): { passed: boolean; detail?: string } {
+  if (pr.closingIssues?.some((ref) => isTargetIssue(ref, target))) {
+    return { passed: true, detail: 'GitHub lists the issue as closed by this PR' };
+  }
+
+  // Without GitHub's references the body is the best estimate
+  if (pr.closingIssues === null || options.bodyFallback) {
+    const refs = findClosingReferences(pr.body, target.owner, target.repo);
+    if (refs.some((ref) => isTargetIssue(ref, target))) {
+      return { passed: true, detail: 'Found a closing keyword in the PR description' };
+    }
+  }
+
+  if (pr.closingIssues && pr.closingIssues.length > 0) {
+    return { passed: false, detail: 'The PR closes other issues, but not this one' };
+  }
+  return { passed: false };
+}
+
+function sameLogin(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function checkAuthor(pr: PullRequestData, claimer: ClaimerIdentity | null): { passed: boolean; detail?: string } {
+  if (!claimer) {
+    return { passed: false, detail: 'The wallet has no linked GitHub account' };
+  }
+  if (!sameLogin(pr.author, claimer.username)) {
+    return { passed: false, detail: `The PR is by @${pr.author}, not @${claimer.username}` };
+  }
+  return { passed: true };
+}
+
+/**
+ * Whether the claimer's gist proves their linked account belongs to their wallet.
+ * Also used to check a gist before it is linked.
+ */
+export function checkIdentityProof(claimer: ClaimerIdentity | null): { passed: boolean; detail?: string } {
+  if (!claimer) {
+    return { passed: false, detail: 'The wallet has no linked GitHub account' };
+  }
+  if (!claimer.gist) {
+    return { passed: false, detail: 'The linked gist no longer exists' };
+  }
+  if (!sameLogin(claimer.gist.owner, claimer.username)) {
+    return { passed: false, detail: `The linked gist belongs to @${claimer.gist.owner}` };
+  }
+  // Addresses may be pasted checksummed
+  if (!claimer.gist.text.toLowerCase().includes(identityProofMessage(claimer.address).toLowerCase())) {
+    return { passed: false, detail: 'The linked gist does not contain the proof message for this wallet' };
+  }
+  return { passed: true };
+}
+
+// The PR's author and every account credited on its commits
+function contributorsOf(pr: PullRequestData): string[] {
+  return [pr.author, ...(pr.commitAuthors ?? [])];
+}
+
+/**
+ * Checks a split claim: every PR must be merged, close the issue and be opened by a
+ * participant, and every participant must prove their wallet and have authored or
+ * co-authored one of the PRs. The claim is paid only if all of them pass.
+ */
+export function verifySplitClaim(
+  prs: Array<{ number: string; data: PullRequestData }>,
+  target: VerificationTarget,
+  participants: ClaimerIdentity[],
+  options: VerificationOptions = DEFAULT_VERIFICATION_OPTIONS
+): SplitVerificationResult {
+  const weights = participants.map(() => 0);
+  for (const pr of prs) {
+    const contributors = contributorsOf(pr.data);
+    const credited = participants
+      .map((participant, i) => (contributors.some((login) => sameLogin(login, participant.username)) ? i : -1))
+      .filter((i) => i >= 0);
+    for (const i of credited) weights[i] += PULL_REQUEST_SHARE / credited.length;
+  }
+
+  const checks: Array<{ passed: boolean; detail?: string }> = [
+    ...prs.flatMap((pr) => [
+      { passed: pr.data.merged },
+      checkLinksIssue(pr.data, target, options),
+      participants.some((p) => sameLogin(p.username, pr.data.author))
+        ? { passed: true }
+        : { passed: false, detail: `The PR is by @${pr.data.author}, who is not a participant` }
+    ]),
+    ...participants.flatMap((participant, i) => [
+      checkIdentityProof(participant),
+      { passed: weights[i] > 0 }
+    ])
+  ];
+
+  const rules = describeSplitRules(
+    target.issueNumber,
+    prs.map((pr) => pr.number),
+    participants.map((p) => p.username)
+  ).map((rule, i) => ({ ...rule, ...checks[i] }));
+
+  const failed = rules.find((rule) => !rule.passed);
+
+  return {
+    passed: !failed,
+    rules,
+    reason: failed ? RULE_REJECTION_REASONS[failed.id] : null,
+    weights
+  };
+}
+
+/**
+ * Checks a claim against every rule. The claim is paid only if all of them pass.
+ */
+export function verifyPullRequest(
+  pr: PullRequestData,
+  target: VerificationTarget,
+  claimer: ClaimerIdentity | null,
+  options: VerificationOptions = DEFAULT_VERIFICATION_OPTIONS
+): VerificationResult {
+  const checks: Record<Exclude<VerificationRuleId, 'contributed'>, { passed: boolean; detail?: string }> = {
+    merged: { passed: pr.merged },
+    linksIssue: checkLinksIssue(pr, target, options),
+    author: checkAuthor(pr, claimer),
+    identityProof: checkIdentityProof(claimer)
+  };
+
+  const rules = describeVerificationRules(target.issueNumber).map((rule) => ({
+    ...rule,
+    ...checks[rule.id]
+  }));
+
+  const failed = rules.find((rule) => !rule.passed);
+
+  return {
+    passed: !failed,
+    rules,
+    reason: failed ? RULE_REJECTION_REASONS[failed.id] : null
+  };
+}
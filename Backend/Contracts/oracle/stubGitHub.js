@@ -0,0 +1,148 @@
+const http = require("http");
+
+// A local stand-in for api.github.com, answering from an in-memory "world":
+//   pullRequests: { "owner/repo#N": GraphQL pullRequest node, or null if it doesn't exist }
+//   issues:       { "owner/repo#N": REST issue }
+//   gists:        { id: REST gist }
+//   githubError:  fail every GraphQL request with this HTTP status
+//   rawGraphQL:   answer every GraphQL request with this body instead
+// It serves what the DON script calls (POST /graphql, GET /gists/{id}) and what the
+// frontend reads (issues, REST pull requests), with CORS so a browser can use it.
+
+const TOKEN = "fixture";
+
+function send(res, status, body) {
+  const isText = typeof body === "string";
+  res.writeHead(status, {
+    "Content-Type": isText ? "text/html" : "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type, If-None-Match",
+    "Access-Control-Expose-Headers": "Link, ETag"
+  });
+  res.end(isText ? body : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+function notFound(alias, number) {
+  return {
+    type: "NOT_FOUND",
+    path: ["repository", alias],
+    message: `Could not resolve to a PullRequest with the number of ${number}.`
+  };
+}
+
+function graphQL(world, { owner, name, number, ...aliases }) {
+  if (world.rawGraphQL !== undefined) return [200, world.rawGraphQL];
+  if (world.githubError) return [world.githubError, { message: "Server Error" }];
+
+  // pullRequestsQuery: one aliased PR per $prN variable
+  if (number === undefined) {
+    const repository = {};
+    const errors = [];
+    for (const [alias, aliasNumber] of Object.entries(aliases)) {
+      repository[alias] = world.pullRequests?.[`${owner}/${name}#${aliasNumber}`] ?? null;
+      if (!repository[alias]) errors.push(notFound(alias, aliasNumber));
+    }
+    return [200, errors.length ? { data: { repository }, errors } : { data: { repository } }];
+  }
+
+  const pullRequest = world.pullRequests?.[`${owner}/${name}#${number}`] ?? null;
+  if (!pullRequest) {
+    return [200, {
+      data: { repository: { pullRequest: null } },
+      errors: [notFound("pullRequest", number)]
+    }];
+  }
+  return [200, { data: { repository: { pullRequest } } }];
+}
+
+/**
+ * The REST shape of a GraphQL pullRequest node, as much of it as the frontend reads
+ */
+function restPullRequest(node, number) {
+  return { number: Number(number), merged: node.merged, body: node.body, user: { login: node.author?.login } };
+}
+
+async function route(world, req) {
+  const url = new URL(req.url, "http://stub");
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (req.method === "POST" && url.pathname === "/graphql") {
+    const { variables } = JSON.parse(await readBody(req));
+    return graphQL(world, variables);
+  }
+  if (req.method !== "GET") return [404, { message: "Not Found" }];
+
+  // /gists/{id}
+  if (parts[0] === "gists" && parts.length === 2) {
+    const gist = world.gists?.[parts[1]];
+    return gist ? [200, gist] : [404, { message: "Not Found" }];
+  }
+
+  // /repos/{owner}/{repo}/{issues|pulls}[/{number}]
+  if (parts[0] === "repos" && parts.length >= 4) {
+    const [, owner, repo, kind, number] = parts;
+    const prefix = `${owner}/${repo}#`;
+
+    if (kind === "issues" && number) {
+      const issue = world.issues?.[prefix + number];
+      return issue ? [200, issue] : [404, { message: "Not Found" }];
+    }
+    if (kind === "issues") {
+      const state = url.searchParams.get("state") || "open";
+      const issues = Object.entries(world.issues ?? {})
+        .filter(([key, issue]) => key.startsWith(prefix) && (state === "all" || issue.state === state))
+        .map(([, issue]) => issue);
+      return [200, issues];
+    }
+    if (kind === "pulls" && number) {
+      const node = world.pullRequests?.[prefix + number];
+      return node ? [200, restPullRequest(node, number)] : [404, { message: "Not Found" }];
+    }
+  }
+
+  return [404, { message: "Not Found" }];
+}
+
+/**
+ * Starts the stub, on a free local port unless one is given. Requests are answered from
+ * the world most recently passed to `use`. With requireToken, requests must carry
+ * `Authorization: Bearer ${TOKEN}`, the secret the DON script is given.
+ */
+async function startStubGitHub({ port = 0, requireToken = false } = {}) {
+  let world = null;
+
+  const server = http.createServer((req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204, "");
+    if (!world) return send(res, 503, { message: "No fixture loaded" });
+    if (requireToken && req.headers.authorization !== `Bearer ${TOKEN}`) {
+      return send(res, 401, { message: "Bad credentials" });
+    }
+    route(world, req)
+      .then(([status, body]) => send(res, status, body))
+      .catch((err) => send(res, 500, { message: err.message }));
+  });
+
+  await new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    use: (next) => {
+      world = next;
+    },
+    close: () => new Promise((resolve) => server.close(resolve))
+  };
+}
+
+module.exports = { startStubGitHub, TOKEN };
@@ -1,52 +1,426 @@
+// GENERATED by oracle/build.js from rules/verification.ts and don.js. Do not edit by hand.
+
+// Verification rules shared by the DON script (bundled by oracle/build.js) and the frontend.
+// This file is inlined into verification.js, so it must not import anything.
+// Why the oracle rejected a claim. The DON returns it and the registry emits it in
+// ClaimRejected, so the numbering must match BountyRegistry.RejectionReason.
+// TimedOut is never returned by the DON; the registry uses it for resetVerification
+var RejectionReason;
+(function (RejectionReason) {
+    RejectionReason[RejectionReason["Unknown"] = 0] = "Unknown";
+    RejectionReason[RejectionReason["NotMerged"] = 1] = "NotMerged";
+    RejectionReason[RejectionReason["IssueNotLinked"] = 2] = "IssueNotLinked";
+    RejectionReason[RejectionReason["PullRequestNotFound"] = 3] = "PullRequestNotFound";
+    RejectionReason[RejectionReason["AuthorMismatch"] = 4] = "AuthorMismatch";
+    RejectionReason[RejectionReason["IdentityNotProven"] = 5] = "IdentityNotProven";
+    RejectionReason[RejectionReason["GitHubApiError"] = 6] = "GitHubApiError";
+    RejectionReason[RejectionReason["ScriptError"] = 7] = "ScriptError";
+    RejectionReason[RejectionReason["TimedOut"] = 8] = "TimedOut";
+})(RejectionReason || (RejectionReason = {}));
+const RULE_REJECTION_REASONS = {
+    merged: RejectionReason.NotMerged,
+    linksIssue: RejectionReason.IssueNotLinked,
+    author: RejectionReason.AuthorMismatch,
+    identityProof: RejectionReason.IdentityNotProven,
+    contributed: RejectionReason.AuthorMismatch
+};
+const REJECTION_MESSAGES = {
+    [RejectionReason.Unknown]: 'The oracle rejected the claim without a reason.',
+    [RejectionReason.NotMerged]: 'The pull request is not merged.',
+    [RejectionReason.IssueNotLinked]: 'The pull request does not close this issue.',
+    [RejectionReason.PullRequestNotFound]: 'The pull request was not found in this repository.',
+    [RejectionReason.AuthorMismatch]: "The pull request was not opened by the claimer's linked GitHub account, or a split participant authored none of the pull requests.",
+    [RejectionReason.IdentityNotProven]: "The claimer's gist no longer proves their GitHub account belongs to their wallet.",
+    [RejectionReason.GitHubApiError]: 'The oracle could not reach GitHub. Nothing is wrong with the claim; try again.',
+    [RejectionReason.ScriptError]: 'The verification script failed. Try again, or contact the maintainers if it keeps happening.',
+    [RejectionReason.TimedOut]: 'The oracle did not answer in time, so the claim was reset. Nothing is wrong with the claim; try again.'
+};
+const DEFAULT_VERIFICATION_OPTIONS = { bodyFallback: false };
+// GitHub's closing keywords (docs: "Linking a pull request to an issue")
+const CLOSING_KEYWORDS = [
+    'close', 'closes', 'closed',
+    'fix', 'fixes', 'fixed',
+    'resolve', 'resolves', 'resolved'
+];
+// A split claim may list this many PRs, all fetched in one query. Keep
+// BountyRegistry.MAX_SPLIT_PULL_REQUESTS in step
+const MAX_SPLIT_PULL_REQUESTS = 10;
+// One PR's verified share in a PER_PULL_REQUEST split, divided evenly among its authors.
+// Divisible by every participant count up to BountyRegistry.MAX_SPLIT_RECIPIENTS (4)
+const PULL_REQUEST_SHARE = 12;
+const PULL_REQUEST_FIELDS = `
+      merged
+      body
+      author {
+        login
+      }
+      closingIssuesReferences(first: 50) {
+        nodes {
+          number
+          repository {
+            name
+            owner {
+              login
+            }
+          }
+        }
+      }`;
+const PULL_REQUEST_QUERY = `
+query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {${PULL_REQUEST_FIELDS}
+    }
+  }
+}`;
+/**
+ * Fetches `count` PRs at once, aliased pr0, pr1, ... and numbered by the variables of the
+ * same names. Also reads commit authors, so co-authors count as contributors.
+ */
+function pullRequestsQuery(count) {
+    const indexes = Array.from({ length: count }, (_, i) => i);
+    const variables = indexes.map((i) => `, $pr${i}: Int!`).join('');
+    const fields = indexes.map((i) => `
+    pr${i}: pullRequest(number: $pr${i}) {${PULL_REQUEST_FIELDS}
+      commits(first: 100) {
+        nodes {
+          commit {
+            authors(first: 10) {
+              nodes {
+                user {
+                  login
+                }
+              }
+            }
+          }
+        }
+      }
+    }`).join('');
+    return `
+query($owner: String!, $name: String!${variables}) {
+  repository(owner: $owner, name: $name) {${fields}
+  }
+}`;
+}
+/**
+ * Reads PULL_REQUEST_QUERY's pullRequest node, or returns null when the PR doesn't exist
+ */
+function parsePullRequest(node) {
+    if (!node)
+        return null;
+    return {
+        merged: node.merged === true,
+        body: node.body ?? null,
+        author: node.author?.login ?? '',
+        closingIssues: (node.closingIssuesReferences?.nodes ?? []).map((issue) => ({
+            owner: issue.repository.owner.login,
+            repo: issue.repository.name,
+            number: issue.number
+        })),
+        // Authors GitHub couldn't match to an account have no user
+        commitAuthors: node.commits
+            ? node.commits.nodes.flatMap((commit) => commit.commit.authors.nodes
+                .map((author) => author.user?.login)
+                .filter((login) => !!login))
+            : null
+    };
+}
+/**
+ * Whether a claimed PR number is one GitHub can look up: digits without a leading zero,
+ * within GraphQL's 32-bit Int. BountyRegistry.claimBounty applies the same check
+ */
+function isPullRequestNumber(value) {
+    return /^[1-9]\d{0,8}$/.test(value);
+}
+/**
+ * Reads a split claim's PR list ("12, 15"), or returns null unless it names between one
+ * and MAX_SPLIT_PULL_REQUESTS distinct PRs
+ */
+function parsePullRequestNumbers(input) {
+    const numbers = input.split(',').map((part) => part.trim());
+    if (!numbers.every(isPullRequestNumber))
+        return null;
+    const unique = Array.from(new Set(numbers));
+    return unique.length <= MAX_SPLIT_PULL_REQUESTS ? unique : null;
+}
+/**
+ * What is wrong with a claim's PR input, or null when claimBounty will accept it: one PR
+ * number, or for a split claim a comma separated list of them
+ */
+function describePullRequestInputError(input, split) {
+    if (split) {
+        return parsePullRequestNumbers(input)
+            ? null
+            : `Enter up to ${MAX_SPLIT_PULL_REQUESTS} PR numbers separated by commas.`;
+    }
+    return isPullRequestNumber(input) ? null : 'Enter the PR number only, e.g. 42.';
+}
+/**
+ * Reads a REST /gists/{id} response, or returns null when the gist doesn't exist
+ */
+function parseGist(json) {
+    if (!json?.owner)
+        return null;
+    return {
+        owner: json.owner.login,
+        text: Object.values(json.files ?? {}).map((file) => file?.content ?? '').join('\n')
+    };
+}
+/**
+ * The text a GitHub account publishes in a gist to prove it belongs to a wallet
+ */
+function identityProofMessage(address) {
+    return `MergeMint identity proof: ${address.toLowerCase()}`;
+}
+function isTargetIssue(ref, target) {
+    return ref.owner.toLowerCase() === target.owner.toLowerCase()
+        && ref.repo.toLowerCase() === target.repo.toLowerCase()
+        && String(ref.number) === target.issueNumber;
+}
+/**
+ * Drops fenced code blocks and inline code, where GitHub ignores closing keywords too
+ */
+function stripCode(body) {
+    return body
+        .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(^\1[^\S\n]*$|(?![\s\S]))/gm, '')
+        .replace(/`[^`\n]*`/g, '');
+}
+/**
+ * Issues a PR body closes with a keyword: "Fixes #1", "closes owner/repo#1" or
+ * "Resolved: https://github.com/owner/repo/issues/1". Bare "#1" is relative to the PR's repo.
+ */
+function findClosingReferences(body, owner, repo) {
+    const reference = [
+        'https?://github\\.com/([\\w.-]+)/([\\w.-]+)/issues/(\\d+)',
+        '([\\w.-]+)/([\\w.-]+)#(\\d+)',
+        '#(\\d+)'
+    ].join('|');
+    const regex = new RegExp(`\\b(?:${CLOSING_KEYWORDS.join('|')}):?\\s+(?:${reference})(?![\\w/])`, 'gi');
+    const refs = [];
+    for (const match of stripCode(body || '').matchAll(regex)) {
+        if (match[3]) {
+            refs.push({ owner: match[1], repo: match[2], number: Number(match[3]) });
+        }
+        else if (match[6]) {
+            refs.push({ owner: match[4], repo: match[5], number: Number(match[6]) });
+        }
+        else {
+            refs.push({ owner, repo, number: Number(match[7]) });
+        }
+    }
+    return refs;
+}
+/**
+ * Explains a ClaimRejected reason code, including codes this build doesn't know
+ */
+function describeRejectionReason(reason) {
+    return REJECTION_MESSAGES[reason] ?? REJECTION_MESSAGES[RejectionReason.Unknown];
+}
+/**
+ * Rules a single-PR claim must pass, described for the given issue
+ * ('contributed' only applies to split claims)
+ */
+function describeVerificationRules(issueNumber) {
+    return [
+        { id: 'merged', description: 'The PR is merged' },
+        { id: 'linksIssue', description: `The PR closes issue #${issueNumber} (e.g. "Closes #${issueNumber}")` },
+        { id: 'author', description: 'The PR was opened by the GitHub account linked to the claiming wallet' },
+        { id: 'identityProof', description: "The linked account's gist proves it belongs to the claiming wallet" }
+    ];
+}
+/**
+ * Rules a split claim must pass: each PR's, then each participant's
+ */
+function describeSplitRules(issueNumber, prNumbers, usernames) {
+    return [
+        ...prNumbers.flatMap((n) => [
+            { id: 'merged', description: `PR #${n} is merged` },
+            { id: 'linksIssue', description: `PR #${n} closes issue #${issueNumber}` },
+            { id: 'author', description: `PR #${n} was opened by one of the participants` }
+        ]),
+        ...usernames.flatMap((username) => [
+            { id: 'identityProof', description: `@${username}'s gist proves their wallet` },
+            { id: 'contributed', description: `@${username} authored or co-authored one of the PRs` }
+        ])
+    ];
+}
+function checkLinksIssue(pr, target, options) {
+    if (pr.closingIssues?.some((ref) => isTargetIssue(ref, target))) {
+        return { passed: true, detail: 'GitHub lists the issue as closed by this PR' };
+    }
+    // Without GitHub's references the body is the best estimate
+    if (pr.closingIssues === null || options.bodyFallback) {
+        const refs = findClosingReferences(pr.body, target.owner, target.repo);
+        if (refs.some((ref) => isTargetIssue(ref, target))) {
+            return { passed: true, detail: 'Found a closing keyword in the PR description' };
+        }
+    }
+    if (pr.closingIssues && pr.closingIssues.length > 0) {
+        return { passed: false, detail: 'The PR closes other issues, but not this one' };
+    }
+    return { passed: false };
+}
+function sameLogin(a, b) {
+    return a.toLowerCase() === b.toLowerCase();
+}
+function checkAuthor(pr, claimer) {
+    if (!claimer) {
+        return { passed: false, detail: 'The wallet has no linked GitHub account' };
+    }
+    if (!sameLogin(pr.author, claimer.username)) {
+        return { passed: false, detail: `The PR is by @${pr.author}, not @${claimer.username}` };
+    }
+    return { passed: true };
+}
+/**
+ * Whether the claimer's gist proves their linked account belongs to their wallet.
+ * Also used to check a gist before it is linked.
+ */
+function checkIdentityProof(claimer) {
+    if (!claimer) {
+        return { passed: false, detail: 'The wallet has no linked GitHub account' };
+    }
+    if (!claimer.gist) {
+        return { passed: false, detail: 'The linked gist no longer exists' };
+    }
+    if (!sameLogin(claimer.gist.owner, claimer.username)) {
+        return { passed: false, detail: `The linked gist belongs to @${claimer.gist.owner}` };
+    }
+    // Addresses may be pasted checksummed
+    if (!claimer.gist.text.toLowerCase().includes(identityProofMessage(claimer.address).toLowerCase())) {
+        return { passed: false, detail: 'The linked gist does not contain the proof message for this wallet' };
+    }
+    return { passed: true };
+}
+// The PR's author and every account credited on its commits
+function contributorsOf(pr) {
+    return [pr.author, ...(pr.commitAuthors ?? [])];
+}
+/**
+ * Checks a split claim: every PR must be merged, close the issue and be opened by a
+ * participant, and every participant must prove their wallet and have authored or
+ * co-authored one of the PRs. The claim is paid only if all of them pass.
+ */
+function verifySplitClaim(prs, target, participants, options = DEFAULT_VERIFICATION_OPTIONS) {
+    const weights = participants.map(() => 0);
+    for (const pr of prs) {
+        const contributors = contributorsOf(pr.data);
+        const credited = participants
+            .map((participant, i) => (contributors.some((login) => sameLogin(login, participant.username)) ? i : -1))
+            .filter((i) => i >= 0);
+        for (const i of credited)
+            weights[i] += PULL_REQUEST_SHARE / credited.length;
+    }
+    const checks = [
+        ...prs.flatMap((pr) => [
+            { passed: pr.data.merged },
+            checkLinksIssue(pr.data, target, options),
+            participants.some((p) => sameLogin(p.username, pr.data.author))
+                ? { passed: true }
+                : { passed: false, detail: `The PR is by @${pr.data.author}, who is not a participant` }
+        ]),
+        ...participants.flatMap((participant, i) => [
+            checkIdentityProof(participant),
+            { passed: weights[i] > 0 }
+        ])
+    ];
+    const rules = describeSplitRules(target.issueNumber, prs.map((pr) => pr.number), participants.map((p) => p.username)).map((rule, i) => ({ ...rule, ...checks[i] }));
+    const failed = rules.find((rule) => !rule.passed);
+    return {
+        passed: !failed,
+        rules,
+        reason: failed ? RULE_REJECTION_REASONS[failed.id] : null,
+        weights
+    };
+}
+/**
+ * Checks a claim against every rule. The claim is paid only if all of them pass.
+ */
+function verifyPullRequest(pr, target, claimer, options = DEFAULT_VERIFICATION_OPTIONS) {
+    const checks = {
+        merged: { passed: pr.merged },
+        linksIssue: checkLinksIssue(pr, target, options),
+        author: checkAuthor(pr, claimer),
+        identityProof: checkIdentityProof(claimer)
+    };
+    const rules = describeVerificationRules(target.issueNumber).map((rule) => ({
+        ...rule,
+        ...checks[rule.id]
+    }));
+    const failed = rules.find((rule) => !rule.passed);
+    return {
+        passed: !failed,
+        rules,
+        reason: failed ? RULE_REJECTION_REASONS[failed.id] : null
+    };
+}
+
+const VERIFICATION_OPTIONS = {"bodyFallback":false};
+const GITHUB_API_URL = "https://api.github.com";
+
 // This script runs on the Chainlink Decentralized Oracle Network (DON)
+// Run `npm run build:oracle` after editing; it bundles this file with rules/ into verification.js
 // Inputs: 
 // args[0]: Repository Owner (e.g., "vihaan1016")
 // args[1]: Repository Name (e.g., "MergeMint")
 // args[2]: PR Number (e.g., "42")
 // args[3]: Issue ID to check against (e.g., "101")
+// args[4]: Claimer wallet address (e.g., "0xabc...")
+// args[5]: GitHub username linked to the claimer on chain
+// args[6]: ID of the gist holding the claimer's identity proof
+// For a bounty with a payout split, args[2] lists the PR numbers comma separated, and:
+// args[7]: Split mode ("fixed" or "perPullRequest")
+// args[8...]: Each recipient's wallet address, linked GitHub username and gist ID, in registry order
 
 // Checking if the number of argunents is correct
-if (!args || args.length < 4) {
+if (!args || args.length < 7) {
   throw new Error("Missing required arguments");
 }
 const owner = args[0];
 const repo = args[1];
 const prNumber = parseInt(args[2]);
 const targetIssueId = args[3];
+const claimerAddress = args[4];
+const linkedUsername = args[5];
+const gistId = args[6];
 
-// Define the GraphQL Query
-// Fetching only nnecerssary fields for verification
-const query = `
-query($owner: String!, $name: String!, $number: Int!) {
-  repository(owner: $owner, name: $name) {
-    pullRequest(number: $number) {
-      merged
-      mergedAt
-      body
-      author {
-        login
-      }
-    }
-  }
-}`;
+if (args.length > 7) {
+  return await verifySplit();
+}
+
+// GitHub would reject an unreadable number as a bad variable, which reads as its own failure
+if (!isPullRequestNumber(args[2])) {
+  return encodeAbi(false, "", RejectionReason.PullRequestNotFound);
+}
+
+// The GraphQL query (PULL_REQUEST_QUERY) comes from rules/verification.ts
+// VERIFICATION_OPTIONS (ORACLE_BODY_FALLBACK) and GITHUB_API_URL are set by build.js
+
+// Output: ABI encoded (bool verified, string author, uint8 reason), where reason is a
+// RejectionReason (0 when verified). Failures GitHub is responsible for are returned
+// with a reason rather than thrown, since a thrown error only reaches the chain as SCRIPT_ERROR
 
 // 2. Make the Request
 // Using the globally available Functions object
 const response = await Functions.makeHttpRequest({
-  url: "https://api.github.com/graphql",
+  url: `${GITHUB_API_URL}/graphql`,
   method: "POST",
   headers: {
     "Authorization": `Bearer ${secrets.githubToken}`,
     "Content-Type": "application/json"
   },
   data: {
-    query: query,
+    query: PULL_REQUEST_QUERY,
     variables: { owner, name: repo, number: prNumber }
   }
 });
 
-if (response.error) {
-  throw Error(`GitHub API Request Failed: ${JSON.stringify(response)}`);
+// Anything but a GraphQL body (e.g. an HTML error page), or errors other than a missing PR,
+// says nothing about the claim
+const body = response.data;
+const malformed = !body || typeof body !== "object" || !("data" in body);
+if (response.error || malformed || body.errors?.some((e) => e.type !== "NOT_FOUND")) {
+  console.log(`GitHub API Request Failed: ${JSON.stringify(response)}`);
+  return encodeAbi(false, "", RejectionReason.GitHubApiError);
 }
 
 // Sample Response Structure:
@@ -65,44 +439,158 @@ if (response.error) {
 //           "merged": true,
 //           "author": {
 //             "login": "bountyHunter69"
+//           },
+//           "closingIssuesReferences": {
+//             "nodes": [{ "number": 10, "repository": { "name": "MergeMint", "owner": { "login": "vihaan1016" } } }]
 //           }
 //         }
 //       }
 //     }
 //   }
 // }
-const prData = response.data.data.repository.pullRequest;
+const prData = parsePullRequest(body.data?.repository?.pullRequest);
 
 if (!prData) {
-  throw Error("Pull Request not found");
+  console.log("Pull Request not found");
+  return encodeAbi(false, "", RejectionReason.PullRequestNotFound);
 }
 
-// Verification Logic 
+// 3. Fetch the gist that proves the linked account belongs to the claimer
+const gistResponse = await Functions.makeHttpRequest({
+  url: `${GITHUB_API_URL}/gists/${encodeURIComponent(gistId)}`,
+  headers: {
+    "Authorization": `Bearer ${secrets.githubToken}`,
+    "Accept": "application/vnd.github+json"
+  }
+});
 
-// Check 1: Is it actually merged?
-const isMerged = prData.merged;
+// A deleted gist (404) fails the identity rule rather than the whole request
+if (gistResponse.error && gistResponse.response?.status !== 404) {
+  console.log(`GitHub Gist Request Failed: ${JSON.stringify(gistResponse)}`);
+  return encodeAbi(false, prData.author, RejectionReason.GitHubApiError);
+}
 
-// Check 2: Regex Validation for "Closes #101"
-const bodyText = prData.body || "";
-const regex = new RegExp(`(closes|fixes|resolves)\\s+#${targetIssueId}`, "i");
-const isValidLink = regex.test(bodyText);
+const claimer = {
+  address: claimerAddress,
+  username: linkedUsername,
+  gist: gistResponse.error ? null : parseGist(gistResponse.data)
+};
 
-// 4. Construct Result
-const verificationPassed = isMerged && isValidLink;
-const author = prData.author.login;
+// Verification Logic (rules/verification.ts, inlined by build.js)
+const result = verifyPullRequest(
+  prData,
+  { owner, repo, issueNumber: targetIssueId },
+  claimer,
+  VERIFICATION_OPTIONS
+);
+const verificationPassed = result.passed;
+const author = prData.author;
 
-console.log(`Verification: ${verificationPassed} (Merged: ${isMerged}, Linked: ${isValidLink})`);
+const ruleSummary = result.rules.map((rule) => `${rule.id}: ${rule.passed}`).join(", ");
+console.log(`Verification: ${verificationPassed} (${ruleSummary})`);
 console.log(`Author: ${author}`);
 
+return encodeAbi(verificationPassed, author, result.reason ?? 0);
+
+// A split claim: every PR and every recipient is checked, and the answer carries each
+// recipient's weight. One GraphQL request for the PRs plus one per gist stays within
+// the DON's HTTP request limit at BountyRegistry.MAX_SPLIT_RECIPIENTS
+async function verifySplit() {
+  const mode = args[7];
+  if ((mode !== "fixed" && mode !== "perPullRequest") || (args.length - 8) % 3 !== 0) {
+    throw new Error("Malformed split arguments");
+  }
+
+  const recipients = [];
+  for (let i = 8; i < args.length; i += 3) {
+    recipients.push({ address: args[i], username: args[i + 1], gistId: args[i + 2] });
+  }
+  const noWeights = recipients.map(() => 0);
+
+  // The PR list is the claimer's input, so an unreadable one is their fault
+  const prNumbers = parsePullRequestNumbers(args[2]);
+  if (!prNumbers) {
+    return encodeSplitResponse(false, RejectionReason.PullRequestNotFound, noWeights);
+  }
+
+  const prResponse = await Functions.makeHttpRequest({
+    url: `${GITHUB_API_URL}/graphql`,
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${secrets.githubToken}`,
+      "Content-Type": "application/json"
+    },
+    data: {
+      query: pullRequestsQuery(prNumbers.length),
+      variables: Object.fromEntries([
+        ["owner", owner],
+        ["name", repo],
+        ...prNumbers.map((n, i) => [`pr${i}`, parseInt(n)])
+      ])
+    }
+  });
+
+  const prBody = prResponse.data;
+  const prMalformed = !prBody || typeof prBody !== "object" || !("data" in prBody);
+  if (prResponse.error || prMalformed || prBody.errors?.some((e) => e.type !== "NOT_FOUND")) {
+    console.log(`GitHub API Request Failed: ${JSON.stringify(prResponse)}`);
+    return encodeSplitResponse(false, RejectionReason.GitHubApiError, noWeights);
+  }
+
+  const prs = prNumbers.map((n, i) => ({ number: n, data: parsePullRequest(prBody.data?.repository?.[`pr${i}`]) }));
+  const missing = prs.find((pr) => !pr.data);
+  if (missing) {
+    console.log(`Pull Request #${missing.number} not found`);
+    return encodeSplitResponse(false, RejectionReason.PullRequestNotFound, noWeights);
+  }
+
+  const participants = [];
+  for (const recipient of recipients) {
+    const response = await Functions.makeHttpRequest({
+      url: `${GITHUB_API_URL}/gists/${encodeURIComponent(recipient.gistId)}`,
+      headers: {
+        "Authorization": `Bearer ${secrets.githubToken}`,
+        "Accept": "application/vnd.github+json"
+      }
+    });
+    if (response.error && response.response?.status !== 404) {
+      console.log(`GitHub Gist Request Failed: ${JSON.stringify(response)}`);
+      return encodeSplitResponse(false, RejectionReason.GitHubApiError, noWeights);
+    }
+    participants.push({
+      address: recipient.address,
+      username: recipient.username,
+      gist: response.error ? null : parseGist(response.data)
+    });
+  }
+
+  const result = verifySplitClaim(prs, { owner, repo, issueNumber: targetIssueId }, participants, VERIFICATION_OPTIONS);
+
+  const ruleSummary = result.rules.filter((rule) => !rule.passed).map((rule) => rule.description).join(", ");
+  console.log(`Split verification: ${result.passed}${ruleSummary ? ` (failed: ${ruleSummary})` : ""}`);
+  console.log(`Weights: ${result.weights.join(", ")}`);
+
+  return encodeSplitResponse(result.passed, result.reason ?? 0, result.weights);
+}
+
+// Packed rather than ABI encoded, since a DON response may be at most 256 bytes:
+// verified, reason, then each recipient's weight, one byte apiece (a weight is at most
+// MAX_SPLIT_PULL_REQUESTS * PULL_REQUEST_SHARE = 120). The registry has the usernames
+function encodeSplitResponse(verified, reason, weights) {
+  return new Uint8Array([verified ? 1 : 0, reason & 0xff, ...weights]);
+}
+
 // Manual ABI Encoding (Gas Efficient & No external dependencies)
-// We need to return ABI encoded: (bool, string)
+// We need to return ABI encoded: (bool, string, uint8)
 // Layout:
 // - Bool (32 bytes)
-// - Offset to String (32 bytes) -> always 64 (0x40) for this specific tuple
+// - Offset to String (32 bytes) -> always 96 (0x60) for this specific tuple
+// - Uint8 (32 bytes)
 // - String Length (32 bytes)
 // - String Data (padded to 32 byte chunks)
+// Function declarations are hoisted, so the early returns above can use it
 
-function encodeAbi(boolValue, stringValue) {
+function encodeAbi(boolValue, stringValue, reason) {
   // A. Encode Bool
   const boolBuf = new Uint8Array(32);
   boolBuf[31] = boolValue ? 1 : 0;
@@ -125,22 +613,24 @@ function encodeAbi(boolValue, stringValue) {
   const strBuf = new Uint8Array(paddedLen);
   strBuf.set(stringBytes);
 
-  // C. Encode Offset (uint256) -> 64 bytes
-  // Why 64? Because the "Head" is Bool(32) + Offset(32) = 64
+  // C. Encode Offset (uint256) -> 96 bytes
+  // Why 96? Because the "Head" is Bool(32) + Offset(32) + Uint8(32) = 96
   const offsetBuf = new Uint8Array(32);
-  offsetBuf[31] = 64; 
+  offsetBuf[31] = 96;
+
+  // D. Encode Reason (uint8, left padded like any uint)
+  const reasonBuf = new Uint8Array(32);
+  reasonBuf[31] = reason & 0xff;
 
-  // D. Combine All
-  const totalLen = 32 + 32 + 32 + paddedLen;
+  // E. Combine All
+  const totalLen = 32 + 32 + 32 + 32 + paddedLen;
   const result = new Uint8Array(totalLen);
   
   result.set(boolBuf, 0);       // 0-31: Bool
   result.set(offsetBuf, 32);    // 32-63: Offset
-  result.set(lenBuf, 64);       // 64-95: String Length
-  result.set(strBuf, 96);       // 96-End: String Data
+  result.set(reasonBuf, 64);    // 64-95: Reason
+  result.set(lenBuf, 96);       // 96-127: String Length
+  result.set(strBuf, 128);      // 128-End: String Data
   
   return result;
-}
-
-const encoded = encodeAbi(verificationPassed, author);
-return encoded;
\ No newline at end of file
+}
\ No newline at end of file
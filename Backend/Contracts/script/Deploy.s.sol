@@ -4,6 +4,8 @@ pragma solidity ^0.8.20;
 import "forge-std/Script.sol";
 import "../src/Oracle.sol";
 import "../src/BountyRegistry.sol";
+import "../src/mocks/MockOracle.sol";
+import "../src/mocks/MockUSDC.sol";
 
 contract DeployContracts is Script {
     function run() external {
@@ -41,6 +43,17 @@ contract DeployContracts is Script {
         oracle.updateBountyRegistry(address(registry));
         console.log("Oracle updated with BountyRegistry address");
 
+        // Allow funding with Sepolia USDC
+        address usdc = vm.envOr("USDC_ADDRESS", address(0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238));
+        registry.setTokenAllowed(usdc, true);
+        console.log("Allowed bounty token:", usdc);
+
+        // Bonds forfeited by rejected claims go to whoever pays for the Chainlink subscription
+        uint256 claimBond = vm.envOr("CLAIM_BOND", uint256(0.001 ether));
+        address subscriptionFunder = vm.envOr("SUBSCRIPTION_FUNDER", vm.addr(deployerPrivateKey));
+        registry.setClaimBond(claimBond, subscriptionFunder);
+        console.log("Claim bond (wei):", claimBond);
+
         // Log final addresses
         console.log("\n=== Deployment Complete ===");
         console.log("Oracle:", address(oracle));
@@ -144,4 +157,64 @@ contract UpdateDONSecrets is Script {
 
         vm.stopBroadcast();
     }
-}
\ No newline at end of file
+}
+
+contract SetTokenAllowed is Script {
+    function run() external {
+        // Add or remove a token from the BountyRegistry funding allowlist
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+        address registryAddress = vm.envAddress("BOUNTY_REGISTRY_ADDRESS");
+        address token = vm.envAddress("TOKEN_ADDRESS");
+        bool allowed = vm.envOr("TOKEN_ALLOWED", true);
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        BountyRegistry registry = BountyRegistry(registryAddress);
+        registry.setTokenAllowed(token, allowed);
+
+        console.log("BountyRegistry at", registryAddress);
+        console.log("Token", token, allowed ? "allowed" : "removed");
+
+        vm.stopBroadcast();
+    }
+}
+
+contract DeployLocal is Script {
+    // Anvil's first default account. On a fresh chain its nonces 0-2 put MockUSDC,
+    // MockOracle and BountyRegistry at the addresses frontend/src/lib/contracts/addresses.ts expects
+    uint256 constant ANVIL_DEPLOYER_KEY = 0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80;
+
+    // Anvil's next default accounts, funded for demos
+    address[3] DEMO_ACCOUNTS = [
+        0x70997970C51812dc3A010C7d01b50e0d17dc79C8,
+        0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC,
+        0x90F79bf6EB2c4f870365E785982E1f101E93b906
+    ];
+
+    function run() external {
+        // Deliberately not PRIVATE_KEY, which .env may set for Sepolia
+        uint256 deployerPrivateKey = vm.envOr("DEVNET_PRIVATE_KEY", ANVIL_DEPLOYER_KEY);
+        address fulfiller = vm.envOr("DEVNET_FULFILLER_ADDRESS", vm.addr(deployerPrivateKey));
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        MockUSDC usdc = new MockUSDC();
+        MockOracle oracle = new MockOracle(address(0), fulfiller);
+        BountyRegistry registry = new BountyRegistry(address(oracle));
+        oracle.updateBountyRegistry(address(registry));
+        registry.setTokenAllowed(address(usdc), true);
+        registry.setClaimBond(0.001 ether, vm.addr(deployerPrivateKey));
+
+        for (uint256 i = 0; i < DEMO_ACCOUNTS.length; i++) {
+            usdc.mint(DEMO_ACCOUNTS[i], 10000 * 10**usdc.decimals());
+        }
+
+        vm.stopBroadcast();
+
+        console.log("\n=== Local Deployment Complete ===");
+        console.log("MockUSDC:", address(usdc));
+        console.log("MockOracle:", address(oracle));
+        console.log("BountyRegistry:", address(registry));
+        console.log("Fulfiller:", fulfiller);
+    }
+}
@@ -0,0 +1,60 @@
+const fs = require("fs");
+const path = require("path");
+
+// The frontend's copy of the registry ABI, taken from the forge build so it can't
+// drift from the contract. Run `forge build` first (npm run export:abi does both);
+// --check writes nothing and fails if the copy is out of date (npm run check:abi, part of test:all)
+const ARTIFACT = path.resolve(__dirname, "../out/BountyRegistry.sol/BountyRegistry.json");
+const OUTPUT = path.resolve(__dirname, "../../../frontend/src/lib/contracts/bountyRegistryAbi.ts");
+
+// Parameters on one line each, as in the hand-written ABIs; tuples spell out their components
+function formatParam(param, indent) {
+  const fields = Object.entries(param).map(([key, value]) =>
+    `${JSON.stringify(key)}: ${key === "components" ? formatParams(value, indent) : JSON.stringify(value)}`);
+  return `{ ${fields.join(", ")} }`;
+}
+
+function formatParams(params, indent) {
+  if (params.length === 0) return "[]";
+  const inner = indent + "  ";
+  return `[\n${params.map((p) => inner + formatParam(p, inner)).join(",\n")}\n${indent}]`;
+}
+
+function formatEntry(entry) {
+  if (entry.type === "error" && entry.inputs.length === 0) {
+    return `  { "inputs": [], "name": ${JSON.stringify(entry.name)}, "type": "error" }`;
+  }
+  const fields = Object.entries(entry).map(([key, value]) =>
+    `    ${JSON.stringify(key)}: ${Array.isArray(value) ? formatParams(value, "    ") : JSON.stringify(value)}`);
+  return `  {\n${fields.join(",\n")}\n  }`;
+}
+
+function exportAbi() {
+  if (!fs.existsSync(ARTIFACT)) {
+    throw new Error(`${path.relative(process.cwd(), ARTIFACT)} is missing; run forge build first`);
+  }
+  const { abi } = JSON.parse(fs.readFileSync(ARTIFACT, "utf8"));
+  const source = [
+    "// GENERATED by Backend/Contracts/script/exportAbi.js from the forge build of BountyRegistry.sol. Do not edit by hand.",
+    "",
+    "export const BountyRegistryABI = [",
+    abi.map(formatEntry).join(",\n"),
+    "] as const;",
+    ""
+  ].join("\n");
+
+  const output = path.relative(process.cwd(), OUTPUT);
+  if (process.argv.includes("--check")) {
+    if (!fs.existsSync(OUTPUT) || fs.readFileSync(OUTPUT, "utf8") !== source) {
+      console.error(`${output} doesn't match the contract; run npm run export:abi`);
+      process.exit(1);
+    }
+    console.log(`${output} is up to date`);
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT, source);
+  console.log(`Wrote ${output}`);
+}
+
+exportAbi();
@@ -3,6 +3,7 @@ pragma solidity ^0.8.20;
 
 // --Imports--
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
@@ -15,6 +16,15 @@ interface IOracle {
         uint8 slotId,
         uint64 version
     ) external returns (bytes32 requestId);
+
+    // Same as verifyContribution, for a bounty with an approved payout split
+    function verifySplitContribution(
+        bytes32 bountyID,
+        address claimer,
+        string[] calldata args,
+        uint8 slotId,
+        uint64 version
+    ) external returns (bytes32 requestId);
 }
 
 abstract contract CustomReentrancyGuard {
@@ -43,6 +53,21 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         REFUNDED
     }
 
+    // Why the oracle rejected a claim. The DON script returns the code
+    // (RejectionReason in oracle/rules/verification.ts), so keep the order in sync.
+    // TIMED_OUT is the registry's own, for a claim reset by resetVerification
+    enum RejectionReason {
+        UNKNOWN,
+        NOT_MERGED,
+        ISSUE_NOT_LINKED,
+        PR_NOT_FOUND,
+        AUTHOR_MISMATCH,
+        IDENTITY_NOT_PROVEN,
+        GITHUB_API_ERROR,
+        SCRIPT_ERROR,
+        TIMED_OUT
+    }
+
     // Special struct that each bounty must have and easy to track
     struct Bounty {
         address issuer;
@@ -52,10 +77,45 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         uint256 creationTime;
         string prClaimer;
         bytes32 activeRequestID;
+        uint256 deadline;
     }
 
-    // Minimum time for refund
-    uint256 REFUND_TIMELOCK = 180 days;
+    // How the issuer wants the payout divided. NONE pays the whole amount to the claimer
+    enum SplitMode {
+        NONE,
+        FIXED,
+        PER_PULL_REQUEST
+    }
+
+    // FIXED pays each recipient their share in basis points. PER_PULL_REQUEST pays by the
+    // weights the oracle returns: one share per verified PR, divided among its authors
+    struct PayoutSplit {
+        SplitMode mode;
+        address[] recipients;
+        uint16[] shares;
+    }
+
+    // How far from creation an issuer may set a bounty's deadline, after which it can be refunded
+    uint256 public minBountyDuration = 7 days;
+    uint256 public maxBountyDuration = 365 days;
+
+    // How long a claim may wait on the oracle before anyone can reopen the bounty
+    uint256 public verificationTimeout = 1 hours;
+
+    // Native currency a claimer posts with each claim. It comes back when the claim pays
+    // out or fails for reasons that aren't the claimer's fault, and goes to whoever funds
+    // the Chainlink subscription when the oracle rejects it
+    uint256 public claimBond;
+    address public subscriptionFunder;
+    // How long an address must wait to claim again after its claim was rejected
+    uint256 public claimCooldown = 1 days;
+
+    // The DON script fetches every recipient's gist on top of the PRs, and a
+    // Functions request may make at most 5 HTTP calls
+    uint256 public constant MAX_SPLIT_RECIPIENTS = 4;
+    uint16 public constant TOTAL_SPLIT_SHARES = 10_000;
+    // The DON script fetches a split claim's PRs in one query and rejects longer lists
+    uint256 public constant MAX_SPLIT_PULL_REQUESTS = 10;
 
     // Secrets
     uint8 public secretsSlotID;
@@ -64,6 +124,43 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
     // mapping uinque bounty ids to their respective bounty structs
     mapping(bytes32 => Bounty) public bounties;
 
+    // What each funder has put into a bounty, the issuer included. A bounty's amount
+    // is the sum of its contributions, so a contribution is also that funder's refund
+    mapping(bytes32 => mapping(address => uint256)) public contributions;
+    // Funders besides the issuer, in order of first contribution
+    mapping(bytes32 => address[]) private backers;
+    // Funders who already took their refund
+    mapping(bytes32 => mapping(address => bool)) public refundClaimed;
+
+    // When the pending claim on a VERIFYING bounty was submitted
+    mapping(bytes32 => uint256) public verificationStartedAt;
+
+    // The bond held for the pending claim on a VERIFYING bounty
+    struct ClaimBond {
+        address claimer;
+        uint96 amount;
+    }
+    mapping(bytes32 => ClaimBond) public claimBonds;
+    // When each address may claim again after a rejection
+    mapping(address => uint256) public claimCooldownUntil;
+    // Bonds that couldn't be sent during a callback, left for their owner to withdraw
+    mapping(address => uint256) public unclaimedBonds;
+
+    // GitHub account each wallet claims as. The gist must contain the wallet's
+    // proof message; the oracle checks it and the PR author on every claim
+    struct GitHubIdentity {
+        string username;
+        string gistId;
+    }
+    mapping(address => GitHubIdentity) public githubIdentities;
+
+    // Payout splits approved by issuers
+    mapping(bytes32 => PayoutSplit) private payoutSplits;
+
+    // Tokens bounties may be funded with, managed by the owner
+    mapping(address => bool) public isTokenAllowed;
+    address[] private allowedTokens;
+
     // -- Events --
     event BountyCreated(
         bytes32 indexed bountyID,
@@ -72,7 +169,14 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         string issueNumber,
         address indexed issuer,
         address token,
-        uint256 amount
+        uint256 amount,
+        uint256 deadline
+    );
+    event BountyContributed(
+        bytes32 indexed bountyID,
+        address indexed funder,
+        uint256 amount,
+        uint256 totalAmount
     );
     event ClaimSubmitted(
         bytes32 indexed bountyID,
@@ -81,6 +185,11 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         string prNumber
     );
     event BountyStatusChanged(bytes32 indexed bountyID, BountyStatus newStatus);
+    event ClaimRejected(
+        bytes32 indexed bountyID,
+        bytes32 indexed requestID,
+        RejectionReason reason
+    );
     event BountyPaid(
         bytes32 indexed bountyID,
         address indexed claimer,
@@ -89,9 +198,24 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
     );
     event FundsRefunded(
         bytes32 indexed bountyID,
-        address indexed issuer,
+        address indexed funder,
         uint256 amount
     );
+    event PayoutSplitApproved(
+        bytes32 indexed bountyID,
+        SplitMode mode,
+        address[] recipients,
+        uint16[] shares
+    );
+    event TokenAllowlistUpdated(address indexed token, bool allowed);
+    event BountyDurationBoundsUpdated(uint256 minDuration, uint256 maxDuration);
+    event VerificationTimeoutUpdated(uint256 timeout);
+    event ClaimBondUpdated(uint256 bond, address subscriptionFunder);
+    event ClaimCooldownUpdated(uint256 cooldown);
+    event ClaimBondReturned(bytes32 indexed bountyID, address indexed claimer, uint256 amount);
+    event ClaimBondForfeited(bytes32 indexed bountyID, address indexed claimer, uint256 amount);
+    event GitHubLinked(address indexed account, string username, string gistId);
+    event GitHubUnlinked(address indexed account);
 
     // --Errors--
     error Unauthorised();
@@ -99,64 +223,104 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
     error BountyExists();
     error InvalidStatus();
     error TimelockNotExpired();
+    error TokenNotAllowed();
+    error PermitFailed();
+    error GitHubNotLinked();
+    error InvalidIdentity();
+    error BountyMismatch();
+    error InvalidPullRequest();
+    error InvalidSplit();
+    error InvalidDeadline();
+    error VerificationPending();
+    error InvalidBond();
+    error ClaimCooldownActive();
+    error BondTransferFailed();
 
     // --Constructor--
     constructor(address _oracle) Ownable(msg.sender) {
         oracle = IOracle(_oracle);
+        subscriptionFunder = msg.sender;
     }
 
     // --Functions--
     /**
      * @notice Creates a bounty for a GitHub issue
-     * @param _token ERC20 token address (e.g., USDC, DAI)
+     * @param _token Allowlisted ERC20 token address (e.g., USDC, DAI)
      * @param _amount Amount to deposit
      * @param repoOwner GitHub repo and issue details
+     * @param bountyDeadline Timestamp after which funders can refund an unclaimed bounty,
+     *        between minBountyDuration and maxBountyDuration from now
      */
     function fundIssue(
         uint256 _amount,
         address _token,
         string memory repoOwner,
         string memory repoName,
-        string memory issueNumber
+        string memory issueNumber,
+        uint256 bountyDeadline
     ) external nonReentrant {
-        // Checks that the issuer isn't broke
-        if (_token == address(0)) revert InvalidAmount();
-        if (_amount == 0) revert InvalidAmount();
+        _fundIssue(_amount, _token, repoOwner, repoName, issueNumber, bountyDeadline);
+    }
 
-        // Compute bountyID
-        bytes32 bountyID = computeBountyID(repoOwner, repoName, issueNumber);
-        // Checks if their is an existing bounty
-        if (bounties[bountyID].amount != 0) revert BountyExists();
+    /**
+     * @notice Creates a bounty using an EIP-2612 permit instead of a prior approve
+     * @dev If the permit was already used (e.g. front-run from the mempool),
+     *      funding still goes through as long as the allowance covers the amount
+     * @param bountyDeadline As in fundIssue
+     * @param deadline Permit expiry; v, r, s sign (msg.sender, this, _amount)
+     */
+    function fundIssueWithPermit(
+        uint256 _amount,
+        address _token,
+        string memory repoOwner,
+        string memory repoName,
+        string memory issueNumber,
+        uint256 bountyDeadline,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        _permit(_token, _amount, deadline, v, r, s);
+        _fundIssue(_amount, _token, repoOwner, repoName, issueNumber, bountyDeadline);
+    }
 
-        // Adds the newly created bounty
-        bounties[bountyID] = Bounty({
-            issuer: msg.sender,
-            token: _token,
-            amount: _amount,
-            status: BountyStatus.OPEN,
-            creationTime: block.timestamp,
-            prClaimer: "",
-            activeRequestID: bytes32(0)
-        });
+    /**
+     * @notice Adds funds to an existing bounty, in the token it was created with
+     * @dev Allowed while the bounty is OPEN or VERIFYING; a payout includes every top-up
+     * @param bountyID The bounty to add to
+     * @param _amount Amount to deposit
+     */
+    function topUpBounty(bytes32 bountyID, uint256 _amount) external nonReentrant {
+        _topUpBounty(bountyID, _amount);
+    }
 
-        // Transfers the bounty amount to this account
-        IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+    /**
+     * @notice Tops up a bounty using an EIP-2612 permit instead of a prior approve
+     * @param deadline Permit expiry; v, r, s sign (msg.sender, this, _amount)
+     */
+    function topUpBountyWithPermit(
+        bytes32 bountyID,
+        uint256 _amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        // There is no token to permit without a bounty
+        if (bounties[bountyID].amount == 0) revert InvalidStatus();
 
-        emit BountyCreated(
-            bountyID,
-            repoOwner,
-            repoName,
-            issueNumber,
-            msg.sender,
-            _token,
-            _amount
-        );
+        _permit(bounties[bountyID].token, _amount, deadline, v, r, s);
+        _topUpBounty(bountyID, _amount);
     }
 
     /**
      * @notice Contributor claims a bounty by submitting their PR for verification
+     * @dev With an approved split, only a recipient may claim, every recipient must have
+     *      a linked GitHub account, and the oracle checks all of them. msg.value must equal
+     *      claimBond, and an address whose claim was rejected waits out claimCooldown first
      * @param bountyID The bounty being claimed
-     * @param prNumber The Pull Request number as a string
+     * @param prNumber The Pull Request number as a string; comma separated numbers (no spaces) for a split
      * @param repoOwner GitHub owner details (must match bounty)
      */
     function claimBounty(
@@ -165,7 +329,7 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         string memory repoOwner,
         string memory repoName,
         string memory issueNumber
-    ) external nonReentrant {
+    ) external payable nonReentrant {
         // Ease of reading create new var bounty which contains the details corresponding bountyID
         Bounty storage bounty = bounties[bountyID];
 
@@ -173,25 +337,45 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         if (bounty.amount == 0) revert InvalidStatus();
         if (bounty.status != BountyStatus.OPEN) revert InvalidStatus();
 
+        // The oracle checks the PR against these, so they must name the bounty's own issue
+        if (computeBountyID(repoOwner, repoName, issueNumber) != bountyID) revert BountyMismatch();
+
+        // The oracle pays only if the PR author is the claimer's linked account
+        GitHubIdentity storage identity = githubIdentities[msg.sender];
+        if (bytes(identity.username).length == 0) revert GitHubNotLinked();
+
+        if (msg.value != claimBond) revert InvalidBond();
+        if (block.timestamp < claimCooldownUntil[msg.sender]) revert ClaimCooldownActive();
+        // Recorded even without a bond, since a rejection puts the claimer on cooldown
+        claimBonds[bountyID] = ClaimBond(msg.sender, uint96(msg.value));
+
+        PayoutSplit storage split = payoutSplits[bountyID];
+        bool isSplit = split.mode != SplitMode.NONE;
+        // GitHub would answer an unreadable PR number with an error, which doesn't cost the bond
+        if (!_isPullRequestList(prNumber, isSplit ? MAX_SPLIT_PULL_REQUESTS : 1)) revert InvalidPullRequest();
+
         // Change the status of the current bounty
         bounty.status = BountyStatus.VERIFYING;
+        verificationStartedAt[bountyID] = block.timestamp;
         emit BountyStatusChanged(bountyID, BountyStatus.VERIFYING);
 
-        // create a new list to pass for verifyContribution
-        string[] memory args = new string[](4);
+        // create a new list to pass for verifyContribution, with the split's recipients after the claimer
+        string[] memory args = new string[](
+            isSplit ? 8 + 3 * split.recipients.length : 7
+        );
         args[0] = repoOwner;
         args[1] = repoName;
         args[2] = prNumber;
         args[3] = issueNumber;
+        args[4] = _toHexString(msg.sender);
+        args[5] = identity.username;
+        args[6] = identity.gistId;
+        if (isSplit) _addSplitArgs(split, args);
 
         // Creating request for oracle funciton call
-        bytes32 requestID = oracle.verifyContribution(
-            bountyID,
-            msg.sender,
-            args,
-            secretsSlotID,
-            secretsVersion
-        );
+        bytes32 requestID = isSplit
+            ? oracle.verifySplitContribution(bountyID, msg.sender, args, secretsSlotID, secretsVersion)
+            : oracle.verifyContribution(bountyID, msg.sender, args, secretsSlotID, secretsVersion);
         bounty.activeRequestID = requestID;
 
         // Let the world know a claim has been made
@@ -200,13 +384,16 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
 
     /**
      * @notice Called by Oracle after verification completes
-     * @dev Only callable by the trusted Oracle contract
+     * @dev Only callable by the trusted Oracle contract. An answer to a request the bounty
+     *      no longer waits on (reset by resetVerification) is ignored
      * @param bountyID The bounty that was verified
+     * @param requestID The oracle request being answered
      * @param githubUsername Verified GitHub username
      * @param receiver Address to receive funds
      */
     function completeBountyPayout(
         bytes32 bountyID,
+        bytes32 requestID,
         string calldata githubUsername,
         address receiver
     ) external nonReentrant {
@@ -215,13 +402,18 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
 
         // Checking authorisation and status of the bounty
         if (msg.sender != address(oracle)) revert Unauthorised();
+        if (requestID != bounty.activeRequestID) return;
         if (bounty.status != BountyStatus.VERIFYING) revert InvalidStatus();
+        // A split bounty is only paid through completeSplitPayout
+        if (payoutSplits[bountyID].mode != SplitMode.NONE) revert InvalidSplit();
 
         // Changing state of the existing bounty
         bounty.status = BountyStatus.PAID;
         bounty.prClaimer = githubUsername;
         emit BountyStatusChanged(bountyID, BountyStatus.PAID);
 
+        _settleClaimBond(bountyID, false);
+
         // Transfering the bounty to claimer
         IERC20(bounty.token).safeTransfer(receiver, bounty.amount);
 
@@ -229,48 +421,454 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         emit BountyPaid(bountyID, receiver, bounty.amount, githubUsername);
     }
 
+    /**
+     * @notice Called by Oracle after a split claim is verified; pays every recipient their share
+     * @dev Only callable by the trusted Oracle contract. Weights that can't divide the payout
+     *      reject the claim instead of reverting, which would leave the bounty VERIFYING
+     *      Stale requests are ignored as in completeBountyPayout
+     * @param bountyID The bounty that was verified
+     * @param requestID The oracle request being answered
+     * @param weights Each recipient's verified PR shares, in recipient order. Only
+     *        PER_PULL_REQUEST splits are paid by them
+     */
+    function completeSplitPayout(
+        bytes32 bountyID,
+        bytes32 requestID,
+        uint256[] calldata weights
+    ) external nonReentrant {
+        Bounty storage bounty = bounties[bountyID];
+        PayoutSplit storage split = payoutSplits[bountyID];
+
+        if (msg.sender != address(oracle)) revert Unauthorised();
+        if (requestID != bounty.activeRequestID) return;
+        if (bounty.status != BountyStatus.VERIFYING) revert InvalidStatus();
+        if (split.mode == SplitMode.NONE) revert InvalidSplit();
+
+        uint256 recipientCount = split.recipients.length;
+        uint256 totalWeight = 0;
+        if (split.mode == SplitMode.FIXED) {
+            totalWeight = TOTAL_SPLIT_SHARES;
+        } else if (weights.length == recipientCount) {
+            for (uint256 i = 0; i < recipientCount; i++) totalWeight += weights[i];
+        }
+        if (totalWeight == 0) {
+            _rejectClaim(bountyID, RejectionReason.UNKNOWN);
+            return;
+        }
+
+        bounty.status = BountyStatus.PAID;
+        bounty.prClaimer = _splitUsernames(split.recipients);
+        emit BountyStatusChanged(bountyID, BountyStatus.PAID);
+
+        _settleClaimBond(bountyID, false);
+
+        // The last recipient with a share also gets whatever rounding left over, so
+        // nobody the oracle gave no weight is paid
+        uint256 lastPaid = recipientCount - 1;
+        while (_splitWeight(split, weights, lastPaid) == 0) lastPaid--;
+
+        uint256 remaining = bounty.amount;
+        for (uint256 i = 0; i <= lastPaid; i++) {
+            address recipient = split.recipients[i];
+            uint256 share = i == lastPaid
+                ? remaining
+                : (bounty.amount * _splitWeight(split, weights, i)) / totalWeight;
+            remaining -= share;
+            if (share == 0) continue;
+
+            IERC20(bounty.token).safeTransfer(recipient, share);
+            emit BountyPaid(bountyID, recipient, share, githubIdentities[recipient].username);
+        }
+    }
+
     /**
      * @notice Called by Oracle when verification fails
-     * @dev Only callable by the trusted Oracle contract
+     * @dev Only callable by the trusted Oracle contract. Stale requests are ignored as in
+     *      completeBountyPayout
      * @param bountyID The bounty that failed verification
+     * @param requestID The oracle request being answered
+     * @param reason Why the claim failed, emitted in ClaimRejected
      */
-    function rejectBountyClaim(bytes32 bountyID) external nonReentrant {
+    function rejectBountyClaim(
+        bytes32 bountyID,
+        bytes32 requestID,
+        RejectionReason reason
+    ) external nonReentrant {
         // Only allow calls from Oracle
         if (msg.sender != address(oracle)) revert Unauthorised();
 
         Bounty storage bounty = bounties[bountyID];
+        if (requestID != bounty.activeRequestID) return;
 
         // Ensure bounty is in VERIFYING state
         if (bounty.status != BountyStatus.VERIFYING) revert InvalidStatus();
 
-        // Revert to OPEN so another claim can be submitted
-        bounty.status = BountyStatus.OPEN;
-        bounty.activeRequestID = bytes32(0);
-        emit BountyStatusChanged(bountyID, BountyStatus.OPEN);
+        _rejectClaim(bountyID, reason);
+    }
+
+    /**
+     * @notice Reopens a bounty whose claim the oracle never answered (e.g. the subscription
+     *         ran out of LINK or the callback ran out of gas)
+     * @dev Anyone may call it once verificationTimeout has passed since the claim. The pending
+     *      request is dropped, so the oracle's answer is ignored if it still arrives
+     * @param bountyID The VERIFYING bounty to reopen
+     */
+    function resetVerification(bytes32 bountyID) external nonReentrant {
+        Bounty storage bounty = bounties[bountyID];
+
+        if (bounty.status != BountyStatus.VERIFYING) revert InvalidStatus();
+        if (block.timestamp <= verificationStartedAt[bountyID] + verificationTimeout) {
+            revert VerificationPending();
+        }
+
+        _rejectClaim(bountyID, RejectionReason.TIMED_OUT);
+    }
+
+    /**
+     * @notice Withdraws claim bonds that couldn't be sent to the caller when settled
+     */
+    function withdrawBond() external nonReentrant {
+        uint256 amount = unclaimedBonds[msg.sender];
+        if (amount == 0) revert InvalidAmount();
+
+        unclaimedBonds[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) revert BondTransferFailed();
+    }
+
+    /**
+     * @notice Issuer approves dividing the payout among several contributors
+     * @dev Only while the bounty is OPEN, so a pending claim is always verified against the
+     *      split it was made under. SplitMode.NONE with empty arrays pays a single claimer again
+     * @param mode FIXED pays `shares` (basis points summing to TOTAL_SPLIT_SHARES);
+     *        PER_PULL_REQUEST pays one share per verified PR and takes no `shares`
+     * @param recipients Contributors' wallets, at most MAX_SPLIT_RECIPIENTS
+     */
+    function approvePayoutSplit(
+        bytes32 bountyID,
+        SplitMode mode,
+        address[] calldata recipients,
+        uint16[] calldata shares
+    ) external {
+        Bounty storage bounty = bounties[bountyID];
+
+        if (msg.sender != bounty.issuer) revert Unauthorised();
+        if (bounty.status != BountyStatus.OPEN) revert InvalidStatus();
+        _validateSplit(mode, recipients, shares);
+
+        if (mode == SplitMode.NONE) {
+            delete payoutSplits[bountyID];
+        } else {
+            payoutSplits[bountyID] = PayoutSplit({
+                mode: mode,
+                recipients: recipients,
+                shares: shares
+            });
+        }
+        emit PayoutSplitApproved(bountyID, mode, recipients, shares);
     }
 
     /**
-     * @notice Issuer reclaims funds if bounty remains unclaimed after 6 months
+     * @notice A funder reclaims their contribution if the bounty remains unclaimed past its deadline
+     * @dev The first refund moves the bounty to REFUNDED; each funder then withdraws their
+     *      own share, so a funder whose transfer fails can't hold up the others
      * @param bountyID The bounty to refund
      */
     function seepFunds(bytes32 bountyID) external nonReentrant {
         // FIX: Use storage reference instead of memory
         Bounty storage bounty = bounties[bountyID];
+        uint256 share = contributions[bountyID][msg.sender];
 
         // FIX: Check authorization first, then status, then timelock
-        if (msg.sender != bounty.issuer) revert Unauthorised();
-        if (bounty.status != BountyStatus.OPEN) revert InvalidStatus();
-        // FIX: Compare block.timestamp instead of creationTime with itself
-        if (block.timestamp <= bounty.creationTime + REFUND_TIMELOCK)
-            revert TimelockNotExpired();
+        if (share == 0) revert Unauthorised();
+        if (refundClaimed[bountyID][msg.sender]) revert InvalidStatus();
+
+        if (bounty.status == BountyStatus.OPEN) {
+            if (block.timestamp <= bounty.deadline) revert TimelockNotExpired();
+
+            // Changing status of the bounty
+            bounty.status = BountyStatus.REFUNDED;
+            emit BountyStatusChanged(bountyID, BountyStatus.REFUNDED);
+        } else if (bounty.status != BountyStatus.REFUNDED) {
+            revert InvalidStatus();
+        }
+
+        // Tranferring the funder's share back from this contract
+        refundClaimed[bountyID][msg.sender] = true;
+        IERC20(bounty.token).safeTransfer(msg.sender, share);
+        emit FundsRefunded(bountyID, msg.sender, share);
+    }
+
+    /**
+     * @notice Links the caller's wallet to a GitHub account, replacing any earlier link
+     * @dev Anyone can name any account here; the oracle only pays if the gist, owned by
+     *      that account, contains "MergeMint identity proof: <caller address>"
+     * @param username GitHub login
+     * @param gistId ID of a public gist holding the proof message
+     */
+    function linkGitHub(string calldata username, string calldata gistId) external {
+        if (bytes(username).length == 0 || bytes(gistId).length == 0) revert InvalidIdentity();
+
+        githubIdentities[msg.sender] = GitHubIdentity({username: username, gistId: gistId});
+        emit GitHubLinked(msg.sender, username, gistId);
+    }
+
+    // Removes the caller's GitHub link
+    function unlinkGitHub() external {
+        delete githubIdentities[msg.sender];
+        emit GitHubUnlinked(msg.sender);
+    }
+
+    // --Internal Functions--
+
+    // Shared by fundIssue and fundIssueWithPermit
+    function _fundIssue(
+        uint256 _amount,
+        address _token,
+        string memory repoOwner,
+        string memory repoName,
+        string memory issueNumber,
+        uint256 bountyDeadline
+    ) internal {
+        // Checks that the issuer isn't broke
+        if (_token == address(0)) revert InvalidAmount();
+        if (_amount == 0) revert InvalidAmount();
+        if (!isTokenAllowed[_token]) revert TokenNotAllowed();
+        if (
+            bountyDeadline < block.timestamp + minBountyDuration ||
+            bountyDeadline > block.timestamp + maxBountyDuration
+        ) revert InvalidDeadline();
+
+        // Compute bountyID
+        bytes32 bountyID = computeBountyID(repoOwner, repoName, issueNumber);
+        // Checks if their is an existing bounty
+        if (bounties[bountyID].amount != 0) revert BountyExists();
+
+        // Adds the newly created bounty
+        bounties[bountyID] = Bounty({
+            issuer: msg.sender,
+            token: _token,
+            amount: _amount,
+            status: BountyStatus.OPEN,
+            creationTime: block.timestamp,
+            prClaimer: "",
+            activeRequestID: bytes32(0),
+            deadline: bountyDeadline
+        });
+        contributions[bountyID][msg.sender] = _amount;
+
+        // Transfers the bounty amount to this account
+        _pullTokens(_token, _amount);
+
+        emit BountyCreated(
+            bountyID,
+            repoOwner,
+            repoName,
+            issueNumber,
+            msg.sender,
+            _token,
+            _amount,
+            bountyDeadline
+        );
+    }
+
+    // Shared by topUpBounty and topUpBountyWithPermit
+    function _topUpBounty(bytes32 bountyID, uint256 _amount) internal {
+        Bounty storage bounty = bounties[bountyID];
+
+        if (_amount == 0) revert InvalidAmount();
+        if (bounty.amount == 0) revert InvalidStatus();
+        if (
+            bounty.status != BountyStatus.OPEN &&
+            bounty.status != BountyStatus.VERIFYING
+        ) revert InvalidStatus();
+
+        bounty.amount += _amount;
+        // The issuer always has a contribution, so is never listed as a backer
+        if (contributions[bountyID][msg.sender] == 0) {
+            backers[bountyID].push(msg.sender);
+        }
+        contributions[bountyID][msg.sender] += _amount;
+        _pullTokens(bounty.token, _amount);
+
+        emit BountyContributed(bountyID, msg.sender, _amount, bounty.amount);
+    }
+
+    // Reopens a VERIFYING bounty so another claim can be submitted
+    function _rejectClaim(bytes32 bountyID, RejectionReason reason) internal {
+        Bounty storage bounty = bounties[bountyID];
+
+        emit ClaimRejected(bountyID, bounty.activeRequestID, reason);
+        bounty.status = BountyStatus.OPEN;
+        bounty.activeRequestID = bytes32(0);
+        emit BountyStatusChanged(bountyID, BountyStatus.OPEN);
+
+        // An outage or a silent oracle says nothing about the claim itself
+        bool claimerAtFault = reason != RejectionReason.GITHUB_API_ERROR
+            && reason != RejectionReason.SCRIPT_ERROR
+            && reason != RejectionReason.TIMED_OUT;
+        _settleClaimBond(bountyID, claimerAtFault);
+    }
+
+    // Returns the pending claim's bond, or forfeits it and puts the claimer on cooldown
+    function _settleClaimBond(bytes32 bountyID, bool forfeit) internal {
+        ClaimBond memory bond = claimBonds[bountyID];
+        delete claimBonds[bountyID];
+
+        if (forfeit) {
+            claimCooldownUntil[bond.claimer] = block.timestamp + claimCooldown;
+            if (bond.amount == 0) return;
+            _sendBond(subscriptionFunder, bond.amount);
+            emit ClaimBondForfeited(bountyID, bond.claimer, bond.amount);
+        } else {
+            if (bond.amount == 0) return;
+            _sendBond(bond.claimer, bond.amount);
+            emit ClaimBondReturned(bountyID, bond.claimer, bond.amount);
+        }
+    }
+
+    // Settlement runs inside the oracle callback, so a recipient that can't take the
+    // transfer must not make it revert; its bond waits in unclaimedBonds instead
+    function _sendBond(address to, uint256 amount) internal {
+        if (!payable(to).send(amount)) unclaimedBonds[to] += amount;
+    }
 
-        // Changing status of the bounty
-        bounty.status = BountyStatus.REFUNDED;
-        emit BountyStatusChanged(bountyID, BountyStatus.REFUNDED);
+    function _validateSplit(
+        SplitMode mode,
+        address[] calldata recipients,
+        uint16[] calldata shares
+    ) internal pure {
+        if (mode == SplitMode.NONE) {
+            if (recipients.length != 0 || shares.length != 0) revert InvalidSplit();
+            return;
+        }
+        if (recipients.length == 0 || recipients.length > MAX_SPLIT_RECIPIENTS)
+            revert InvalidSplit();
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (recipients[i] == address(0)) revert InvalidSplit();
+            for (uint256 j = 0; j < i; j++) {
+                if (recipients[j] == recipients[i]) revert InvalidSplit();
+            }
+        }
+
+        if (mode == SplitMode.PER_PULL_REQUEST) {
+            if (shares.length != 0) revert InvalidSplit();
+            return;
+        }
+
+        if (shares.length != recipients.length) revert InvalidSplit();
+        uint256 total = 0;
+        for (uint256 i = 0; i < shares.length; i++) {
+            if (shares[i] == 0) revert InvalidSplit();
+            total += shares[i];
+        }
+        if (total != TOTAL_SPLIT_SHARES) revert InvalidSplit();
+    }
+
+    // A recipient's share of a split payout: its fixed share, or the oracle's weight
+    function _splitWeight(
+        PayoutSplit storage split,
+        uint256[] calldata weights,
+        uint256 index
+    ) internal view returns (uint256) {
+        return split.mode == SplitMode.FIXED ? split.shares[index] : weights[index];
+    }
+
+    // Whether prNumber is a comma separated list of at most maxCount PR numbers the oracle
+    // can look up (digits, no leading zero, within GitHub's 32-bit Int)
+    function _isPullRequestList(string memory prNumber, uint256 maxCount) internal pure returns (bool) {
+        bytes memory b = bytes(prNumber);
+        uint256 digits;
+        uint256 count;
+        for (uint256 i = 0; i <= b.length; i++) {
+            if (i == b.length || b[i] == ",") {
+                if (digits == 0 || digits > 9) return false;
+                if (++count > maxCount) return false;
+                digits = 0;
+            } else if (b[i] >= "0" && b[i] <= "9") {
+                if (digits == 0 && b[i] == "0") return false;
+                digits++;
+            } else {
+                return false;
+            }
+        }
+        return true;
+    }
 
-        // Tranferring funds(refunding) from this contract to issuer
-        IERC20(bounty.token).safeTransfer(bounty.issuer, bounty.amount);
-        emit FundsRefunded(bountyID, bounty.issuer, bounty.amount);
+    // The recipients' linked GitHub usernames, comma separated, which the oracle checked
+    function _splitUsernames(address[] storage recipients) internal view returns (string memory usernames) {
+        for (uint256 i = 0; i < recipients.length; i++) {
+            string memory username = githubIdentities[recipients[i]].username;
+            usernames = i == 0 ? username : string.concat(usernames, ",", username);
+        }
+    }
+
+    // Fills args[7...] for a split claim: the mode, then each recipient's wallet, GitHub
+    // username and gist. The caller must be a recipient and every recipient linked
+    function _addSplitArgs(PayoutSplit storage split, string[] memory args) internal view {
+        bool callerIsRecipient = false;
+
+        args[7] = split.mode == SplitMode.FIXED ? "fixed" : "perPullRequest";
+        for (uint256 i = 0; i < split.recipients.length; i++) {
+            address recipient = split.recipients[i];
+            GitHubIdentity storage identity = githubIdentities[recipient];
+            if (bytes(identity.username).length == 0) revert GitHubNotLinked();
+            if (recipient == msg.sender) callerIsRecipient = true;
+
+            args[8 + 3 * i] = _toHexString(recipient);
+            args[9 + 3 * i] = identity.username;
+            args[10 + 3 * i] = identity.gistId;
+        }
+        if (!callerIsRecipient) revert Unauthorised();
+    }
+
+    // Transfers _amount of _token from the caller to this contract
+    function _pullTokens(address _token, uint256 _amount) internal {
+        uint256 balanceBefore = IERC20(_token).balanceOf(address(this));
+        IERC20(_token).safeTransferFrom(msg.sender, address(this), _amount);
+        // Fee-on-transfer tokens would leave the bounty underfunded
+        if (IERC20(_token).balanceOf(address(this)) - balanceBefore != _amount)
+            revert TokenNotAllowed();
+    }
+
+    // Applies a permit, tolerating one already used as long as the allowance covers _amount
+    function _permit(
+        address _token,
+        uint256 _amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal {
+        try
+            IERC20Permit(_token).permit(
+                msg.sender,
+                address(this),
+                _amount,
+                deadline,
+                v,
+                r,
+                s
+            )
+        {} catch {
+            if (IERC20(_token).allowance(msg.sender, address(this)) < _amount)
+                revert PermitFailed();
+        }
+    }
+
+    // Lowercase 0x-prefixed hex, the form the oracle script compares against the gist
+    function _toHexString(address account) internal pure returns (string memory) {
+        bytes16 digits = "0123456789abcdef";
+        bytes20 value = bytes20(account);
+        bytes memory str = new bytes(42);
+        str[0] = "0";
+        str[1] = "x";
+        for (uint256 i = 0; i < 20; i++) {
+            str[2 + i * 2] = digits[uint8(value[i]) >> 4];
+            str[3 + i * 2] = digits[uint8(value[i]) & 0x0f];
+        }
+        return string(str);
     }
 
     // --Admin Function--
@@ -290,6 +888,72 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         oracle = IOracle(newOracle);
     }
 
+    /**
+     * @notice Sets how soon and how late new bounties' deadlines may be
+     * @dev Existing bounties keep the deadline they were created with
+     */
+    function setBountyDurationBounds(uint256 minDuration, uint256 maxDuration) external onlyOwner {
+        if (minDuration > maxDuration) revert InvalidDeadline();
+
+        minBountyDuration = minDuration;
+        maxBountyDuration = maxDuration;
+        emit BountyDurationBoundsUpdated(minDuration, maxDuration);
+    }
+
+    /**
+     * @notice Sets how long a claim may wait on the oracle before resetVerification is allowed
+     * @dev Also applies to claims already pending
+     */
+    function setVerificationTimeout(uint256 timeout) external onlyOwner {
+        verificationTimeout = timeout;
+        emit VerificationTimeoutUpdated(timeout);
+    }
+
+    /**
+     * @notice Sets the claim bond and who receives forfeited bonds
+     * @dev Claims already pending keep the bond they posted
+     */
+    function setClaimBond(uint256 bond, address funder) external onlyOwner {
+        if (bond > type(uint96).max || funder == address(0)) revert InvalidBond();
+
+        claimBond = bond;
+        subscriptionFunder = funder;
+        emit ClaimBondUpdated(bond, funder);
+    }
+
+    /**
+     * @notice Sets how long an address waits to claim again after a rejection
+     * @dev Cooldowns already running keep their end time
+     */
+    function setClaimCooldown(uint256 cooldown) external onlyOwner {
+        claimCooldown = cooldown;
+        emit ClaimCooldownUpdated(cooldown);
+    }
+
+    /**
+     * @notice Adds or removes a token from the funding allowlist
+     * @dev Removing a token doesn't affect bounties already funded with it
+     */
+    function setTokenAllowed(address token, bool allowed) external onlyOwner {
+        if (token == address(0)) revert TokenNotAllowed();
+        if (isTokenAllowed[token] == allowed) return;
+
+        isTokenAllowed[token] = allowed;
+        if (allowed) {
+            allowedTokens.push(token);
+        } else {
+            // Swap and pop, order doesn't matter
+            for (uint256 i = 0; i < allowedTokens.length; i++) {
+                if (allowedTokens[i] == token) {
+                    allowedTokens[i] = allowedTokens[allowedTokens.length - 1];
+                    allowedTokens.pop();
+                    break;
+                }
+            }
+        }
+        emit TokenAllowlistUpdated(token, allowed);
+    }
+
     // -- Helper/View Functions --
 
     // Hashes certain parameters(repo owner, name, issue id) to create a unique bounty id
@@ -304,6 +968,43 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
         return bountyID;
     }
 
+    // Every token currently on the allowlist
+    function getAllowedTokens() external view returns (address[] memory) {
+        return allowedTokens;
+    }
+
+    // Everyone who funded a bounty and how much each put in: the issuer, then backers
+    // in order of first contribution. Empty if there is no bounty
+    function getFunders(
+        bytes32 bountyID
+    ) external view returns (address[] memory accounts, uint256[] memory amounts) {
+        address issuer = bounties[bountyID].issuer;
+        if (issuer == address(0)) return (accounts, amounts);
+
+        address[] storage bountyBackers = backers[bountyID];
+        accounts = new address[](bountyBackers.length + 1);
+        amounts = new uint256[](accounts.length);
+        accounts[0] = issuer;
+        for (uint256 i = 0; i < bountyBackers.length; i++) {
+            accounts[i + 1] = bountyBackers[i];
+        }
+        for (uint256 i = 0; i < accounts.length; i++) {
+            amounts[i] = contributions[bountyID][accounts[i]];
+        }
+    }
+
+    // The payout split the issuer approved; mode NONE when there is none
+    function getPayoutSplit(
+        bytes32 bountyID
+    )
+        external
+        view
+        returns (SplitMode mode, address[] memory recipients, uint16[] memory shares)
+    {
+        PayoutSplit storage split = payoutSplits[bountyID];
+        return (split.mode, split.recipients, split.shares);
+    }
+
     // Getting bounty details
     function getBountyDetails(
         bytes32 bountyID
@@ -317,7 +1018,8 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
             BountyStatus status,
             uint256 creationTime,
             string memory prClaimer,
-            bytes32 activeRequestId
+            bytes32 activeRequestId,
+            uint256 deadline
         )
     {
         Bounty storage bounty = bounties[bountyID];
@@ -328,7 +1030,8 @@ contract BountyRegistry is Ownable, CustomReentrancyGuard {
             bounty.status,
             bounty.creationTime,
             bounty.prClaimer,
-            bounty.activeRequestID
+            bounty.activeRequestID,
+            bounty.deadline
         );
     }
 }
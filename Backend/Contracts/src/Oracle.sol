@@ -6,14 +6,23 @@ import {FunctionsClient} from "@chainlink/contracts/src/v0.8/functions/v1_0_0/Fu
 import {FunctionsRequest} from "@chainlink/contracts/src/v0.8/functions/v1_0_0/libraries/FunctionsRequest.sol";
 
 // -- Interface --
+// Each call names the request it answers; the registry ignores requests it no longer waits on
 interface IBountyRegistry {
     function completeBountyPayout(
         bytes32 bountyId,
+        bytes32 requestId,
         string calldata githubUsername,
         address recipient
     ) external;
 
-    function rejectBountyClaim(bytes32 bountyId) external;
+    function completeSplitPayout(
+        bytes32 bountyId,
+        bytes32 requestId,
+        uint256[] calldata weights
+    ) external;
+
+    // reason is a BountyRegistry.RejectionReason
+    function rejectBountyClaim(bytes32 bountyId, bytes32 requestId, uint8 reason) external;
 }
 
 contract IntegratedOracle is FunctionsClient {
@@ -30,6 +39,11 @@ contract IntegratedOracle is FunctionsClient {
     IBountyRegistry public bountyRegistry;
     address public owner;
 
+    // --- Rejection Reasons ---
+    // Mirrors BountyRegistry.RejectionReason; the DON returns the other codes itself
+    uint8 public constant REASON_UNKNOWN = 0;
+    uint8 public constant REASON_SCRIPT_ERROR = 7;
+
     // --- Request Tracking ---
     struct VerificationRequest {
         bytes32 bountyId;      // Which bounty is being verified
@@ -38,6 +52,8 @@ contract IntegratedOracle is FunctionsClient {
     }
 
     mapping(bytes32 => VerificationRequest) public requests;
+    // Requests for bounties with a payout split, answered with a weight per recipient
+    mapping(bytes32 => bool) public splitRequests;
 
     // --- Events ---
     event ClaimInitiated(
@@ -51,7 +67,8 @@ contract IntegratedOracle is FunctionsClient {
         bytes32 indexed requestId,
         bytes32 indexed bountyId,
         bool verified,
-        string author
+        string author,
+        uint8 reason
     );
 
     event PayoutTriggered(
@@ -93,7 +110,7 @@ contract IntegratedOracle is FunctionsClient {
      * @dev Called by BountyRegistry when a contributor claims a bounty
      * @param bountyId The unique identifier for the bounty
      * @param claimant The address claiming the bounty
-     * @param args [repoOwner, repoName, prNumber, issueNumber]
+     * @param args [repoOwner, repoName, prNumber, issueNumber, claimer, githubUsername, gistId]
      * @param slotId DON hosted secrets slot ID
      * @param version DON hosted secrets version
      */
@@ -104,6 +121,32 @@ contract IntegratedOracle is FunctionsClient {
         uint8 slotId,
         uint64 version
     ) external returns (bytes32 requestId) {
+        return _requestVerification(bountyId, claimant, args, slotId, version);
+    }
+
+    /**
+     * @notice Initializes verification of a claim on a bounty with a payout split
+     * @dev args continue after the claimer's with [splitMode, then wallet, githubUsername
+     *      and gistId per recipient]; the DON answers with each recipient's weight
+     */
+    function verifySplitContribution(
+        bytes32 bountyId,
+        address claimant,
+        string[] calldata args,
+        uint8 slotId,
+        uint64 version
+    ) external returns (bytes32 requestId) {
+        requestId = _requestVerification(bountyId, claimant, args, slotId, version);
+        splitRequests[requestId] = true;
+    }
+
+    function _requestVerification(
+        bytes32 bountyId,
+        address claimant,
+        string[] calldata args,
+        uint8 slotId,
+        uint64 version
+    ) internal returns (bytes32 requestId) {
         // Only allow calls from BountyRegistry
         if (msg.sender != address(bountyRegistry)) revert Unauthorized();
         if (bountyId == bytes32(0)) revert InvalidBountyId();
@@ -147,35 +190,82 @@ contract IntegratedOracle is FunctionsClient {
         
         if (!request.active) revert UnexpectedRequestID(requestId);
         request.active = false;
+        // Only needed until the request is answered
+        bool isSplit = splitRequests[requestId];
+        delete splitRequests[requestId];
 
         // Handle script errors
         if (err.length > 0) {
-            emit VerificationComplete(requestId, request.bountyId, false, "SCRIPT_ERROR");
+            emit VerificationComplete(requestId, request.bountyId, false, "SCRIPT_ERROR", REASON_SCRIPT_ERROR);
             // Revert bounty back to OPEN state
-            bountyRegistry.rejectBountyClaim(request.bountyId);
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, REASON_SCRIPT_ERROR);
+            return;
+        }
+
+        if (isSplit) {
+            _fulfillSplit(requestId, request, response);
             return;
         }
 
-        // Decode Oracle response: (bool verified, string memory githubUsername)
-        (bool verified, string memory author) = abi.decode(response, (bool, string));
+        // Decode Oracle response: (bool verified, string memory githubUsername, uint8 reason)
+        (bool verified, string memory author, uint8 reason) = abi.decode(response, (bool, string, uint8));
+
+        // A code the registry doesn't know would make its call revert and leave the bounty VERIFYING
+        if (reason > REASON_SCRIPT_ERROR) reason = REASON_UNKNOWN;
 
-        emit VerificationComplete(requestId, request.bountyId, verified, author);
+        emit VerificationComplete(requestId, request.bountyId, verified, author, reason);
 
         // If verification passed, trigger payout
         if (verified) {
             bountyRegistry.completeBountyPayout(
                 request.bountyId,
-                author,            // string githubUsername (2nd param)
-                request.claimant   // address recipient (3rd param)
+                requestId,
+                author,            // string githubUsername (3rd param)
+                request.claimant   // address recipient (4th param)
             );
             
             emit PayoutTriggered(request.bountyId, request.claimant, author);
         } else {
             // If verification failed, revert bounty back to OPEN state
-            bountyRegistry.rejectBountyClaim(request.bountyId);
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, reason);
         }
     }
 
+    // A split response is packed to fit the DON's 256 byte limit: verified, reason, then one
+    // weight per recipient, a byte each. The registry has the recipients' usernames
+    function _fulfillSplit(
+        bytes32 requestId,
+        VerificationRequest storage request,
+        bytes memory response
+    ) internal {
+        (bool verified, uint8 reason, uint256[] memory weights) = _decodeSplitResponse(response);
+
+        emit VerificationComplete(requestId, request.bountyId, verified, "", reason);
+
+        if (verified) {
+            bountyRegistry.completeSplitPayout(request.bountyId, requestId, weights);
+            emit PayoutTriggered(request.bountyId, request.claimant, "");
+        } else {
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, reason);
+        }
+    }
+
+    function _decodeSplitResponse(bytes memory response)
+        internal
+        pure
+        returns (bool verified, uint8 reason, uint256[] memory weights)
+    {
+        // Too short to carry a verdict; rejected like any unknown failure
+        if (response.length < 2) return (false, REASON_UNKNOWN, new uint256[](0));
+
+        verified = response[0] != 0;
+        reason = uint8(response[1]);
+        if (reason > REASON_SCRIPT_ERROR) reason = REASON_UNKNOWN;
+
+        weights = new uint256[](response.length - 2);
+        for (uint256 i = 0; i < weights.length; i++) weights[i] = uint8(response[i + 2]);
+    }
+
     // --- Admin Functions ---
 
     function updateBountyRegistry(address _newRegistry) external onlyOwner {
@@ -0,0 +1,204 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {IBountyRegistry} from "../Oracle.sol";
+
+/**
+ * @notice Local stand-in for IntegratedOracle with the same verifyContribution interface
+ * @dev Instead of sending the request to the Chainlink DON it emits VerificationRequested.
+ *      The devnet fulfiller (devnet/fulfiller.js) runs verification.js against a stub GitHub
+ *      and calls fulfill with the script's output, which is handled like fulfillRequest.
+ */
+contract MockOracle {
+    IBountyRegistry public bountyRegistry;
+    address public owner;
+    // The only account allowed to answer requests
+    address public fulfiller;
+
+    uint8 public constant REASON_UNKNOWN = 0;
+    uint8 public constant REASON_SCRIPT_ERROR = 7;
+
+    struct VerificationRequest {
+        bytes32 bountyId;
+        address claimant;
+        bool active;
+    }
+
+    mapping(bytes32 => VerificationRequest) public requests;
+    mapping(bytes32 => bool) public splitRequests;
+    uint256 private nonce;
+
+    // --- Events ---
+    // Same as IntegratedOracle, so the indexer and frontend work unchanged
+    event ClaimInitiated(
+        bytes32 indexed requestId,
+        bytes32 indexed bountyId,
+        address indexed claimant,
+        string prNumber
+    );
+
+    event VerificationComplete(
+        bytes32 indexed requestId,
+        bytes32 indexed bountyId,
+        bool verified,
+        string author,
+        uint8 reason
+    );
+
+    event PayoutTriggered(
+        bytes32 indexed bountyId,
+        address indexed recipient,
+        string githubUsername
+    );
+
+    // What the fulfiller picks up: the script arguments the DON would receive
+    event VerificationRequested(bytes32 indexed requestId, string[] args);
+
+    // --- Errors ---
+    error UnexpectedRequestID(bytes32 requestId);
+    error Unauthorized();
+    error InvalidBountyId();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert Unauthorized();
+        _;
+    }
+
+    constructor(address _bountyRegistry, address _fulfiller) {
+        bountyRegistry = IBountyRegistry(_bountyRegistry);
+        fulfiller = _fulfiller;
+        owner = msg.sender;
+    }
+
+    /**
+     * @notice Records a claim for the fulfiller to verify
+     * @param args [repoOwner, repoName, prNumber, issueNumber, claimer, githubUsername, gistId]
+     */
+    function verifyContribution(
+        bytes32 bountyId,
+        address claimant,
+        string[] calldata args,
+        uint8,
+        uint64
+    ) external returns (bytes32 requestId) {
+        return _requestVerification(bountyId, claimant, args);
+    }
+
+    /**
+     * @notice Records a claim on a bounty with a payout split
+     * @param args As for verifyContribution, then [splitMode, then wallet, githubUsername
+     *        and gistId per recipient]
+     */
+    function verifySplitContribution(
+        bytes32 bountyId,
+        address claimant,
+        string[] calldata args,
+        uint8,
+        uint64
+    ) external returns (bytes32 requestId) {
+        requestId = _requestVerification(bountyId, claimant, args);
+        splitRequests[requestId] = true;
+    }
+
+    function _requestVerification(
+        bytes32 bountyId,
+        address claimant,
+        string[] calldata args
+    ) internal returns (bytes32 requestId) {
+        if (msg.sender != address(bountyRegistry)) revert Unauthorized();
+        if (bountyId == bytes32(0)) revert InvalidBountyId();
+
+        requestId = keccak256(abi.encode(address(this), nonce++));
+        requests[requestId] = VerificationRequest({
+            bountyId: bountyId,
+            claimant: claimant,
+            active: true
+        });
+
+        emit ClaimInitiated(requestId, bountyId, claimant, args[2]);
+        emit VerificationRequested(requestId, args);
+    }
+
+    /**
+     * @notice Answers a request with the verification script's output
+     * @param response ABI encoded (bool verified, string author, uint8 reason), or for split
+     *        requests packed bytes: verified, reason, then a byte per recipient weight
+     * @param err The script's error, if it threw
+     */
+    function fulfill(
+        bytes32 requestId,
+        bytes calldata response,
+        bytes calldata err
+    ) external {
+        if (msg.sender != fulfiller) revert Unauthorized();
+
+        VerificationRequest storage request = requests[requestId];
+        if (!request.active) revert UnexpectedRequestID(requestId);
+        request.active = false;
+        // Only needed until the request is answered
+        bool isSplit = splitRequests[requestId];
+        delete splitRequests[requestId];
+
+        if (err.length > 0) {
+            emit VerificationComplete(requestId, request.bountyId, false, "SCRIPT_ERROR", REASON_SCRIPT_ERROR);
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, REASON_SCRIPT_ERROR);
+            return;
+        }
+
+        if (isSplit) {
+            _fulfillSplit(requestId, request, response);
+            return;
+        }
+
+        (bool verified, string memory author, uint8 reason) = abi.decode(response, (bool, string, uint8));
+        if (reason > REASON_SCRIPT_ERROR) reason = REASON_UNKNOWN;
+
+        emit VerificationComplete(requestId, request.bountyId, verified, author, reason);
+
+        if (verified) {
+            bountyRegistry.completeBountyPayout(request.bountyId, requestId, author, request.claimant);
+            emit PayoutTriggered(request.bountyId, request.claimant, author);
+        } else {
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, reason);
+        }
+    }
+
+    function _fulfillSplit(
+        bytes32 requestId,
+        VerificationRequest storage request,
+        bytes calldata response
+    ) internal {
+        // Packed as IntegratedOracle expects: verified, reason, then a byte per weight
+        if (response.length < 2) {
+            emit VerificationComplete(requestId, request.bountyId, false, "", REASON_UNKNOWN);
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, REASON_UNKNOWN);
+            return;
+        }
+
+        bool verified = response[0] != 0;
+        uint8 reason = uint8(response[1]);
+        if (reason > REASON_SCRIPT_ERROR) reason = REASON_UNKNOWN;
+
+        uint256[] memory weights = new uint256[](response.length - 2);
+        for (uint256 i = 0; i < weights.length; i++) weights[i] = uint8(response[i + 2]);
+
+        emit VerificationComplete(requestId, request.bountyId, verified, "", reason);
+
+        if (verified) {
+            bountyRegistry.completeSplitPayout(request.bountyId, requestId, weights);
+            emit PayoutTriggered(request.bountyId, request.claimant, "");
+        } else {
+            bountyRegistry.rejectBountyClaim(request.bountyId, requestId, reason);
+        }
+    }
+
+    // --- Admin Functions ---
+
+    function updateBountyRegistry(address _newRegistry) external onlyOwner {
+        bountyRegistry = IBountyRegistry(_newRegistry);
+    }
+
+    function updateFulfiller(address _newFulfiller) external onlyOwner {
+        fulfiller = _newFulfiller;
+    }
+}
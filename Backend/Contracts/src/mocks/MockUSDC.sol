@@ -3,13 +3,19 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 
+// Local stand-in for USDC, deployed by DeployLocal
 contract MockUSDC is ERC20 {
     constructor() ERC20("Mock USDC", "mUSDC") {
         // Mint huge supply to the deployer for testing
-        _mint(msg.sender, 1000000 * 10**18);
+        _mint(msg.sender, 1000000 * 10**decimals());
+    }
+
+    // Same decimals as real USDC, so amounts look the same in the UI
+    function decimals() public pure override returns (uint8) {
+        return 6;
     }
 
     function mint(address to, uint256 amount) external {
         _mint(to, amount);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,154 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "../src/mocks/MockUSDC.sol";
+
+contract BountyDeadlineTest is Test {
+    BountyRegistry public registry;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public issuer = address(2);
+    address public attacker = address(4);
+
+    string public constant REPO_OWNER = "vihaan1016";
+    string public constant REPO_NAME = "MergeMint";
+    string public constant ISSUE_NUMBER = "42";
+    uint256 public constant BOUNTY_AMOUNT = 100 * 10**6;
+
+    bytes32 public bountyId;
+
+    event BountyDurationBoundsUpdated(uint256 minDuration, uint256 maxDuration);
+
+    function setUp() public {
+        vm.startPrank(owner);
+        usdc = new MockUSDC();
+        registry = new BountyRegistry(address(0x123));
+        registry.setTokenAllowed(address(usdc), true);
+        usdc.mint(issuer, BOUNTY_AMOUNT * 10);
+        vm.stopPrank();
+
+        vm.prank(issuer);
+        usdc.approve(address(registry), type(uint256).max);
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function _fund(uint256 deadline) internal {
+        vm.prank(issuer);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, deadline);
+    }
+
+    function _deadline() internal view returns (uint256 deadline) {
+        (,,,,,,, deadline) = registry.getBountyDetails(bountyId);
+    }
+
+    // ============ fundIssue Deadline ============
+
+    function test_FundIssue_StoresDeadline() public {
+        uint256 deadline = block.timestamp + 14 days;
+        _fund(deadline);
+
+        assertEq(_deadline(), deadline);
+    }
+
+    function test_FundIssue_AcceptsBounds() public {
+        _fund(block.timestamp + registry.minBountyDuration());
+        assertEq(_deadline(), block.timestamp + 7 days);
+
+        vm.prank(issuer);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, "43", block.timestamp + 365 days);
+    }
+
+    function test_FundIssue_RevertWhen_DeadlineTooSoon() public {
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidDeadline.selector);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 7 days - 1);
+    }
+
+    function test_FundIssue_RevertWhen_DeadlineTooLate() public {
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidDeadline.selector);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 365 days + 1);
+    }
+
+    function test_FundIssue_RevertWhen_DeadlineInPast() public {
+        vm.warp(30 days);
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidDeadline.selector);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp - 1);
+    }
+
+    // ============ Refunds ============
+
+    function test_SeepFunds_AfterShortDeadline() public {
+        uint256 deadline = block.timestamp + 14 days;
+        _fund(deadline);
+
+        vm.warp(deadline);
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.TimelockNotExpired.selector);
+        registry.seepFunds(bountyId);
+
+        vm.warp(deadline + 1);
+        vm.prank(issuer);
+        registry.seepFunds(bountyId);
+
+        assertEq(usdc.balanceOf(issuer), BOUNTY_AMOUNT * 10);
+    }
+
+    function test_SeepFunds_RevertWhen_BeforeLongDeadline() public {
+        _fund(block.timestamp + 300 days);
+
+        // Past the old fixed 180 day timelock
+        vm.warp(block.timestamp + 181 days);
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.TimelockNotExpired.selector);
+        registry.seepFunds(bountyId);
+    }
+
+    // ============ Owner Bounds ============
+
+    function test_SetBountyDurationBounds() public {
+        vm.expectEmit(false, false, false, true);
+        emit BountyDurationBoundsUpdated(1 days, 30 days);
+
+        vm.prank(owner);
+        registry.setBountyDurationBounds(1 days, 30 days);
+
+        assertEq(registry.minBountyDuration(), 1 days);
+        assertEq(registry.maxBountyDuration(), 30 days);
+
+        _fund(block.timestamp + 1 days);
+        assertEq(_deadline(), block.timestamp + 1 days);
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidDeadline.selector);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, "43", block.timestamp + 31 days);
+    }
+
+    function test_SetBountyDurationBounds_KeepsExistingDeadlines() public {
+        uint256 deadline = block.timestamp + 200 days;
+        _fund(deadline);
+
+        vm.prank(owner);
+        registry.setBountyDurationBounds(1 days, 30 days);
+
+        assertEq(_deadline(), deadline);
+    }
+
+    function test_SetBountyDurationBounds_RevertWhen_NotOwner() public {
+        vm.prank(attacker);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, attacker));
+        registry.setBountyDurationBounds(1 days, 30 days);
+    }
+
+    function test_SetBountyDurationBounds_RevertWhen_MinAboveMax() public {
+        vm.prank(owner);
+        vm.expectRevert(BountyRegistry.InvalidDeadline.selector);
+        registry.setBountyDurationBounds(30 days, 1 days);
+    }
+}
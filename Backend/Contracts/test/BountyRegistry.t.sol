@@ -21,16 +21,22 @@ contract MockOracle {
     bytes32 public lastRequestId;
     bytes32 public lastBountyId;
     address public lastClaimer;
+    string public lastClaimerArg;
+    string public lastUsernameArg;
+    string public lastGistArg;
     
     function verifyContribution(
         bytes32 bountyID,
         address claimer,
-        string[] calldata,
+        string[] calldata args,
         uint8,
         uint64
     ) external returns (bytes32 requestId) {
         lastBountyId = bountyID;
         lastClaimer = claimer;
+        lastClaimerArg = args[4];
+        lastUsernameArg = args[5];
+        lastGistArg = args[6];
         requestId = keccak256(abi.encodePacked(bountyID, claimer, block.timestamp));
         lastRequestId = requestId;
         return requestId;
@@ -52,6 +58,8 @@ contract BountyRegistryTest is Test {
     string public constant REPO_NAME = "MergeMint";
     string public constant ISSUE_NUMBER = "101";
     string public constant PR_NUMBER = "42";
+    string public constant GITHUB_USERNAME = "bountyHunter69";
+    string public constant GIST_ID = "a1b2c3";
     
     bytes32 public bountyId;
     
@@ -62,7 +70,8 @@ contract BountyRegistryTest is Test {
         string issueNumber,
         address indexed issuer,
         address token,
-        uint256 amount
+        uint256 amount,
+        uint256 deadline
     );
     
     event ClaimSubmitted(
@@ -90,6 +99,8 @@ contract BountyRegistryTest is Test {
         uint256 amount
     );
     
+    event GitHubLinked(address indexed account, string username, string gistId);
+    
     function setUp() public {
         vm.startPrank(owner);
         
@@ -97,6 +108,7 @@ contract BountyRegistryTest is Test {
         oracle = new MockOracle();
         registry = new BountyRegistry(address(oracle));
         token = new MockERC20();
+        registry.setTokenAllowed(address(token), true);
         
         // Setup test accounts
         token.mint(issuer, BOUNTY_AMOUNT * 10);
@@ -104,6 +116,12 @@ contract BountyRegistryTest is Test {
         
         vm.stopPrank();
         
+        // Claimers need a linked GitHub account
+        vm.prank(claimer);
+        registry.linkGitHub(GITHUB_USERNAME, GIST_ID);
+        vm.prank(attacker);
+        registry.linkGitHub("mallory", "d4e5f6");
+        
         // Compute expected bounty ID
         bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
     }
@@ -115,9 +133,11 @@ contract BountyRegistryTest is Test {
         token.approve(address(registry), BOUNTY_AMOUNT);
         
         vm.expectEmit(true, true, true, true);
-        emit BountyCreated(bountyId, REPO_OWNER, REPO_NAME, ISSUE_NUMBER, issuer, address(token), BOUNTY_AMOUNT);
+        emit BountyCreated(
+            bountyId, REPO_OWNER, REPO_NAME, ISSUE_NUMBER, issuer, address(token), BOUNTY_AMOUNT, block.timestamp + 180 days
+        );
         
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Verify bounty details
@@ -128,7 +148,8 @@ contract BountyRegistryTest is Test {
             BountyRegistry.BountyStatus status,
             uint256 creationTime,
             string memory prClaimer,
-            bytes32 activeRequestId
+            bytes32 activeRequestId,
+            uint256 deadline
         ) = registry.getBountyDetails(bountyId);
         
         assertEq(storedIssuer, issuer);
@@ -138,6 +159,7 @@ contract BountyRegistryTest is Test {
         assertEq(creationTime, block.timestamp);
         assertEq(prClaimer, "");
         assertEq(activeRequestId, bytes32(0));
+        assertEq(deadline, block.timestamp + 180 days);
         
         // Verify token transfer
         assertEq(token.balanceOf(address(registry)), BOUNTY_AMOUNT);
@@ -149,7 +171,7 @@ contract BountyRegistryTest is Test {
         token.approve(address(registry), BOUNTY_AMOUNT);
         
         vm.expectRevert(BountyRegistry.InvalidAmount.selector);
-        registry.fundIssue(0, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(0, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         
         vm.stopPrank();
     }
@@ -158,7 +180,7 @@ contract BountyRegistryTest is Test {
         vm.startPrank(issuer);
         
         vm.expectRevert(BountyRegistry.InvalidAmount.selector);
-        registry.fundIssue(BOUNTY_AMOUNT, address(0), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(0), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         
         vm.stopPrank();
     }
@@ -167,10 +189,10 @@ contract BountyRegistryTest is Test {
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT * 2);
         
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         
         vm.expectRevert(BountyRegistry.BountyExists.selector);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         
         vm.stopPrank();
     }
@@ -179,7 +201,7 @@ contract BountyRegistryTest is Test {
         vm.startPrank(issuer);
         
         vm.expectRevert();
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         
         vm.stopPrank();
     }
@@ -196,7 +218,7 @@ contract BountyRegistryTest is Test {
         // First fund the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Update DON secrets
@@ -213,7 +235,7 @@ contract BountyRegistryTest is Test {
         vm.stopPrank();
         
         // Verify status changed
-        (, , , BountyRegistry.BountyStatus status, , , bytes32 activeRequestId) = registry.getBountyDetails(bountyId);
+        (, , , BountyRegistry.BountyStatus status, , , bytes32 activeRequestId, ) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
         assertTrue(activeRequestId != bytes32(0));
         
@@ -235,7 +257,7 @@ contract BountyRegistryTest is Test {
         // Fund and claim bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         vm.prank(owner);
@@ -251,13 +273,101 @@ contract BountyRegistryTest is Test {
         vm.stopPrank();
     }
     
+    function test_ClaimBounty_RevertWhen_GitHubNotLinked() public {
+        vm.startPrank(issuer);
+        token.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+        vm.stopPrank();
+        
+        vm.prank(claimer);
+        registry.unlinkGitHub();
+        
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.GitHubNotLinked.selector);
+        registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+    
+    function test_ClaimBounty_SendsLinkedIdentityToOracle() public {
+        vm.startPrank(issuer);
+        token.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+        vm.stopPrank();
+        
+        vm.prank(claimer);
+        registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        
+        // The oracle script compares these against the PR author and the gist
+        assertEq(oracle.lastClaimerArg(), "0x0000000000000000000000000000000000000003");
+        assertEq(oracle.lastUsernameArg(), GITHUB_USERNAME);
+        assertEq(oracle.lastGistArg(), GIST_ID);
+    }
+
+    function test_ClaimBounty_RevertWhen_OtherIssue() public {
+        vm.startPrank(issuer);
+        token.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+        vm.stopPrank();
+
+        // A PR the claimer authored in their own repo must not pay out this bounty
+        vm.startPrank(claimer);
+        vm.expectRevert(BountyRegistry.BountyMismatch.selector);
+        registry.claimBounty(bountyId, PR_NUMBER, GITHUB_USERNAME, "my-repo", "1");
+
+        vm.expectRevert(BountyRegistry.BountyMismatch.selector);
+        registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, "999");
+        vm.stopPrank();
+    }
+    
+    // ============ GitHub Identity Tests ============
+    
+    function test_LinkGitHub_StoresIdentity() public {
+        address newcomer = address(5);
+        
+        vm.expectEmit(true, false, false, true);
+        emit GitHubLinked(newcomer, "newcomer", "gist123");
+        
+        vm.prank(newcomer);
+        registry.linkGitHub("newcomer", "gist123");
+        
+        (string memory username, string memory gistId) = registry.githubIdentities(newcomer);
+        assertEq(username, "newcomer");
+        assertEq(gistId, "gist123");
+    }
+    
+    function test_LinkGitHub_ReplacesEarlierLink() public {
+        vm.prank(claimer);
+        registry.linkGitHub("renamed", "gist456");
+        
+        (string memory username, string memory gistId) = registry.githubIdentities(claimer);
+        assertEq(username, "renamed");
+        assertEq(gistId, "gist456");
+    }
+    
+    function test_LinkGitHub_RevertWhen_Empty() public {
+        vm.startPrank(claimer);
+        vm.expectRevert(BountyRegistry.InvalidIdentity.selector);
+        registry.linkGitHub("", GIST_ID);
+        vm.expectRevert(BountyRegistry.InvalidIdentity.selector);
+        registry.linkGitHub(GITHUB_USERNAME, "");
+        vm.stopPrank();
+    }
+    
+    function test_UnlinkGitHub_ClearsIdentity() public {
+        vm.prank(claimer);
+        registry.unlinkGitHub();
+        
+        (string memory username, string memory gistId) = registry.githubIdentities(claimer);
+        assertEq(bytes(username).length, 0);
+        assertEq(bytes(gistId).length, 0);
+    }
+    
     // ============ completeBountyPayout Tests ============
     
     function test_CompleteBountyPayout_Success() public {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Claim bounty
@@ -269,6 +379,7 @@ contract BountyRegistryTest is Test {
         
         // Complete payout (as oracle)
         uint256 claimerBalanceBefore = token.balanceOf(claimer);
+        bytes32 requestId = oracle.lastRequestId();
         
         vm.startPrank(address(oracle));
         
@@ -278,7 +389,7 @@ contract BountyRegistryTest is Test {
         vm.expectEmit(true, true, false, true);
         emit BountyPaid(bountyId, claimer, BOUNTY_AMOUNT, "bountyHunter69");
         
-        registry.completeBountyPayout(bountyId, "bountyHunter69", claimer);
+        registry.completeBountyPayout(bountyId, requestId, "bountyHunter69", claimer);
         vm.stopPrank();
         
         // Verify payout
@@ -290,7 +401,7 @@ contract BountyRegistryTest is Test {
         // Fund and claim bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         vm.prank(owner);
@@ -300,9 +411,10 @@ contract BountyRegistryTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         
         // Try to complete payout as attacker
+        bytes32 requestId = oracle.lastRequestId();
         vm.startPrank(attacker);
         vm.expectRevert(BountyRegistry.Unauthorised.selector);
-        registry.completeBountyPayout(bountyId, "attacker", attacker);
+        registry.completeBountyPayout(bountyId, requestId, "attacker", attacker);
         vm.stopPrank();
     }
     
@@ -310,13 +422,13 @@ contract BountyRegistryTest is Test {
         // Fund bounty but don't claim
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Try to complete payout without claim
         vm.startPrank(address(oracle));
         vm.expectRevert(BountyRegistry.InvalidStatus.selector);
-        registry.completeBountyPayout(bountyId, "bountyHunter69", claimer);
+        registry.completeBountyPayout(bountyId, bytes32(0), "bountyHunter69", claimer);
         vm.stopPrank();
     }
     
@@ -326,7 +438,7 @@ contract BountyRegistryTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         uint256 issuerBalanceBefore = token.balanceOf(issuer);
@@ -354,7 +466,7 @@ contract BountyRegistryTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Try to refund immediately
@@ -368,7 +480,7 @@ contract BountyRegistryTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Fast forward time
@@ -385,7 +497,7 @@ contract BountyRegistryTest is Test {
         // Fund and claim bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         vm.prank(owner);
@@ -445,9 +557,9 @@ contract BountyRegistryTest is Test {
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT * 3);
         
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "101");
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "102");
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "103");
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "101", block.timestamp + 180 days);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "102", block.timestamp + 180 days);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "103", block.timestamp + 180 days);
         
         vm.stopPrank();
         
@@ -457,18 +569,20 @@ contract BountyRegistryTest is Test {
     function test_DifferentTokens_SameBounty() public {
         MockERC20 token2 = new MockERC20();
         token2.mint(issuer, BOUNTY_AMOUNT);
+        vm.prank(owner);
+        registry.setTokenAllowed(address(token2), true);
         
         // Fund with first token
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Cannot fund same bounty with different token
         vm.startPrank(issuer);
         token2.approve(address(registry), BOUNTY_AMOUNT);
         vm.expectRevert(BountyRegistry.BountyExists.selector);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token2), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token2), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
     }
     
@@ -479,11 +593,11 @@ contract BountyRegistryTest is Test {
         
         vm.startPrank(issuer);
         token.approve(address(registry), amount);
-        registry.fundIssue(amount, address(token), REPO_OWNER, REPO_NAME, "999");
+        registry.fundIssue(amount, address(token), REPO_OWNER, REPO_NAME, "999", block.timestamp + 180 days);
         vm.stopPrank();
         
         bytes32 testBountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, "999");
-        (, , uint256 storedAmount, , , , ) = registry.getBountyDetails(testBountyId);
+        (, , uint256 storedAmount, , , , , ) = registry.getBountyDetails(testBountyId);
         
         assertEq(storedAmount, amount);
     }
@@ -37,7 +37,11 @@ contract MockOracleForRejection {
     
     // Simulate failed verification
     function rejectClaim(bytes32 bountyId) external {
-        registry.rejectBountyClaim(bountyId);
+        registry.rejectBountyClaim(bountyId, _activeRequest(bountyId), BountyRegistry.RejectionReason.NOT_MERGED);
+    }
+
+    function rejectClaimWithReason(bytes32 bountyId, BountyRegistry.RejectionReason reason) external {
+        registry.rejectBountyClaim(bountyId, _activeRequest(bountyId), reason);
     }
     
     // Simulate successful verification
@@ -46,7 +50,12 @@ contract MockOracleForRejection {
         string memory githubUsername,
         address receiver
     ) external {
-        registry.completeBountyPayout(bountyId, githubUsername, receiver);
+        registry.completeBountyPayout(bountyId, _activeRequest(bountyId), githubUsername, receiver);
+    }
+
+    // Answers the request the bounty is waiting on
+    function _activeRequest(bytes32 bountyId) internal view returns (bytes32 requestId) {
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
     }
 }
 
@@ -73,6 +82,12 @@ contract BountyRejectionTest is Test {
         bytes32 indexed bountyID,
         BountyRegistry.BountyStatus newStatus
     );
+
+    event ClaimRejected(
+        bytes32 indexed bountyID,
+        bytes32 indexed requestID,
+        BountyRegistry.RejectionReason reason
+    );
     
     function setUp() public {
         vm.startPrank(owner);
@@ -83,6 +98,7 @@ contract BountyRejectionTest is Test {
         registry.updateOracle(address(oracle));
         
         token = new MockERC20();
+        registry.setTokenAllowed(address(token), true);
         
         // Setup test accounts
         token.mint(issuer, BOUNTY_AMOUNT * 10);
@@ -91,6 +107,12 @@ contract BountyRejectionTest is Test {
         
         vm.stopPrank();
         
+        // Claimers need a linked GitHub account
+        vm.prank(claimer1);
+        registry.linkGitHub("claimer1", "gist1");
+        vm.prank(claimer2);
+        registry.linkGitHub("claimer2", "gist2");
+        
         // Compute expected bounty ID
         bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
     }
@@ -101,11 +123,11 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Verify bounty is OPEN
-        (,,,BountyRegistry.BountyStatus status,,,) = registry.getBountyDetails(bountyId);
+        (,,,BountyRegistry.BountyStatus status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
         
         // Step 2: Claimer submits a claim
@@ -114,11 +136,11 @@ contract BountyRejectionTest is Test {
         vm.stopPrank();
         
         // Verify bounty is now VERIFYING
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
         
         // Get the activeRequestId separately
-        (,,,,, , bytes32 activeRequestId) = registry.getBountyDetails(bountyId);
+        (,,,,, , bytes32 activeRequestId,) = registry.getBountyDetails(bountyId);
         assertNotEq(activeRequestId, bytes32(0));
         
         // Step 3: Oracle rejects the claim (verification failed)
@@ -131,11 +153,11 @@ contract BountyRejectionTest is Test {
         vm.stopPrank();
         
         // Verify bounty is back to OPEN
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
         
         // Get the activeRequestId separately
-        (,,,,, , activeRequestId) = registry.getBountyDetails(bountyId);
+        (,,,,, , activeRequestId,) = registry.getBountyDetails(bountyId);
         assertEq(activeRequestId, bytes32(0));
     }
     
@@ -145,7 +167,7 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Step 2: First claim attempt
@@ -153,7 +175,7 @@ contract BountyRejectionTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER_1, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         vm.stopPrank();
         
-        (,,,BountyRegistry.BountyStatus status,,,) = registry.getBountyDetails(bountyId);
+        (,,,BountyRegistry.BountyStatus status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
         
         // Step 3: Oracle rejects the first claim
@@ -161,7 +183,7 @@ contract BountyRejectionTest is Test {
         oracle.rejectClaim(bountyId);
         vm.stopPrank();
         
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
         
         // Step 4: Second claim attempt by different claimer
@@ -169,7 +191,7 @@ contract BountyRejectionTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER_2, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         vm.stopPrank();
         
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
     }
     
@@ -179,7 +201,7 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         uint256 oracleBalanceBefore = token.balanceOf(address(oracle));
@@ -205,7 +227,7 @@ contract BountyRejectionTest is Test {
         vm.stopPrank();
         
         // Verify bounty is now PAID
-        (,,,BountyRegistry.BountyStatus status,,string memory prClaimer,) = registry.getBountyDetails(bountyId);
+        (,,,BountyRegistry.BountyStatus status,,string memory prClaimer,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.PAID));
         assertEq(keccak256(abi.encodePacked(prClaimer)), keccak256(abi.encodePacked("claimer2_github_username")));
         
@@ -216,11 +238,28 @@ contract BountyRejectionTest is Test {
     
     // ============ Test: Authorization & Error Cases ============
     
+    function test_RejectBountyClaim_EmitsReason() public {
+        vm.startPrank(issuer);
+        token.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+        vm.stopPrank();
+
+        vm.prank(claimer1);
+        registry.claimBounty(bountyId, PR_NUMBER_1, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, bytes32 activeRequestId,) = registry.getBountyDetails(bountyId);
+
+        // The event names the request that failed, before it is cleared
+        vm.expectEmit(true, true, false, true);
+        emit ClaimRejected(bountyId, activeRequestId, BountyRegistry.RejectionReason.AUTHOR_MISMATCH);
+
+        oracle.rejectClaimWithReason(bountyId, BountyRegistry.RejectionReason.AUTHOR_MISMATCH);
+    }
+
     function test_RejectBountyClaim_RevertWhen_NotOracle() public {
         // Step 1: Fund and claim the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         vm.startPrank(claimer1);
@@ -230,7 +269,7 @@ contract BountyRejectionTest is Test {
         // Step 2: Attempt rejection from non-oracle address
         vm.startPrank(address(999)); // Random address
         vm.expectRevert(BountyRegistry.Unauthorised.selector);
-        registry.rejectBountyClaim(bountyId);
+        registry.rejectBountyClaim(bountyId, bytes32(0), BountyRegistry.RejectionReason.NOT_MERGED);
         vm.stopPrank();
     }
     
@@ -238,7 +277,7 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund the bounty (state is OPEN)
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Step 2: Try to reject while bounty is OPEN
@@ -252,7 +291,7 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Step 2: Claim bounty
@@ -262,7 +301,7 @@ contract BountyRejectionTest is Test {
         
         // Verify activeRequestId is set
         bytes32 activeRequestId;
-        (,,,,,, activeRequestId) = registry.getBountyDetails(bountyId);
+        (,,,,,, activeRequestId,) = registry.getBountyDetails(bountyId);
         assertNotEq(activeRequestId, bytes32(0));
         
         // Step 3: Oracle rejects the claim
@@ -271,7 +310,7 @@ contract BountyRejectionTest is Test {
         vm.stopPrank();
         
         // Verify activeRequestId is cleared
-        (,,,,,, activeRequestId) = registry.getBountyDetails(bountyId);
+        (,,,,,, activeRequestId,) = registry.getBountyDetails(bountyId);
         assertEq(activeRequestId, bytes32(0));
     }
     
@@ -281,10 +320,10 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund bounty (OPEN)
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
-        (,,,BountyRegistry.BountyStatus status,,,) = registry.getBountyDetails(bountyId);
+        (,,,BountyRegistry.BountyStatus status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
         
         // Step 2: Claim bounty (VERIFYING)
@@ -292,7 +331,7 @@ contract BountyRejectionTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER_1, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         vm.stopPrank();
         
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
         
         // Step 3: Reject claim (back to OPEN)
@@ -300,7 +339,7 @@ contract BountyRejectionTest is Test {
         oracle.rejectClaim(bountyId);
         vm.stopPrank();
         
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
         
         // Step 4: Claim bounty again (VERIFYING)
@@ -308,7 +347,7 @@ contract BountyRejectionTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER_2, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         vm.stopPrank();
         
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
         
         // Step 5: Complete payout (PAID)
@@ -316,7 +355,7 @@ contract BountyRejectionTest is Test {
         oracle.completePayout(bountyId, "claimer2", claimer2);
         vm.stopPrank();
         
-        (,,,status,,,) = registry.getBountyDetails(bountyId);
+        (,,,status,,,,) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.PAID));
     }
     
@@ -329,7 +368,7 @@ contract BountyRejectionTest is Test {
         // Step 1: Fund the bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         registryBalanceBefore = token.balanceOf(address(registry));
@@ -0,0 +1,353 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "../src/mocks/MockOracle.sol";
+import "../src/mocks/MockUSDC.sol";
+
+// A contract wallet that refuses native transfers until told otherwise
+contract BondClaimer {
+    BountyRegistry public registry;
+    bool public accepting;
+
+    constructor(BountyRegistry _registry) {
+        registry = _registry;
+    }
+
+    function link(string calldata username) external {
+        registry.linkGitHub(username, "gist");
+    }
+
+    function claim(bytes32 bountyId, string calldata owner, string calldata repo, string calldata issue) external payable {
+        registry.claimBounty{value: msg.value}(bountyId, "7", owner, repo, issue);
+    }
+
+    function withdraw() external {
+        registry.withdrawBond();
+    }
+
+    function setAccepting(bool _accepting) external {
+        accepting = _accepting;
+    }
+
+    receive() external payable {
+        require(accepting);
+    }
+}
+
+contract ClaimBondTest is Test {
+    BountyRegistry public registry;
+    MockOracle public oracle;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public fulfiller = address(2);
+    address public issuer = address(3);
+    address public claimer = address(4);
+    address public claimer2 = address(5);
+    address public funder = address(6);
+
+    string public constant REPO_OWNER = "vihaan1016";
+    string public constant REPO_NAME = "MergeMint";
+    string public constant ISSUE_NUMBER = "42";
+    uint256 public constant BOUNTY_AMOUNT = 100 * 10**6;
+    uint256 public constant BOND = 0.01 ether;
+
+    bytes32 public bountyId;
+
+    event ClaimBondUpdated(uint256 bond, address subscriptionFunder);
+    event ClaimCooldownUpdated(uint256 cooldown);
+    event ClaimBondReturned(bytes32 indexed bountyID, address indexed claimer, uint256 amount);
+    event ClaimBondForfeited(bytes32 indexed bountyID, address indexed claimer, uint256 amount);
+
+    function setUp() public {
+        vm.startPrank(owner);
+        usdc = new MockUSDC();
+        oracle = new MockOracle(address(0), fulfiller);
+        registry = new BountyRegistry(address(oracle));
+        oracle.updateBountyRegistry(address(registry));
+        registry.setTokenAllowed(address(usdc), true);
+        registry.setClaimBond(BOND, funder);
+        usdc.mint(issuer, BOUNTY_AMOUNT);
+        vm.stopPrank();
+
+        vm.startPrank(issuer);
+        usdc.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 14 days);
+        vm.stopPrank();
+
+        vm.prank(claimer);
+        registry.linkGitHub("bountyHunter69", "a1b2c3");
+        vm.prank(claimer2);
+        registry.linkGitHub("coder2", "d4e5f6");
+        vm.deal(claimer, 1 ether);
+        vm.deal(claimer2, 1 ether);
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function _claim(address who) internal returns (bytes32 requestId) {
+        vm.prank(who);
+        registry.claimBounty{value: BOND}(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
+    }
+
+    function _reject(bytes32 requestId, BountyRegistry.RejectionReason reason) internal {
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(false, "bountyHunter69", uint8(reason)), "");
+    }
+
+    function _status() internal view returns (BountyRegistry.BountyStatus status) {
+        (,,, status,,,,) = registry.getBountyDetails(bountyId);
+    }
+
+    // ============ Posting the Bond ============
+
+    function test_ClaimBounty_HoldsBond() public {
+        _claim(claimer);
+
+        (address bondClaimer, uint96 amount) = registry.claimBonds(bountyId);
+        assertEq(bondClaimer, claimer);
+        assertEq(amount, BOND);
+        assertEq(address(registry).balance, BOND);
+        assertEq(claimer.balance, 1 ether - BOND);
+    }
+
+    function test_ClaimBounty_RevertWhen_NoBond() public {
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.InvalidBond.selector);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function test_ClaimBounty_RevertWhen_WrongBond() public {
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.InvalidBond.selector);
+        registry.claimBounty{value: BOND * 2}(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function _expectInvalidPullRequest(string memory prNumber) internal {
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.InvalidPullRequest.selector);
+        registry.claimBounty{value: BOND}(bountyId, prNumber, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    // A PR number the oracle can't look up would come back as a no-fault error
+    function test_ClaimBounty_RevertWhen_InvalidPullRequest() public {
+        _expectInvalidPullRequest("");
+        _expectInvalidPullRequest("abc");
+        _expectInvalidPullRequest("07");
+        _expectInvalidPullRequest("7 ");
+        _expectInvalidPullRequest("1234567890");
+        // Only a split claim lists several
+        _expectInvalidPullRequest("7,8");
+
+        _claim(claimer);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+    }
+
+    function _approveSplit() internal {
+        address[] memory recipients = new address[](2);
+        recipients[0] = claimer;
+        recipients[1] = claimer2;
+        uint16[] memory shares = new uint16[](2);
+        shares[0] = 5000;
+        shares[1] = 5000;
+        vm.prank(issuer);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, recipients, shares);
+    }
+
+    function test_ClaimBounty_Split_RevertWhen_InvalidPullRequests() public {
+        _approveSplit();
+
+        _expectInvalidPullRequest("7,x");
+        _expectInvalidPullRequest("7,,8");
+        _expectInvalidPullRequest("7,");
+        _expectInvalidPullRequest(",7");
+        _expectInvalidPullRequest("7, 8");
+
+        vm.prank(claimer);
+        registry.claimBounty{value: BOND}(bountyId, "7,8", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+    }
+
+    // The oracle would reject a longer list as PR_NOT_FOUND and take the bond
+    function test_ClaimBounty_Split_RevertWhen_TooManyPullRequests() public {
+        _approveSplit();
+
+        _expectInvalidPullRequest("1,2,3,4,5,6,7,8,9,10,11");
+
+        vm.prank(claimer);
+        registry.claimBounty{value: BOND}(bountyId, "1,2,3,4,5,6,7,8,9,10", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+    }
+
+    // ============ Settlement ============
+
+    function test_Payout_ReturnsBond() public {
+        bytes32 requestId = _claim(claimer);
+
+        vm.expectEmit(true, true, false, true);
+        emit ClaimBondReturned(bountyId, claimer, BOND);
+
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(true, "bountyHunter69", uint8(0)), "");
+
+        assertEq(claimer.balance, 1 ether);
+        assertEq(address(registry).balance, 0);
+        assertEq(registry.claimCooldownUntil(claimer), 0);
+    }
+
+    function test_Rejection_ForfeitsBondToFunder() public {
+        bytes32 requestId = _claim(claimer);
+
+        vm.expectEmit(true, true, false, true);
+        emit ClaimBondForfeited(bountyId, claimer, BOND);
+
+        _reject(requestId, BountyRegistry.RejectionReason.AUTHOR_MISMATCH);
+
+        assertEq(funder.balance, BOND);
+        assertEq(claimer.balance, 1 ether - BOND);
+        assertEq(address(registry).balance, 0);
+        assertEq(registry.claimCooldownUntil(claimer), block.timestamp + 1 days);
+    }
+
+    function test_NoFaultRejection_ReturnsBond() public {
+        bytes32 requestId = _claim(claimer);
+        _reject(requestId, BountyRegistry.RejectionReason.GITHUB_API_ERROR);
+
+        assertEq(claimer.balance, 1 ether);
+        assertEq(funder.balance, 0);
+        assertEq(registry.claimCooldownUntil(claimer), 0);
+
+        requestId = _claim(claimer);
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, "", "TypeError: boom");
+
+        assertEq(claimer.balance, 1 ether);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+    }
+
+    function test_Timeout_ReturnsBond() public {
+        _claim(claimer);
+        vm.warp(block.timestamp + registry.verificationTimeout() + 1);
+        registry.resetVerification(bountyId);
+
+        assertEq(claimer.balance, 1 ether);
+        assertEq(registry.claimCooldownUntil(claimer), 0);
+    }
+
+    // ============ Cooldown ============
+
+    function test_Cooldown_BlocksReclaim() public {
+        bytes32 requestId = _claim(claimer);
+        _reject(requestId, BountyRegistry.RejectionReason.NOT_MERGED);
+
+        vm.warp(block.timestamp + 1 days - 1);
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.ClaimCooldownActive.selector);
+        registry.claimBounty{value: BOND}(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+
+        // Others can still claim
+        _claim(claimer2);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+    }
+
+    function test_Cooldown_AllowsReclaimAfterwards() public {
+        bytes32 requestId = _claim(claimer);
+        _reject(requestId, BountyRegistry.RejectionReason.NOT_MERGED);
+
+        vm.warp(block.timestamp + 1 days);
+        _claim(claimer);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+    }
+
+    function test_Cooldown_AppliesWithoutBond() public {
+        vm.prank(owner);
+        registry.setClaimBond(0, funder);
+
+        vm.prank(claimer);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, bytes32 requestId,) = registry.getBountyDetails(bountyId);
+        _reject(requestId, BountyRegistry.RejectionReason.NOT_MERGED);
+
+        assertEq(funder.balance, 0);
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.ClaimCooldownActive.selector);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    // ============ Unclaimed Bonds ============
+
+    function test_FailedReturn_CreditsUnclaimedBond() public {
+        BondClaimer wallet = new BondClaimer(registry);
+        wallet.link("walletUser");
+        wallet.claim{value: BOND}(bountyId, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, bytes32 requestId,) = registry.getBountyDetails(bountyId);
+
+        // The payout still goes through
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(true, "walletUser", uint8(0)), "");
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.PAID));
+        assertEq(usdc.balanceOf(address(wallet)), BOUNTY_AMOUNT);
+        assertEq(registry.unclaimedBonds(address(wallet)), BOND);
+
+        vm.expectRevert(BountyRegistry.BondTransferFailed.selector);
+        wallet.withdraw();
+
+        wallet.setAccepting(true);
+        wallet.withdraw();
+        assertEq(address(wallet).balance, BOND);
+        assertEq(registry.unclaimedBonds(address(wallet)), 0);
+    }
+
+    function test_WithdrawBond_RevertWhen_Nothing() public {
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.InvalidAmount.selector);
+        registry.withdrawBond();
+    }
+
+    // ============ Owner Settings ============
+
+    function test_SetClaimBond() public {
+        vm.expectEmit(false, false, false, true);
+        emit ClaimBondUpdated(0.05 ether, claimer2);
+
+        vm.prank(owner);
+        registry.setClaimBond(0.05 ether, claimer2);
+
+        assertEq(registry.claimBond(), 0.05 ether);
+        assertEq(registry.subscriptionFunder(), claimer2);
+    }
+
+    function test_SetClaimBond_RevertWhen_InvalidFunder() public {
+        vm.prank(owner);
+        vm.expectRevert(BountyRegistry.InvalidBond.selector);
+        registry.setClaimBond(BOND, address(0));
+    }
+
+    function test_SetClaimBond_RevertWhen_NotOwner() public {
+        vm.prank(claimer);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, claimer));
+        registry.setClaimBond(0, claimer);
+    }
+
+    function test_SetClaimCooldown() public {
+        vm.expectEmit(false, false, false, true);
+        emit ClaimCooldownUpdated(1 hours);
+
+        vm.prank(owner);
+        registry.setClaimCooldown(1 hours);
+
+        bytes32 requestId = _claim(claimer);
+        _reject(requestId, BountyRegistry.RejectionReason.NOT_MERGED);
+        assertEq(registry.claimCooldownUntil(claimer), block.timestamp + 1 hours);
+    }
+
+    function test_SetClaimCooldown_RevertWhen_NotOwner() public {
+        vm.prank(claimer);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, claimer));
+        registry.setClaimCooldown(0);
+    }
+}
@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "../src/mocks/MockOracle.sol";
+import "../src/mocks/MockUSDC.sol";
+
+contract CrowdfundingTest is Test {
+    BountyRegistry public registry;
+    MockOracle public oracle;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public issuer = address(2);
+    address public funderA = address(3);
+    address public funderB = address(4);
+    address public claimer = address(5);
+    address public outsider = address(6);
+
+    string public constant REPO_OWNER = "vihaan1016";
+    string public constant REPO_NAME = "MergeMint";
+    string public constant ISSUE_NUMBER = "42";
+    uint256 public constant BOUNTY_AMOUNT = 100 * 10**6;
+
+    bytes32 public bountyId;
+
+    event BountyContributed(bytes32 indexed bountyID, address indexed funder, uint256 amount, uint256 totalAmount);
+    event FundsRefunded(bytes32 indexed bountyID, address indexed funder, uint256 amount);
+
+    function setUp() public {
+        vm.startPrank(owner);
+        usdc = new MockUSDC();
+        oracle = new MockOracle(address(0), owner);
+        registry = new BountyRegistry(address(oracle));
+        oracle.updateBountyRegistry(address(registry));
+        registry.setTokenAllowed(address(usdc), true);
+        usdc.mint(issuer, BOUNTY_AMOUNT * 10);
+        usdc.mint(funderA, BOUNTY_AMOUNT * 10);
+        usdc.mint(funderB, BOUNTY_AMOUNT * 10);
+        vm.stopPrank();
+
+        vm.prank(issuer);
+        usdc.approve(address(registry), type(uint256).max);
+        vm.prank(funderA);
+        usdc.approve(address(registry), type(uint256).max);
+        vm.prank(funderB);
+        usdc.approve(address(registry), type(uint256).max);
+
+        vm.prank(claimer);
+        registry.linkGitHub("bountyHunter69", "a1b2c3");
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        vm.prank(issuer);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+    }
+
+    function _amount() internal view returns (uint256 amount) {
+        (,, amount,,,,,) = registry.getBountyDetails(bountyId);
+    }
+
+    function _claim() internal returns (bytes32 requestId) {
+        vm.prank(claimer);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
+    }
+
+    // ============ topUpBounty Tests ============
+
+    function test_TopUp_AddsToAmountAndRecordsContribution() public {
+        vm.expectEmit(true, true, false, true);
+        emit BountyContributed(bountyId, funderA, BOUNTY_AMOUNT / 2, BOUNTY_AMOUNT * 3 / 2);
+
+        vm.prank(funderA);
+        registry.topUpBounty(bountyId, BOUNTY_AMOUNT / 2);
+
+        assertEq(_amount(), BOUNTY_AMOUNT * 3 / 2);
+        assertEq(registry.contributions(bountyId, issuer), BOUNTY_AMOUNT);
+        assertEq(registry.contributions(bountyId, funderA), BOUNTY_AMOUNT / 2);
+        assertEq(usdc.balanceOf(address(registry)), BOUNTY_AMOUNT * 3 / 2);
+    }
+
+    function test_TopUp_ListsEachFunderOnce() public {
+        vm.startPrank(funderA);
+        registry.topUpBounty(bountyId, 10 * 10**6);
+        registry.topUpBounty(bountyId, 15 * 10**6);
+        vm.stopPrank();
+        vm.prank(issuer);
+        registry.topUpBounty(bountyId, 5 * 10**6);
+
+        (address[] memory accounts, uint256[] memory amounts) = registry.getFunders(bountyId);
+        assertEq(accounts.length, 2);
+        assertEq(accounts[0], issuer);
+        assertEq(amounts[0], BOUNTY_AMOUNT + 5 * 10**6);
+        assertEq(accounts[1], funderA);
+        assertEq(amounts[1], 25 * 10**6);
+    }
+
+    function test_TopUp_WhileVerifyingIsPaidOut() public {
+        bytes32 requestId = _claim();
+
+        vm.prank(funderA);
+        registry.topUpBounty(bountyId, BOUNTY_AMOUNT);
+
+        vm.prank(owner);
+        oracle.fulfill(requestId, abi.encode(true, "bountyHunter69", uint8(0)), "");
+
+        assertEq(usdc.balanceOf(claimer), BOUNTY_AMOUNT * 2);
+        assertEq(usdc.balanceOf(address(registry)), 0);
+    }
+
+    function test_TopUp_RevertWhen_ZeroAmount() public {
+        vm.prank(funderA);
+        vm.expectRevert(BountyRegistry.InvalidAmount.selector);
+        registry.topUpBounty(bountyId, 0);
+    }
+
+    function test_TopUp_RevertWhen_NoBounty() public {
+        bytes32 missing = registry.computeBountyID(REPO_OWNER, REPO_NAME, "999");
+
+        vm.prank(funderA);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.topUpBounty(missing, BOUNTY_AMOUNT);
+    }
+
+    function test_TopUp_RevertWhen_Paid() public {
+        bytes32 requestId = _claim();
+        vm.prank(owner);
+        oracle.fulfill(requestId, abi.encode(true, "bountyHunter69", uint8(0)), "");
+
+        vm.prank(funderA);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.topUpBounty(bountyId, BOUNTY_AMOUNT);
+    }
+
+    // ============ Refund Tests ============
+
+    function test_Refund_ReturnsEachFundersShare() public {
+        vm.prank(funderA);
+        registry.topUpBounty(bountyId, 30 * 10**6);
+        vm.prank(funderB);
+        registry.topUpBounty(bountyId, 70 * 10**6);
+
+        vm.warp(block.timestamp + 180 days + 1);
+
+        uint256 issuerBefore = usdc.balanceOf(issuer);
+        uint256 funderABefore = usdc.balanceOf(funderA);
+        uint256 funderBBefore = usdc.balanceOf(funderB);
+
+        vm.expectEmit(true, true, false, true);
+        emit FundsRefunded(bountyId, funderA, 30 * 10**6);
+        vm.prank(funderA);
+        registry.seepFunds(bountyId);
+
+        (,,, BountyRegistry.BountyStatus status,,,,) = registry.getBountyDetails(bountyId);
+        assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.REFUNDED));
+
+        // The others withdraw from the refunded bounty
+        vm.prank(issuer);
+        registry.seepFunds(bountyId);
+        vm.prank(funderB);
+        registry.seepFunds(bountyId);
+
+        assertEq(usdc.balanceOf(issuer) - issuerBefore, BOUNTY_AMOUNT);
+        assertEq(usdc.balanceOf(funderA) - funderABefore, 30 * 10**6);
+        assertEq(usdc.balanceOf(funderB) - funderBBefore, 70 * 10**6);
+        assertEq(usdc.balanceOf(address(registry)), 0);
+    }
+
+    function test_Refund_RevertWhen_AlreadyRefunded() public {
+        vm.prank(funderA);
+        registry.topUpBounty(bountyId, BOUNTY_AMOUNT);
+        vm.warp(block.timestamp + 180 days + 1);
+
+        vm.startPrank(funderA);
+        registry.seepFunds(bountyId);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.seepFunds(bountyId);
+        vm.stopPrank();
+    }
+
+    function test_Refund_RevertWhen_NotFunder() public {
+        vm.warp(block.timestamp + 180 days + 1);
+
+        vm.prank(outsider);
+        vm.expectRevert(BountyRegistry.Unauthorised.selector);
+        registry.seepFunds(bountyId);
+    }
+
+    function test_Refund_RevertWhen_TimelockNotExpired() public {
+        vm.prank(funderA);
+        registry.topUpBounty(bountyId, BOUNTY_AMOUNT);
+
+        vm.prank(funderA);
+        vm.expectRevert(BountyRegistry.TimelockNotExpired.selector);
+        registry.seepFunds(bountyId);
+    }
+
+    function test_Refund_RevertWhen_Paid() public {
+        vm.prank(funderA);
+        registry.topUpBounty(bountyId, BOUNTY_AMOUNT);
+        bytes32 requestId = _claim();
+        vm.prank(owner);
+        oracle.fulfill(requestId, abi.encode(true, "bountyHunter69", uint8(0)), "");
+
+        vm.warp(block.timestamp + 180 days + 1);
+
+        vm.prank(funderA);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.seepFunds(bountyId);
+    }
+}
@@ -0,0 +1,198 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// Minimal EIP-2612 token for testing
+contract MockPermitToken is ERC20 {
+    bytes32 public constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+    bytes32 public immutable DOMAIN_SEPARATOR;
+    mapping(address => uint256) public nonces;
+
+    constructor() ERC20("Permit Token", "PRMT") {
+        DOMAIN_SEPARATOR = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256(bytes("Permit Token")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        require(block.timestamp <= deadline, "PERMIT_EXPIRED");
+        bytes32 digest = keccak256(
+            abi.encodePacked(
+                "\x19\x01",
+                DOMAIN_SEPARATOR,
+                keccak256(abi.encode(PERMIT_TYPEHASH, owner, spender, value, nonces[owner]++, deadline))
+            )
+        );
+        address signer = ecrecover(digest, v, r, s);
+        require(signer != address(0) && signer == owner, "INVALID_SIGNER");
+        _approve(owner, spender, value);
+    }
+}
+
+contract FundWithPermitTest is Test {
+    BountyRegistry public registry;
+    MockPermitToken public token;
+
+    address public owner = address(1);
+    uint256 public issuerKey = 0xA11CE;
+    address public issuer;
+
+    uint256 public constant BOUNTY_AMOUNT = 1000 * 10**6;
+    string public constant REPO_OWNER = "vihaan1016";
+    string public constant REPO_NAME = "MergeMint";
+    string public constant ISSUE_NUMBER = "101";
+
+    bytes32 public bountyId;
+
+    function setUp() public {
+        issuer = vm.addr(issuerKey);
+
+        vm.startPrank(owner);
+        registry = new BountyRegistry(address(0x123));
+        token = new MockPermitToken();
+        registry.setTokenAllowed(address(token), true);
+        token.mint(issuer, BOUNTY_AMOUNT * 10);
+        vm.stopPrank();
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function _signPermit(
+        uint256 key,
+        address spender,
+        uint256 value,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        address signer = vm.addr(key);
+        bytes32 structHash = keccak256(
+            abi.encode(token.PERMIT_TYPEHASH(), signer, spender, value, token.nonces(signer), deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash));
+        return vm.sign(key, digest);
+    }
+
+    function test_FundIssueWithPermit_Success() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(issuerKey, address(registry), BOUNTY_AMOUNT, deadline);
+
+        vm.prank(issuer);
+        registry.fundIssueWithPermit(
+            BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days, deadline, v, r, s
+        );
+
+        (address storedIssuer, , uint256 storedAmount, BountyRegistry.BountyStatus status, , , , ) =
+            registry.getBountyDetails(bountyId);
+        assertEq(storedIssuer, issuer);
+        assertEq(storedAmount, BOUNTY_AMOUNT);
+        assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
+        assertEq(token.balanceOf(address(registry)), BOUNTY_AMOUNT);
+        assertEq(token.allowance(issuer, address(registry)), 0);
+    }
+
+    function test_FundIssueWithPermit_SucceedsWhenPermitFrontRun() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(issuerKey, address(registry), BOUNTY_AMOUNT, deadline);
+
+        // Someone submits the permit from the mempool first
+        token.permit(issuer, address(registry), BOUNTY_AMOUNT, deadline, v, r, s);
+
+        vm.prank(issuer);
+        registry.fundIssueWithPermit(
+            BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days, deadline, v, r, s
+        );
+
+        assertEq(token.balanceOf(address(registry)), BOUNTY_AMOUNT);
+    }
+
+    function test_FundIssueWithPermit_RevertWhen_SignatureInvalid() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        // Signed by someone other than the caller
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(0xB0B, address(registry), BOUNTY_AMOUNT, deadline);
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.PermitFailed.selector);
+        registry.fundIssueWithPermit(
+            BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days, deadline, v, r, s
+        );
+    }
+
+    function test_FundIssueWithPermit_RevertWhen_Expired() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(issuerKey, address(registry), BOUNTY_AMOUNT, deadline);
+
+        vm.warp(deadline + 1);
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.PermitFailed.selector);
+        registry.fundIssueWithPermit(
+            BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days, deadline, v, r, s
+        );
+    }
+
+    function test_FundIssueWithPermit_RevertWhen_TokenNotAllowed() public {
+        vm.prank(owner);
+        registry.setTokenAllowed(address(token), false);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(issuerKey, address(registry), BOUNTY_AMOUNT, deadline);
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.TokenNotAllowed.selector);
+        registry.fundIssueWithPermit(
+            BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days, deadline, v, r, s
+        );
+    }
+
+    function test_TopUpBountyWithPermit_Success() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(issuerKey, address(registry), BOUNTY_AMOUNT, deadline);
+        vm.prank(issuer);
+        registry.fundIssueWithPermit(
+            BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days, deadline, v, r, s
+        );
+
+        uint256 funderKey = 0xF00D;
+        address funder = vm.addr(funderKey);
+        token.mint(funder, BOUNTY_AMOUNT);
+        (v, r, s) = _signPermit(funderKey, address(registry), BOUNTY_AMOUNT, deadline);
+
+        vm.prank(funder);
+        registry.topUpBountyWithPermit(bountyId, BOUNTY_AMOUNT, deadline, v, r, s);
+
+        (, , uint256 storedAmount, , , , , ) = registry.getBountyDetails(bountyId);
+        assertEq(storedAmount, BOUNTY_AMOUNT * 2);
+        assertEq(registry.contributions(bountyId, funder), BOUNTY_AMOUNT);
+        assertEq(token.balanceOf(address(registry)), BOUNTY_AMOUNT * 2);
+    }
+
+    function test_TopUpBountyWithPermit_RevertWhen_NoBounty() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(issuerKey, address(registry), BOUNTY_AMOUNT, deadline);
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.topUpBountyWithPermit(bountyId, BOUNTY_AMOUNT, deadline, v, r, s);
+    }
+}
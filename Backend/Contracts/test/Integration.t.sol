@@ -81,7 +81,8 @@ contract IntegrationTest is Test {
         string issueNumber,
         address indexed issuer,
         address token,
-        uint256 amount
+        uint256 amount,
+        uint256 deadline
     );
     
     event BountyPaid(
@@ -90,6 +91,12 @@ contract IntegrationTest is Test {
         uint256 amount,
         string githubUsername
     );
+
+    event ClaimRejected(
+        bytes32 indexed bountyID,
+        bytes32 indexed requestID,
+        BountyRegistry.RejectionReason reason
+    );
     
     function setUp() public {
         vm.startPrank(owner);
@@ -118,6 +125,7 @@ contract IntegrationTest is Test {
         
         // Setup DON secrets
         registry.updateDONSecrets(1, 100);
+        registry.setTokenAllowed(address(token), true);
         
         // Fund test accounts
         token.mint(issuer, BOUNTY_AMOUNT * 10);
@@ -125,6 +133,12 @@ contract IntegrationTest is Test {
         token.mint(claimer2, 100 * 10**18);
         
         vm.stopPrank();
+        
+        // Claimers need a linked GitHub account
+        vm.prank(claimer1);
+        registry.linkGitHub("bountyHunter69", "gist1");
+        vm.prank(claimer2);
+        registry.linkGitHub("claimer2", "gist2");
     }
     
     // ============ Complete Flow Tests ============
@@ -137,9 +151,11 @@ contract IntegrationTest is Test {
         token.approve(address(registry), BOUNTY_AMOUNT);
         
         vm.expectEmit(true, true, true, true);
-        emit BountyCreated(bountyId, REPO_OWNER, REPO_NAME, ISSUE_NUMBER, issuer, address(token), BOUNTY_AMOUNT);
+        emit BountyCreated(
+            bountyId, REPO_OWNER, REPO_NAME, ISSUE_NUMBER, issuer, address(token), BOUNTY_AMOUNT, block.timestamp + 180 days
+        );
         
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Verify bounty state
@@ -150,6 +166,7 @@ contract IntegrationTest is Test {
             BountyRegistry.BountyStatus status,
             ,
             ,
+            ,
         ) = registry.getBountyDetails(bountyId);
         
         assertEq(storedIssuer, issuer);
@@ -164,13 +181,13 @@ contract IntegrationTest is Test {
         
         // Verify status changed to VERIFYING
         bytes32 requestId;
-        (, , , status, , , requestId) = registry.getBountyDetails(bountyId);
+        (, , , status, , , requestId, ) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.VERIFYING));
         assertTrue(requestId != bytes32(0));
         
         // === STEP 3: Oracle verifies and triggers payout ===
         // Simulate successful verification
-        bytes memory response = abi.encode(true, "bountyHunter69");
+        bytes memory response = abi.encode(true, "bountyHunter69", uint8(0));
         bytes memory err = "";
         
         uint256 claimerBalanceBefore = token.balanceOf(claimer1);
@@ -186,7 +203,7 @@ contract IntegrationTest is Test {
         
         // ✅ FIXED: Status IS now updated correctly (was broken before)
         string memory prClaimer;
-        (, , , status, , prClaimer, ) = registry.getBountyDetails(bountyId);
+        (, , , status, , prClaimer, , ) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.PAID));
         assertEq(prClaimer, "bountyHunter69");
         
@@ -200,7 +217,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Claim bounty
@@ -208,14 +225,18 @@ contract IntegrationTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         
         bytes32 requestId;
-        (, , , , , , requestId) = registry.getBountyDetails(bountyId);
+        (, , , , , , requestId, ) = registry.getBountyDetails(bountyId);
         
         // Simulate failed verification (PR doesn't close the issue)
-        bytes memory response = abi.encode(false, "wrongUser");
+        bytes memory response = abi.encode(false, "wrongUser", uint8(BountyRegistry.RejectionReason.ISSUE_NOT_LINKED));
         bytes memory err = "";
         
         uint256 claimerBalanceBefore = token.balanceOf(claimer1);
         
+        // The oracle passes the DON's reason through to the registry
+        vm.expectEmit(true, true, false, true, address(registry));
+        emit ClaimRejected(bountyId, requestId, BountyRegistry.RejectionReason.ISSUE_NOT_LINKED);
+
         vm.prank(address(router));
         router.fulfillRequest(requestId, response, err);
         
@@ -233,7 +254,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Claim bounty
@@ -241,12 +262,15 @@ contract IntegrationTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         
         bytes32 requestId;
-        (, , , , , , requestId) = registry.getBountyDetails(bountyId);
+        (, , , , , , requestId, ) = registry.getBountyDetails(bountyId);
         
         // Simulate script error (GitHub API down, etc.)
         bytes memory response = "";
         bytes memory err = "GitHub API error";
         
+        vm.expectEmit(true, true, false, true, address(registry));
+        emit ClaimRejected(bountyId, requestId, BountyRegistry.RejectionReason.SCRIPT_ERROR);
+
         vm.prank(address(router));
         router.fulfillRequest(requestId, response, err);
         
@@ -262,7 +286,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         uint256 issuerBalanceBefore = token.balanceOf(issuer);
@@ -279,7 +303,7 @@ contract IntegrationTest is Test {
         assertEq(token.balanceOf(address(registry)), 0);
         
         // Verify status updated
-        (, , , BountyRegistry.BountyStatus status, , , ) = registry.getBountyDetails(bountyId);
+        (, , , BountyRegistry.BountyStatus status, , , , ) = registry.getBountyDetails(bountyId);
         assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.REFUNDED));
         
         // Remove these lines if they exist:
@@ -297,9 +321,9 @@ contract IntegrationTest is Test {
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT * 3);
         
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "101");
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "102");
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "103");
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "101", block.timestamp + 180 days);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "102", block.timestamp + 180 days);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, "103", block.timestamp + 180 days);
         
         vm.stopPrank();
         
@@ -312,9 +336,9 @@ contract IntegrationTest is Test {
         registry.claimBounty(bountyId2, "43", REPO_OWNER, REPO_NAME, "102");
         
         // Verify both are in VERIFYING state
-        (, , , BountyRegistry.BountyStatus status1, , , ) = registry.getBountyDetails(bountyId1);
-        (, , , BountyRegistry.BountyStatus status2, , , ) = registry.getBountyDetails(bountyId2);
-        (, , , BountyRegistry.BountyStatus status3, , , ) = registry.getBountyDetails(bountyId3);
+        (, , , BountyRegistry.BountyStatus status1, , , , ) = registry.getBountyDetails(bountyId1);
+        (, , , BountyRegistry.BountyStatus status2, , , , ) = registry.getBountyDetails(bountyId2);
+        (, , , BountyRegistry.BountyStatus status3, , , , ) = registry.getBountyDetails(bountyId3);
         
         assertEq(uint256(status1), uint256(BountyRegistry.BountyStatus.VERIFYING));
         assertEq(uint256(status2), uint256(BountyRegistry.BountyStatus.VERIFYING));
@@ -327,7 +351,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // First claim succeeds
@@ -358,16 +382,17 @@ contract IntegrationTest is Test {
         // Fund and claim
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         vm.prank(claimer1);
         registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         
         // Hacker tries to complete payout
+        (,,,,,, bytes32 requestId,) = registry.getBountyDetails(bountyId);
         vm.startPrank(hacker);
         vm.expectRevert(BountyRegistry.Unauthorised.selector);
-        registry.completeBountyPayout(bountyId, "hacker", hacker);
+        registry.completeBountyPayout(bountyId, requestId, "hacker", hacker);
         vm.stopPrank();
     }
     
@@ -388,7 +413,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         
         // Try to refund immediately
         vm.expectRevert(BountyRegistry.TimelockNotExpired.selector);
@@ -410,7 +435,7 @@ contract IntegrationTest is Test {
     // Fund bounty
     vm.startPrank(issuer);
     token.approve(address(registry), BOUNTY_AMOUNT);
-    registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
     vm.stopPrank();
     
     // Fast forward
@@ -432,7 +457,7 @@ contract IntegrationTest is Test {
         
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // The fact that this completes without revert indicates protection is working
@@ -450,7 +475,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Fast forward and refund
@@ -474,7 +499,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Fast forward and refund
@@ -495,7 +520,7 @@ contract IntegrationTest is Test {
         // Fund bounty
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         // Claimer1 claims
@@ -503,10 +528,10 @@ contract IntegrationTest is Test {
         registry.claimBounty(bountyId, PR_NUMBER, REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
         
         bytes32 requestId;
-        (, , , , , , requestId) = registry.getBountyDetails(bountyId);
+        (, , , , , , requestId, ) = registry.getBountyDetails(bountyId);
         
         // Verify and payout
-        bytes memory response = abi.encode(true, "bountyHunter69");
+        bytes memory response = abi.encode(true, "bountyHunter69", uint8(0));
         bytes memory err = "";
         
         vm.prank(address(router));
@@ -524,7 +549,7 @@ contract IntegrationTest is Test {
         token.approve(address(registry), BOUNTY_AMOUNT);
         
         uint256 gasStart = gasleft();
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         uint256 gasUsed = gasStart - gasleft();
         
         vm.stopPrank();
@@ -540,7 +565,7 @@ contract IntegrationTest is Test {
         // Fund first
         vm.startPrank(issuer);
         token.approve(address(registry), BOUNTY_AMOUNT);
-        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        registry.fundIssue(BOUNTY_AMOUNT, address(token), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
         vm.stopPrank();
         
         vm.startPrank(claimer1);
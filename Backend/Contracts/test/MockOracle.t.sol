@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "../src/mocks/MockOracle.sol";
+import "../src/mocks/MockUSDC.sol";
+
+contract MockOracleTest is Test {
+    BountyRegistry public registry;
+    MockOracle public oracle;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public fulfiller = address(2);
+    address public issuer = address(3);
+    address public claimer = address(4);
+
+    string public constant REPO_OWNER = "mergemint-devnet";
+    string public constant REPO_NAME = "demo";
+    string public constant ISSUE_NUMBER = "1";
+    uint256 public constant BOUNTY_AMOUNT = 100 * 10**6;
+
+    bytes32 public bountyId;
+
+    event VerificationRequested(bytes32 indexed requestId, string[] args);
+
+    function setUp() public {
+        vm.startPrank(owner);
+        usdc = new MockUSDC();
+        oracle = new MockOracle(address(0), fulfiller);
+        registry = new BountyRegistry(address(oracle));
+        oracle.updateBountyRegistry(address(registry));
+        registry.setTokenAllowed(address(usdc), true);
+        usdc.mint(issuer, BOUNTY_AMOUNT);
+        vm.stopPrank();
+
+        vm.startPrank(issuer);
+        usdc.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+        vm.stopPrank();
+
+        vm.prank(claimer);
+        registry.linkGitHub("alice", "aaaa0001");
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function _claim() internal returns (bytes32 requestId) {
+        vm.prank(claimer);
+        registry.claimBounty(bountyId, "4", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
+    }
+
+    function test_VerifyContribution_EmitsArgsForFulfiller() public {
+        vm.recordLogs();
+        bytes32 requestId = _claim();
+
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        bool found;
+        for (uint256 i = 0; i < logs.length; i++) {
+            if (logs[i].topics[0] != VerificationRequested.selector) continue;
+            found = true;
+            assertEq(logs[i].topics[1], requestId);
+            string[] memory args = abi.decode(logs[i].data, (string[]));
+            assertEq(args.length, 7);
+            assertEq(args[2], "4");
+            assertEq(args[5], "alice");
+            assertEq(args[6], "aaaa0001");
+        }
+        assertTrue(found);
+
+        (bytes32 storedBountyId, address claimant, bool active) = oracle.requests(requestId);
+        assertEq(storedBountyId, bountyId);
+        assertEq(claimant, claimer);
+        assertTrue(active);
+    }
+
+    function test_Fulfill_VerifiedPaysClaimer() public {
+        bytes32 requestId = _claim();
+
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(true, "alice", uint8(0)), "");
+
+        assertEq(usdc.balanceOf(claimer), BOUNTY_AMOUNT);
+        (,,, BountyRegistry.BountyStatus status,, string memory prClaimer,,) = registry.getBountyDetails(bountyId);
+        assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.PAID));
+        assertEq(prClaimer, "alice");
+    }
+
+    function test_Fulfill_RejectedReopensBounty() public {
+        bytes32 requestId = _claim();
+
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(false, "bob", uint8(BountyRegistry.RejectionReason.AUTHOR_MISMATCH)), "");
+
+        assertEq(usdc.balanceOf(claimer), 0);
+        (,,, BountyRegistry.BountyStatus status,,,,) = registry.getBountyDetails(bountyId);
+        assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
+    }
+
+    function test_Fulfill_ScriptErrorReopensBounty() public {
+        bytes32 requestId = _claim();
+
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, "", "TypeError: boom");
+
+        (,,, BountyRegistry.BountyStatus status,,,,) = registry.getBountyDetails(bountyId);
+        assertEq(uint256(status), uint256(BountyRegistry.BountyStatus.OPEN));
+    }
+
+    function test_Fulfill_RevertWhen_NotFulfiller() public {
+        bytes32 requestId = _claim();
+
+        vm.prank(claimer);
+        vm.expectRevert(MockOracle.Unauthorized.selector);
+        oracle.fulfill(requestId, abi.encode(true, "alice", uint8(0)), "");
+    }
+
+    function test_Fulfill_RevertWhen_AlreadyFulfilled() public {
+        bytes32 requestId = _claim();
+
+        vm.startPrank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(false, "alice", uint8(1)), "");
+        vm.expectRevert(abi.encodeWithSelector(MockOracle.UnexpectedRequestID.selector, requestId));
+        oracle.fulfill(requestId, abi.encode(true, "alice", uint8(0)), "");
+        vm.stopPrank();
+    }
+
+    function test_VerifyContribution_RevertWhen_NotRegistry() public {
+        string[] memory args = new string[](7);
+
+        vm.expectRevert(MockOracle.Unauthorized.selector);
+        oracle.verifyContribution(bountyId, claimer, args, 0, 0);
+    }
+}
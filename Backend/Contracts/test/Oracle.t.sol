@@ -7,28 +7,47 @@ import "../src/Oracle.sol";
 // Mock BountyRegistry for testing
 contract MockBountyRegistry {
     bytes32 public lastPayoutBountyId;
+    bytes32 public lastRequestId;
     address public lastPayoutRecipient;
     string public lastPayoutGithubUsername;
     uint256 public payoutCallCount;
     bytes32 public lastRejectedBountyId;
+    uint8 public lastRejectReason;
     uint256 public rejectCallCount;
     bool public shouldRevert;
+    uint256[] public lastSplitWeights;
     
     function completeBountyPayout(
         bytes32 bountyId,
+        bytes32 requestId,
         string calldata githubUsername,
         address recipient
     ) external {
         require(!shouldRevert, "MockBountyRegistry: Revert requested");
         lastPayoutBountyId = bountyId;
+        lastRequestId = requestId;
         lastPayoutRecipient = recipient;
         lastPayoutGithubUsername = githubUsername;
         payoutCallCount++;
     }
+
+    function completeSplitPayout(
+        bytes32 bountyId,
+        bytes32 requestId,
+        uint256[] calldata weights
+    ) external {
+        require(!shouldRevert, "MockBountyRegistry: Revert requested");
+        lastPayoutBountyId = bountyId;
+        lastRequestId = requestId;
+        lastSplitWeights = weights;
+        payoutCallCount++;
+    }
     
-    function rejectBountyClaim(bytes32 bountyId) external {
+    function rejectBountyClaim(bytes32 bountyId, bytes32 requestId, uint8 reason) external {
         require(!shouldRevert, "MockBountyRegistry: Revert requested");
         lastRejectedBountyId = bountyId;
+        lastRequestId = requestId;
+        lastRejectReason = reason;
         rejectCallCount++;
     }
     
@@ -91,7 +110,8 @@ contract IntegratedOracleTest is Test {
         bytes32 indexed requestId,
         bytes32 indexed bountyId,
         bool verified,
-        string author
+        string author,
+        uint8 reason
     );
     
     event PayoutTriggered(
@@ -208,17 +228,17 @@ contract IntegratedOracleTest is Test {
         vm.prank(address(bountyRegistry));
         bytes32 requestId = oracle.verifyContribution(bountyId, claimer, args, 1, 100);
         
-        // Prepare response: (bool verified = true, string author = "bountyHunter69")
+        // Prepare response: (bool verified = true, string author = "bountyHunter69", uint8 reason = 0)
         bool verified = true;
         string memory author = "bountyHunter69";
-        bytes memory response = abi.encode(verified, author);
+        bytes memory response = abi.encode(verified, author, uint8(0));
         bytes memory err = "";
         
         // Simulate Chainlink callback
         vm.startPrank(address(router));
         
         vm.expectEmit(true, true, false, true);
-        emit VerificationComplete(requestId, bountyId, true, "bountyHunter69");
+        emit VerificationComplete(requestId, bountyId, true, "bountyHunter69", 0);
         
         vm.expectEmit(true, true, false, true);
         emit PayoutTriggered(bountyId, claimer, "bountyHunter69");
@@ -242,10 +262,71 @@ contract IntegratedOracleTest is Test {
         // Verify bountyRegistry.completeBountyPayout was called
         assertEq(bountyRegistry.payoutCallCount(), 1);
         assertEq(bountyRegistry.lastPayoutBountyId(), bountyId);
+        assertEq(bountyRegistry.lastRequestId(), requestId);
         assertEq(bountyRegistry.lastPayoutRecipient(), claimer);
         assertEq(bountyRegistry.lastPayoutGithubUsername(), "bountyHunter69");
     }
     
+    function test_FulfillRequest_SplitVerificationPassed() public {
+        bytes32 bountyId = keccak256(abi.encodePacked("test", "bounty"));
+        string[] memory args = new string[](11);
+        args[0] = "vihaan1016";
+        args[1] = "MergeMint";
+        args[2] = "42,43";
+        args[3] = "101";
+        args[7] = "perPullRequest";
+
+        vm.prank(address(bountyRegistry));
+        bytes32 requestId = oracle.verifySplitContribution(bountyId, claimer, args, 1, 100);
+        assertTrue(oracle.splitRequests(requestId));
+
+        // Packed: verified, reason, then a weight per recipient
+        bytes memory response = abi.encodePacked(true, uint8(0), uint8(18), uint8(6));
+
+        vm.startPrank(address(router));
+
+        vm.expectEmit(true, true, false, true);
+        emit VerificationComplete(requestId, bountyId, true, "", 0);
+
+        (bool success,) = address(oracle).call(
+            abi.encodeWithSignature(
+                "handleOracleFulfillment(bytes32,bytes,bytes)",
+                requestId,
+                response,
+                ""
+            )
+        );
+
+        vm.stopPrank();
+
+        assertEq(bountyRegistry.payoutCallCount(), 1);
+        assertEq(bountyRegistry.lastRequestId(), requestId);
+        assertEq(bountyRegistry.lastSplitWeights(0), 18);
+        assertEq(bountyRegistry.lastSplitWeights(1), 6);
+        // Answered requests leave no split flag behind
+        assertFalse(oracle.splitRequests(requestId));
+    }
+
+    function test_FulfillRequest_SplitResponseTooShort() public {
+        bytes32 bountyId = keccak256(abi.encodePacked("test", "bounty"));
+        string[] memory args = new string[](11);
+        args[7] = "fixed";
+
+        vm.prank(address(bountyRegistry));
+        bytes32 requestId = oracle.verifySplitContribution(bountyId, claimer, args, 1, 100);
+
+        vm.prank(address(router));
+        (bool success,) = address(oracle).call(
+            abi.encodeWithSignature("handleOracleFulfillment(bytes32,bytes,bytes)", requestId, hex"01", "")
+        );
+
+        assertTrue(success);
+        assertEq(bountyRegistry.payoutCallCount(), 0);
+        assertEq(bountyRegistry.rejectCallCount(), 1);
+        assertEq(bountyRegistry.lastRejectReason(), oracle.REASON_UNKNOWN());
+        assertFalse(oracle.splitRequests(requestId));
+    }
+
     function test_FulfillRequest_VerificationFailed() public {
         // Setup: Create a verification request
         bytes32 bountyId = keccak256(abi.encodePacked("test", "bounty"));
@@ -258,17 +339,17 @@ contract IntegratedOracleTest is Test {
         vm.prank(address(bountyRegistry));
         bytes32 requestId = oracle.verifyContribution(bountyId, claimer, args, 1, 100);
         
-        // Prepare response: (bool verified = false, string author = "wrongUser")
+        // Prepare response: (bool verified = false, string author = "wrongUser", uint8 reason = NOT_MERGED)
         bool verified = false;
         string memory author = "wrongUser";
-        bytes memory response = abi.encode(verified, author);
+        bytes memory response = abi.encode(verified, author, uint8(1));
         bytes memory err = "";
         
         // Simulate Chainlink callback
         vm.startPrank(address(router));
         
         vm.expectEmit(true, true, false, true);
-        emit VerificationComplete(requestId, bountyId, false, "wrongUser");
+        emit VerificationComplete(requestId, bountyId, false, "wrongUser", 1);
         
         oracle.handleOracleFulfillment(requestId, response, err);
         
@@ -278,9 +359,11 @@ contract IntegratedOracleTest is Test {
         (, , bool active) = oracle.requests(requestId);
         assertFalse(active);
         
-        // Verify rejectBountyClaim was called
+        // Verify rejectBountyClaim was called with the DON's reason
         assertEq(bountyRegistry.rejectCallCount(), 1);
         assertEq(bountyRegistry.lastRejectedBountyId(), bountyId);
+        assertEq(bountyRegistry.lastRequestId(), requestId);
+        assertEq(bountyRegistry.lastRejectReason(), 1);
         
         // Verify NO payout was triggered
         assertEq(bountyRegistry.payoutCallCount(), 0);
@@ -302,7 +385,7 @@ contract IntegratedOracleTest is Test {
         vm.startPrank(address(router));
         
         vm.expectEmit(true, true, false, true);
-        emit VerificationComplete(requestId, bountyId, false, "SCRIPT_ERROR");
+        emit VerificationComplete(requestId, bountyId, false, "SCRIPT_ERROR", oracle.REASON_SCRIPT_ERROR());
         
         oracle.handleOracleFulfillment(requestId, response, err);
         
@@ -315,14 +398,32 @@ contract IntegratedOracleTest is Test {
         // Verify rejectBountyClaim was called
         assertEq(bountyRegistry.rejectCallCount(), 1);
         assertEq(bountyRegistry.lastRejectedBountyId(), bountyId);
+        assertEq(bountyRegistry.lastRejectReason(), oracle.REASON_SCRIPT_ERROR());
         
         // Verify NO payout
         assertEq(bountyRegistry.payoutCallCount(), 0);
     }
     
+    function test_FulfillRequest_UnknownReasonBecomesUnknown() public {
+        bytes32 bountyId = keccak256(abi.encodePacked("test", "bounty"));
+        string[] memory args = new string[](4);
+        
+        vm.prank(address(bountyRegistry));
+        bytes32 requestId = oracle.verifyContribution(bountyId, claimer, args, 1, 100);
+        
+        // A newer script may return codes this registry doesn't have
+        bytes memory response = abi.encode(false, "bountyHunter69", uint8(200));
+        
+        vm.prank(address(router));
+        oracle.handleOracleFulfillment(requestId, response, "");
+        
+        assertEq(bountyRegistry.rejectCallCount(), 1);
+        assertEq(bountyRegistry.lastRejectReason(), oracle.REASON_UNKNOWN());
+    }
+    
     function test_FulfillRequest_RevertWhen_UnexpectedRequestId() public {
         bytes32 fakeRequestId = keccak256(abi.encodePacked("fake"));
-        bytes memory response = abi.encode(true, "test");
+        bytes memory response = abi.encode(true, "test", uint8(0));
         bytes memory err = "";
         
         vm.startPrank(address(router));
@@ -344,7 +445,7 @@ contract IntegratedOracleTest is Test {
         vm.prank(address(bountyRegistry));
         bytes32 requestId = oracle.verifyContribution(bountyId, claimer, args, 1, 100);
         
-        bytes memory response = abi.encode(true, "test");
+        bytes memory response = abi.encode(true, "test", uint8(0));
         bytes memory err = "";
         
         vm.startPrank(address(router));
@@ -448,7 +549,7 @@ contract IntegratedOracleTest is Test {
         assertTrue(active);
         
         // Step 3: Chainlink fulfills with success
-        bytes memory response = abi.encode(true, "bountyHunter69");
+        bytes memory response = abi.encode(true, "bountyHunter69", uint8(0));
         bytes memory err = "";
         
         vm.prank(address(router));
@@ -457,6 +558,7 @@ contract IntegratedOracleTest is Test {
         // Step 4: Verify bounty payout was triggered
         assertEq(bountyRegistry.payoutCallCount(), 1);
         assertEq(bountyRegistry.lastPayoutBountyId(), bountyId);
+        assertEq(bountyRegistry.lastRequestId(), requestId);
         assertEq(bountyRegistry.lastPayoutRecipient(), claimer);
         
         // Step 5: Verify request is deactivated
@@ -0,0 +1,383 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "../src/mocks/MockOracle.sol";
+import "../src/mocks/MockUSDC.sol";
+
+contract PayoutSplitTest is Test {
+    BountyRegistry public registry;
+    MockOracle public oracle;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public issuer = address(2);
+    address public claimer = address(5);
+    address public coder = address(6);
+    address public outsider = address(7);
+
+    string public constant REPO_OWNER = "vihaan1016";
+    string public constant REPO_NAME = "MergeMint";
+    string public constant ISSUE_NUMBER = "42";
+    uint256 public constant BOUNTY_AMOUNT = 100 * 10**6;
+
+    bytes32 public bountyId;
+
+    event PayoutSplitApproved(
+        bytes32 indexed bountyID,
+        BountyRegistry.SplitMode mode,
+        address[] recipients,
+        uint16[] shares
+    );
+    event BountyPaid(bytes32 indexed bountyID, address indexed claimer, uint256 amount, string githubUsername);
+    event VerificationRequested(bytes32 indexed requestId, string[] args);
+
+    function setUp() public {
+        vm.startPrank(owner);
+        usdc = new MockUSDC();
+        oracle = new MockOracle(address(0), owner);
+        registry = new BountyRegistry(address(oracle));
+        oracle.updateBountyRegistry(address(registry));
+        registry.setTokenAllowed(address(usdc), true);
+        usdc.mint(issuer, BOUNTY_AMOUNT * 10);
+        vm.stopPrank();
+
+        vm.prank(issuer);
+        usdc.approve(address(registry), type(uint256).max);
+
+        vm.prank(claimer);
+        registry.linkGitHub("bountyHunter69", "a1b2c3");
+        vm.prank(coder);
+        registry.linkGitHub("coder2", "d4e5f6");
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        vm.prank(issuer);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 180 days);
+    }
+
+    function _pair() internal view returns (address[] memory recipients) {
+        recipients = new address[](2);
+        recipients[0] = claimer;
+        recipients[1] = coder;
+    }
+
+    function _shares(uint16 first, uint16 second) internal pure returns (uint16[] memory shares) {
+        shares = new uint16[](2);
+        shares[0] = first;
+        shares[1] = second;
+    }
+
+    function _approveFixed(uint16 first, uint16 second) internal {
+        vm.prank(issuer);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, _pair(), _shares(first, second));
+    }
+
+    function _approvePerPullRequest() internal {
+        vm.prank(issuer);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.PER_PULL_REQUEST, _pair(), new uint16[](0));
+    }
+
+    function _claim() internal returns (bytes32 requestId) {
+        vm.prank(claimer);
+        registry.claimBounty(bountyId, "7,8", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
+    }
+
+    function _weights(uint256 first, uint256 second) internal pure returns (uint256[] memory weights) {
+        weights = new uint256[](2);
+        weights[0] = first;
+        weights[1] = second;
+    }
+
+    // The DON's packed split answer: verified, reason, then a byte per weight
+    function _response(bool verified, uint8 reason, uint256[] memory weights) internal pure returns (bytes memory response) {
+        response = abi.encodePacked(verified, reason);
+        for (uint256 i = 0; i < weights.length; i++) response = abi.encodePacked(response, uint8(weights[i]));
+    }
+
+    function _status() internal view returns (BountyRegistry.BountyStatus status) {
+        (,,, status,,,,) = registry.getBountyDetails(bountyId);
+    }
+
+    // ============ approvePayoutSplit Tests ============
+
+    function test_ApproveSplit_StoresFixedShares() public {
+        vm.expectEmit(true, false, false, true);
+        emit PayoutSplitApproved(bountyId, BountyRegistry.SplitMode.FIXED, _pair(), _shares(7000, 3000));
+
+        _approveFixed(7000, 3000);
+
+        (BountyRegistry.SplitMode mode, address[] memory recipients, uint16[] memory shares) =
+            registry.getPayoutSplit(bountyId);
+        assertEq(uint8(mode), uint8(BountyRegistry.SplitMode.FIXED));
+        assertEq(recipients.length, 2);
+        assertEq(recipients[1], coder);
+        assertEq(shares[0], 7000);
+        assertEq(shares[1], 3000);
+    }
+
+    function test_ApproveSplit_NoneClearsTheSplit() public {
+        _approveFixed(7000, 3000);
+
+        vm.prank(issuer);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.NONE, new address[](0), new uint16[](0));
+
+        (BountyRegistry.SplitMode mode, address[] memory recipients,) = registry.getPayoutSplit(bountyId);
+        assertEq(uint8(mode), uint8(BountyRegistry.SplitMode.NONE));
+        assertEq(recipients.length, 0);
+    }
+
+    function test_ApproveSplit_RevertWhen_NotIssuer() public {
+        vm.prank(outsider);
+        vm.expectRevert(BountyRegistry.Unauthorised.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, _pair(), _shares(5000, 5000));
+    }
+
+    function test_ApproveSplit_RevertWhen_Verifying() public {
+        _approvePerPullRequest();
+        _claim();
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, _pair(), _shares(5000, 5000));
+    }
+
+    function test_ApproveSplit_RevertWhen_SharesDontAddUp() public {
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidSplit.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, _pair(), _shares(5000, 4000));
+    }
+
+    function test_ApproveSplit_RevertWhen_ZeroShare() public {
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidSplit.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, _pair(), _shares(10_000, 0));
+    }
+
+    function test_ApproveSplit_RevertWhen_DuplicateRecipient() public {
+        address[] memory recipients = _pair();
+        recipients[1] = claimer;
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidSplit.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.FIXED, recipients, _shares(5000, 5000));
+    }
+
+    function test_ApproveSplit_RevertWhen_TooManyRecipients() public {
+        address[] memory recipients = new address[](registry.MAX_SPLIT_RECIPIENTS() + 1);
+        for (uint256 i = 0; i < recipients.length; i++) recipients[i] = address(uint160(100 + i));
+
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidSplit.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.PER_PULL_REQUEST, recipients, new uint16[](0));
+    }
+
+    function test_ApproveSplit_RevertWhen_PerPullRequestWithShares() public {
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidSplit.selector);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.PER_PULL_REQUEST, _pair(), _shares(5000, 5000));
+    }
+
+    // ============ claimBounty Tests ============
+
+    function test_Claim_SendsEveryRecipientToTheOracle() public {
+        _approvePerPullRequest();
+
+        string[] memory args = new string[](14);
+        args[0] = REPO_OWNER;
+        args[1] = REPO_NAME;
+        args[2] = "7,8";
+        args[3] = ISSUE_NUMBER;
+        args[4] = "0x0000000000000000000000000000000000000005";
+        args[5] = "bountyHunter69";
+        args[6] = "a1b2c3";
+        args[7] = "perPullRequest";
+        args[8] = "0x0000000000000000000000000000000000000005";
+        args[9] = "bountyHunter69";
+        args[10] = "a1b2c3";
+        args[11] = "0x0000000000000000000000000000000000000006";
+        args[12] = "coder2";
+        args[13] = "d4e5f6";
+
+        vm.expectEmit(false, false, false, true);
+        emit VerificationRequested(bytes32(0), args);
+
+        bytes32 requestId = _claim();
+        assertTrue(oracle.splitRequests(requestId));
+    }
+
+    function test_Claim_RevertWhen_NotARecipient() public {
+        _approveFixed(5000, 5000);
+        vm.prank(outsider);
+        registry.linkGitHub("outsider", "0f0f0f");
+
+        vm.prank(outsider);
+        vm.expectRevert(BountyRegistry.Unauthorised.selector);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function test_Claim_RevertWhen_RecipientNotLinked() public {
+        _approveFixed(5000, 5000);
+        vm.prank(coder);
+        registry.unlinkGitHub();
+
+        vm.prank(claimer);
+        vm.expectRevert(BountyRegistry.GitHubNotLinked.selector);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    // ============ completeSplitPayout Tests ============
+
+    function test_Payout_FixedPaysEachShare() public {
+        _approveFixed(7000, 3000);
+        bytes32 requestId = _claim();
+
+        vm.expectEmit(true, true, false, true);
+        emit BountyPaid(bountyId, claimer, 70 * 10**6, "bountyHunter69");
+        vm.expectEmit(true, true, false, true);
+        emit BountyPaid(bountyId, coder, 30 * 10**6, "coder2");
+
+        // Fixed splits ignore the oracle's weights
+        vm.prank(owner);
+        oracle.fulfill(requestId, _response(true, 0, _weights(12, 0)), "");
+
+        assertEq(usdc.balanceOf(claimer), 70 * 10**6);
+        assertEq(usdc.balanceOf(coder), 30 * 10**6);
+        assertEq(usdc.balanceOf(address(registry)), 0);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.PAID));
+
+        (,,,,, string memory prClaimer,,) = registry.getBountyDetails(bountyId);
+        assertEq(prClaimer, "bountyHunter69,coder2");
+    }
+
+    function test_Payout_PerPullRequestPaysByWeight() public {
+        _approvePerPullRequest();
+        bytes32 requestId = _claim();
+
+        vm.prank(owner);
+        oracle.fulfill(requestId, _response(true, 0, _weights(24, 12)), "");
+
+        // The last recipient takes the rounding remainder
+        assertEq(usdc.balanceOf(claimer), 66_666_666);
+        assertEq(usdc.balanceOf(coder), 33_333_334);
+        assertEq(usdc.balanceOf(address(registry)), 0);
+    }
+
+    function test_Payout_RemainderSkipsRecipientsWithoutWeight() public {
+        address[] memory recipients = new address[](3);
+        recipients[0] = claimer;
+        recipients[1] = coder;
+        recipients[2] = outsider;
+        vm.prank(outsider);
+        registry.linkGitHub("outsider", "0a1b2c");
+        vm.prank(issuer);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.PER_PULL_REQUEST, recipients, new uint16[](0));
+        bytes32 requestId = _claim();
+
+        uint256[] memory weights = new uint256[](3);
+        weights[0] = 12;
+        weights[1] = 24;
+
+        vm.recordLogs();
+        vm.prank(owner);
+        oracle.fulfill(requestId, _response(true, 0, weights), "");
+
+        // The last recipient the oracle credited takes the rounding remainder
+        assertEq(usdc.balanceOf(claimer), 33_333_333);
+        assertEq(usdc.balanceOf(coder), 66_666_667);
+        assertEq(usdc.balanceOf(outsider), 0);
+
+        Vm.Log[] memory logs = vm.getRecordedLogs();
+        uint256 payouts;
+        for (uint256 i = 0; i < logs.length; i++) {
+            if (logs[i].topics[0] == BountyPaid.selector) payouts++;
+        }
+        assertEq(payouts, 2);
+    }
+
+    function test_Payout_ZeroWeightsRejectTheClaim() public {
+        _approvePerPullRequest();
+        bytes32 requestId = _claim();
+
+        vm.prank(owner);
+        oracle.fulfill(requestId, _response(true, 0, _weights(0, 0)), "");
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+        assertEq(usdc.balanceOf(address(registry)), BOUNTY_AMOUNT);
+    }
+
+    function test_Payout_MissingWeightsRejectTheClaim() public {
+        _approvePerPullRequest();
+        bytes32 requestId = _claim();
+
+        vm.prank(owner);
+        oracle.fulfill(requestId, _response(true, 0, new uint256[](1)), "");
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+    }
+
+    function test_Payout_FailedVerificationReopens() public {
+        _approveFixed(5000, 5000);
+        bytes32 requestId = _claim();
+
+        vm.prank(owner);
+        oracle.fulfill(requestId, _response(false, 4, _weights(12, 0)), "");
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+        assertEq(usdc.balanceOf(coder), 0);
+    }
+
+    function test_CompleteBountyPayout_RevertWhen_Split() public {
+        _approveFixed(5000, 5000);
+        bytes32 requestId = _claim();
+
+        vm.prank(address(oracle));
+        vm.expectRevert(BountyRegistry.InvalidSplit.selector);
+        registry.completeBountyPayout(bountyId, requestId, "bountyHunter69", claimer);
+    }
+
+    function test_CompleteSplitPayout_RevertWhen_NotOracle() public {
+        _approveFixed(5000, 5000);
+        bytes32 requestId = _claim();
+
+        vm.prank(outsider);
+        vm.expectRevert(BountyRegistry.Unauthorised.selector);
+        registry.completeSplitPayout(bountyId, requestId, _weights(1, 1));
+    }
+
+    // The DON callback runs with IntegratedOracle.gasLimit (300000)
+    function test_Gas_SplitPayoutFitsCallbackLimit() public {
+        uint256 count = registry.MAX_SPLIT_RECIPIENTS();
+        address[] memory recipients = new address[](count);
+        uint256[] memory weights = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            recipients[i] = address(uint160(200 + i));
+            weights[i] = 12;
+            // GitHub logins are at most 39 characters
+            vm.prank(recipients[i]);
+            registry.linkGitHub(string(abi.encodePacked("a-rather-long-github-login-number-", vm.toString(i))), "a1b2c3");
+        }
+        vm.prank(issuer);
+        registry.approvePayoutSplit(bountyId, BountyRegistry.SplitMode.PER_PULL_REQUEST, recipients, new uint16[](0));
+
+        vm.prank(recipients[0]);
+        registry.claimBounty(bountyId, "7,8,9,10", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, bytes32 requestId,) = registry.getBountyDetails(bountyId);
+
+        bytes memory response = _response(true, 0, weights);
+
+        vm.prank(owner);
+        uint256 gasBefore = gasleft();
+        oracle.fulfill(requestId, response, "");
+        uint256 gasUsed = gasBefore - gasleft();
+
+        assertLt(gasUsed, 300000);
+        assertEq(usdc.balanceOf(recipients[3]), BOUNTY_AMOUNT / 4);
+
+        // The registry records the recipients' linked usernames itself
+        (,,,,, string memory prClaimer,,) = registry.getBountyDetails(bountyId);
+        assertEq(prClaimer, "a-rather-long-github-login-number-0,a-rather-long-github-login-number-1,"
+            "a-rather-long-github-login-number-2,a-rather-long-github-login-number-3");
+    }
+}
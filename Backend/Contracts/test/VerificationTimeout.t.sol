@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/BountyRegistry.sol";
+import "../src/mocks/MockOracle.sol";
+import "../src/mocks/MockUSDC.sol";
+
+contract VerificationTimeoutTest is Test {
+    BountyRegistry public registry;
+    MockOracle public oracle;
+    MockUSDC public usdc;
+
+    address public owner = address(1);
+    address public fulfiller = address(2);
+    address public issuer = address(3);
+    address public claimer = address(4);
+    address public anyone = address(5);
+
+    string public constant REPO_OWNER = "vihaan1016";
+    string public constant REPO_NAME = "MergeMint";
+    string public constant ISSUE_NUMBER = "42";
+    uint256 public constant BOUNTY_AMOUNT = 100 * 10**6;
+
+    bytes32 public bountyId;
+
+    event ClaimRejected(
+        bytes32 indexed bountyID,
+        bytes32 indexed requestID,
+        BountyRegistry.RejectionReason reason
+    );
+    event VerificationTimeoutUpdated(uint256 timeout);
+
+    function setUp() public {
+        vm.startPrank(owner);
+        usdc = new MockUSDC();
+        oracle = new MockOracle(address(0), fulfiller);
+        registry = new BountyRegistry(address(oracle));
+        oracle.updateBountyRegistry(address(registry));
+        registry.setTokenAllowed(address(usdc), true);
+        usdc.mint(issuer, BOUNTY_AMOUNT);
+        vm.stopPrank();
+
+        vm.startPrank(issuer);
+        usdc.approve(address(registry), BOUNTY_AMOUNT);
+        registry.fundIssue(BOUNTY_AMOUNT, address(usdc), REPO_OWNER, REPO_NAME, ISSUE_NUMBER, block.timestamp + 14 days);
+        vm.stopPrank();
+
+        vm.prank(claimer);
+        registry.linkGitHub("bountyHunter69", "a1b2c3");
+
+        bountyId = registry.computeBountyID(REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+    }
+
+    function _claim() internal returns (bytes32 requestId) {
+        vm.prank(claimer);
+        registry.claimBounty(bountyId, "7", REPO_OWNER, REPO_NAME, ISSUE_NUMBER);
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
+    }
+
+    function _status() internal view returns (BountyRegistry.BountyStatus status) {
+        (,,, status,,,,) = registry.getBountyDetails(bountyId);
+    }
+
+    function _activeRequest() internal view returns (bytes32 requestId) {
+        (,,,,,, requestId,) = registry.getBountyDetails(bountyId);
+    }
+
+    function _timeOut() internal {
+        vm.warp(block.timestamp + registry.verificationTimeout() + 1);
+    }
+
+    // ============ resetVerification ============
+
+    function test_ClaimBounty_RecordsVerificationStart() public {
+        vm.warp(1000);
+        _claim();
+
+        assertEq(registry.verificationStartedAt(bountyId), 1000);
+    }
+
+    function test_ResetVerification_AfterTimeout() public {
+        bytes32 requestId = _claim();
+        _timeOut();
+
+        vm.expectEmit(true, true, false, true);
+        emit ClaimRejected(bountyId, requestId, BountyRegistry.RejectionReason.TIMED_OUT);
+
+        vm.prank(anyone);
+        registry.resetVerification(bountyId);
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+        assertEq(_activeRequest(), bytes32(0));
+    }
+
+    function test_ResetVerification_RevertWhen_Pending() public {
+        _claim();
+        vm.warp(block.timestamp + registry.verificationTimeout());
+
+        vm.prank(anyone);
+        vm.expectRevert(BountyRegistry.VerificationPending.selector);
+        registry.resetVerification(bountyId);
+    }
+
+    function test_ResetVerification_RevertWhen_NotVerifying() public {
+        _timeOut();
+
+        vm.prank(anyone);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.resetVerification(bountyId);
+    }
+
+    function test_ResetVerification_LetsFundersRefund() public {
+        _claim();
+        vm.warp(block.timestamp + 15 days);
+
+        // Still VERIFYING, so not refundable yet
+        vm.prank(issuer);
+        vm.expectRevert(BountyRegistry.InvalidStatus.selector);
+        registry.seepFunds(bountyId);
+
+        registry.resetVerification(bountyId);
+
+        vm.prank(issuer);
+        registry.seepFunds(bountyId);
+        assertEq(usdc.balanceOf(issuer), BOUNTY_AMOUNT);
+    }
+
+    // ============ Late Fulfillment ============
+
+    function test_LateFulfillment_IgnoredAfterReset() public {
+        bytes32 requestId = _claim();
+        _timeOut();
+        registry.resetVerification(bountyId);
+
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(true, "bountyHunter69", uint8(0)), "");
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+        assertEq(usdc.balanceOf(claimer), 0);
+        assertEq(usdc.balanceOf(address(registry)), BOUNTY_AMOUNT);
+    }
+
+    function test_LateFulfillment_DoesNotTouchNewClaim() public {
+        bytes32 staleRequestId = _claim();
+        _timeOut();
+        registry.resetVerification(bountyId);
+
+        bytes32 requestId = _claim();
+
+        // A late rejection of the first claim leaves the second one pending
+        vm.prank(fulfiller);
+        oracle.fulfill(staleRequestId, abi.encode(false, "bountyHunter69", uint8(1)), "");
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+        assertEq(_activeRequest(), requestId);
+
+        vm.prank(fulfiller);
+        oracle.fulfill(requestId, abi.encode(true, "bountyHunter69", uint8(0)), "");
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.PAID));
+        assertEq(usdc.balanceOf(claimer), BOUNTY_AMOUNT);
+    }
+
+    function test_StaleRequest_IgnoredByRegistry() public {
+        _claim();
+
+        vm.prank(address(oracle));
+        registry.rejectBountyClaim(bountyId, keccak256("stale"), BountyRegistry.RejectionReason.NOT_MERGED);
+
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.VERIFYING));
+    }
+
+    // ============ Owner Settings ============
+
+    function test_SetVerificationTimeout() public {
+        vm.expectEmit(false, false, false, true);
+        emit VerificationTimeoutUpdated(10 minutes);
+
+        vm.prank(owner);
+        registry.setVerificationTimeout(10 minutes);
+        assertEq(registry.verificationTimeout(), 10 minutes);
+
+        _claim();
+        vm.warp(block.timestamp + 10 minutes + 1);
+        registry.resetVerification(bountyId);
+        assertEq(uint8(_status()), uint8(BountyRegistry.BountyStatus.OPEN));
+    }
+
+    function test_SetVerificationTimeout_RevertWhen_NotOwner() public {
+        vm.prank(anyone);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, anyone));
+        registry.setVerificationTimeout(10 minutes);
+    }
+}
@@ -0,0 +1,117 @@
+// Event fragments of BountyRegistry.sol and Oracle.sol (IntegratedOracle)
+
+export const BountyRegistryEventsABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": false, "internalType": "string", "name": "repoOwner", "type": "string" },
+      { "indexed": false, "internalType": "string", "name": "repoName", "type": "string" },
+      { "indexed": false, "internalType": "string", "name": "issueNumber", "type": "string" },
+      { "indexed": true, "internalType": "address", "name": "issuer", "type": "address" },
+      { "indexed": false, "internalType": "address", "name": "token", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "deadline", "type": "uint256" }
+    ],
+    "name": "BountyCreated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": true, "internalType": "address", "name": "funder", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" },
+      { "indexed": false, "internalType": "uint256", "name": "totalAmount", "type": "uint256" }
+    ],
+    "name": "BountyContributed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": true, "internalType": "address", "name": "claimer", "type": "address" },
+      { "indexed": true, "internalType": "bytes32", "name": "requestID", "type": "bytes32" },
+      { "indexed": false, "internalType": "string", "name": "prNumber", "type": "string" }
+    ],
+    "name": "ClaimSubmitted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": false, "internalType": "uint8", "name": "newStatus", "type": "uint8" }
+    ],
+    "name": "BountyStatusChanged",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": true, "internalType": "bytes32", "name": "requestID", "type": "bytes32" },
+      { "indexed": false, "internalType": "uint8", "name": "reason", "type": "uint8" }
+    ],
+    "name": "ClaimRejected",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": true, "internalType": "address", "name": "claimer", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" },
+      { "indexed": false, "internalType": "string", "name": "githubUsername", "type": "string" }
+    ],
+    "name": "BountyPaid",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyID", "type": "bytes32" },
+      { "indexed": true, "internalType": "address", "name": "funder", "type": "address" },
+      { "indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256" }
+    ],
+    "name": "FundsRefunded",
+    "type": "event"
+  }
+] as const;
+
+export const OracleEventsABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "requestId", "type": "bytes32" },
+      { "indexed": true, "internalType": "bytes32", "name": "bountyId", "type": "bytes32" },
+      { "indexed": true, "internalType": "address", "name": "claimant", "type": "address" },
+      { "indexed": false, "internalType": "string", "name": "prNumber", "type": "string" }
+    ],
+    "name": "ClaimInitiated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "requestId", "type": "bytes32" },
+      { "indexed": true, "internalType": "bytes32", "name": "bountyId", "type": "bytes32" },
+      { "indexed": false, "internalType": "bool", "name": "verified", "type": "bool" },
+      { "indexed": false, "internalType": "string", "name": "author", "type": "string" },
+      { "indexed": false, "internalType": "uint8", "name": "reason", "type": "uint8" }
+    ],
+    "name": "VerificationComplete",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "bytes32", "name": "bountyId", "type": "bytes32" },
+      { "indexed": true, "internalType": "address", "name": "recipient", "type": "address" },
+      { "indexed": false, "internalType": "string", "name": "githubUsername", "type": "string" }
+    ],
+    "name": "PayoutTriggered",
+    "type": "event"
+  }
+] as const;
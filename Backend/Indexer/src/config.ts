@@ -0,0 +1,33 @@
+import 'dotenv/config';
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing ${name} in environment`);
+  return value;
+}
+
+function address(name: string): `0x${string}` {
+  const value = required(name);
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) throw new Error(`${name} is not an address: ${value}`);
+  return value as `0x${string}`;
+}
+
+export const config = {
+  rpcUrl: process.env.RPC_URL || 'https://rpc.sepolia.org',
+  chainId: Number(process.env.CHAIN_ID || 11155111),
+  bountyRegistry: address('BOUNTY_REGISTRY_ADDRESS'),
+  oracle: address('ORACLE_ADDRESS'),
+
+  // First block to index; set to the registry deployment block
+  startBlock: BigInt(process.env.START_BLOCK || 0),
+  // Blocks behind head before a block is indexed at all
+  confirmations: BigInt(process.env.CONFIRMATIONS || 2),
+  // How many recent block hashes are kept for reorg detection
+  reorgDepth: BigInt(process.env.REORG_DEPTH || 64),
+  // Max block span per eth_getLogs call
+  batchSize: BigInt(process.env.BATCH_SIZE || 10000),
+  pollIntervalMs: Number(process.env.POLL_INTERVAL_MS || 12000),
+
+  port: Number(process.env.PORT || 3002),
+  dbPath: process.env.DB_PATH || './mergemint.db'
+};
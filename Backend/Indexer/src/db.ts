@@ -0,0 +1,396 @@
+import Database from 'better-sqlite3';
+
+export type Db = Database.Database;
+
+// Mirrors BountyRegistry.BountyStatus
+export enum BountyStatus {
+  OPEN = 0,
+  VERIFYING = 1,
+  PAID = 2,
+  REFUNDED = 3
+}
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+
+export interface StoredEvent {
+  blockNumber: bigint;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  contract: 'registry' | 'oracle';
+  eventName: string;
+  bountyId: string | null;
+  args: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface BountyRow {
+  id: string;
+  repoOwner: string;
+  repoName: string;
+  issueNumber: string;
+  issuer: string;
+  token: string;
+  amount: string;
+  status: BountyStatus;
+  creationTime: number;
+  deadline: number;
+  createdBlock: number;
+  prClaimer: string;
+  activeRequestId: string;
+  lastClaimer: string | null;
+  lastPrNumber: string | null;
+  paidTo: string | null;
+  updatedBlock: number;
+}
+
+export interface BountyFilters {
+  status?: BountyStatus;
+  issuer?: string;
+  token?: string;
+  claimer?: string;
+  repoOwner?: string;
+  repoName?: string;
+  search?: string;
+  sort?: 'newest' | 'oldest' | 'amount';
+  page: number;
+  pageSize: number;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  bounty_id TEXT,
+  args TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_bounty ON events (bounty_id, block_number, log_index);
+
+CREATE TABLE IF NOT EXISTS bounties (
+  id TEXT PRIMARY KEY,
+  repo_owner TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  issue_number TEXT NOT NULL,
+  issuer TEXT NOT NULL,
+  token TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  creation_time INTEGER NOT NULL,
+  deadline INTEGER NOT NULL DEFAULT 0,
+  created_block INTEGER NOT NULL,
+  pr_claimer TEXT NOT NULL DEFAULT '',
+  active_request_id TEXT NOT NULL,
+  last_claimer TEXT,
+  last_pr_number TEXT,
+  paid_to TEXT,
+  updated_block INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS bounties_status ON bounties (status, created_block);
+CREATE INDEX IF NOT EXISTS bounties_issuer ON bounties (issuer);
+CREATE INDEX IF NOT EXISTS bounties_claimer ON bounties (last_claimer);
+CREATE INDEX IF NOT EXISTS bounties_repo ON bounties (repo_owner, repo_name);
+
+-- Hashes of recently indexed blocks, used to detect reorgs
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+export function openDatabase(path: string): Db {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  // Databases created before bounties had deadlines
+  const columns = db.prepare(`PRAGMA table_info(bounties)`).all() as Array<{ name: string }>;
+  if (!columns.some((column) => column.name === 'deadline')) {
+    db.exec(`ALTER TABLE bounties ADD COLUMN deadline INTEGER NOT NULL DEFAULT 0`);
+  }
+  return db;
+}
+
+// JSON.stringify can't handle bigint, so amounts are stored as decimal strings
+function serializeArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(args, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+// --- Sync state ---
+
+export function getLastIndexedBlock(db: Db): bigint | null {
+  const row = db.prepare(`SELECT value FROM meta WHERE key = 'last_indexed_block'`).get() as
+    | { value: string }
+    | undefined;
+  return row ? BigInt(row.value) : null;
+}
+
+export function setLastIndexedBlock(db: Db, blockNumber: bigint) {
+  db.prepare(
+    `INSERT INTO meta (key, value) VALUES ('last_indexed_block', ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+  ).run(blockNumber.toString());
+}
+
+export function saveBlockHash(db: Db, blockNumber: bigint, hash: string) {
+  db.prepare(`INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)`).run(Number(blockNumber), hash);
+}
+
+/**
+ * Stored block hashes, newest first
+ */
+export function getRecentBlocks(db: Db): Array<{ number: bigint; hash: string }> {
+  const rows = db.prepare(`SELECT number, hash FROM blocks ORDER BY number DESC`).all() as Array<{
+    number: number;
+    hash: string;
+  }>;
+  return rows.map((row) => ({ number: BigInt(row.number), hash: row.hash }));
+}
+
+export function pruneBlocks(db: Db, belowBlock: bigint) {
+  db.prepare(`DELETE FROM blocks WHERE number < ?`).run(Number(belowBlock));
+}
+
+// --- Writes ---
+
+/**
+ * Stores a batch of events and refreshes every bounty they touch
+ */
+export function applyEvents(db: Db, events: StoredEvent[], toBlock: bigint, toBlockHash: string) {
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO events
+       (block_number, block_hash, log_index, tx_hash, contract, event_name, bounty_id, args, timestamp)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  db.transaction(() => {
+    const touched = new Set<string>();
+
+    for (const event of events) {
+      insert.run(
+        Number(event.blockNumber),
+        event.blockHash,
+        event.logIndex,
+        event.transactionHash,
+        event.contract,
+        event.eventName,
+        event.bountyId,
+        serializeArgs(event.args),
+        event.timestamp
+      );
+      saveBlockHash(db, event.blockNumber, event.blockHash);
+      if (event.bountyId) touched.add(event.bountyId);
+    }
+
+    for (const bountyId of touched) {
+      rebuildBounty(db, bountyId);
+    }
+
+    saveBlockHash(db, toBlock, toBlockHash);
+    setLastIndexedBlock(db, toBlock);
+  })();
+}
+
+/**
+ * Drops everything after `blockNumber` and rebuilds the bounties it affected
+ */
+export function rollbackTo(db: Db, blockNumber: bigint): number {
+  return db.transaction(() => {
+    const affected = db
+      .prepare(`SELECT DISTINCT bounty_id FROM events WHERE block_number > ? AND bounty_id IS NOT NULL`)
+      .all(Number(blockNumber)) as Array<{ bounty_id: string }>;
+
+    const { changes } = db.prepare(`DELETE FROM events WHERE block_number > ?`).run(Number(blockNumber));
+    db.prepare(`DELETE FROM blocks WHERE number > ?`).run(Number(blockNumber));
+
+    for (const { bounty_id } of affected) {
+      rebuildBounty(db, bounty_id);
+    }
+
+    setLastIndexedBlock(db, blockNumber);
+    return changes;
+  })();
+}
+
+/**
+ * Recomputes a bounty row by replaying its registry events in order.
+ * The row is the same state getBountyDetails would return, plus claim metadata.
+ */
+export function rebuildBounty(db: Db, bountyId: string) {
+  const events = db
+    .prepare(
+      `SELECT block_number, event_name, args, timestamp FROM events
+       WHERE bounty_id = ? AND contract = 'registry'
+       ORDER BY block_number, log_index`
+    )
+    .all(bountyId) as Array<{ block_number: number; event_name: string; args: string; timestamp: number }>;
+
+  let bounty: BountyRow | null = null;
+
+  for (const event of events) {
+    const args = JSON.parse(event.args);
+
+    if (event.event_name === 'BountyCreated') {
+      bounty = {
+        id: bountyId,
+        repoOwner: args.repoOwner,
+        repoName: args.repoName,
+        issueNumber: args.issueNumber,
+        issuer: String(args.issuer).toLowerCase(),
+        token: String(args.token).toLowerCase(),
+        amount: args.amount,
+        status: BountyStatus.OPEN,
+        creationTime: event.timestamp,
+        deadline: Number(args.deadline),
+        createdBlock: event.block_number,
+        prClaimer: '',
+        activeRequestId: ZERO_HASH,
+        lastClaimer: null,
+        lastPrNumber: null,
+        paidTo: null,
+        updatedBlock: event.block_number
+      };
+      continue;
+    }
+
+    if (!bounty) continue;
+    bounty.updatedBlock = event.block_number;
+
+    switch (event.event_name) {
+      case 'BountyStatusChanged':
+        bounty.status = Number(args.newStatus) as BountyStatus;
+        // rejectBountyClaim clears the request when it reopens the bounty
+        if (bounty.status === BountyStatus.OPEN) bounty.activeRequestId = ZERO_HASH;
+        break;
+      case 'BountyContributed':
+        bounty.amount = args.totalAmount;
+        break;
+      case 'ClaimSubmitted':
+        bounty.activeRequestId = args.requestID;
+        bounty.lastClaimer = String(args.claimer).toLowerCase();
+        bounty.lastPrNumber = args.prNumber;
+        break;
+      case 'BountyPaid':
+        // A split payout emits one BountyPaid per recipient; paidTo keeps the first
+        if (bounty.paidTo) {
+          bounty.prClaimer = `${bounty.prClaimer},${args.githubUsername}`;
+          break;
+        }
+        bounty.prClaimer = args.githubUsername;
+        bounty.paidTo = String(args.claimer).toLowerCase();
+        break;
+    }
+  }
+
+  if (!bounty) {
+    db.prepare(`DELETE FROM bounties WHERE id = ?`).run(bountyId);
+    return;
+  }
+
+  db.prepare(
+    `INSERT OR REPLACE INTO bounties
+       (id, repo_owner, repo_name, issue_number, issuer, token, amount, status, creation_time, deadline,
+        created_block, pr_claimer, active_request_id, last_claimer, last_pr_number, paid_to, updated_block)
+     VALUES
+       (@id, @repoOwner, @repoName, @issueNumber, @issuer, @token, @amount, @status, @creationTime, @deadline,
+        @createdBlock, @prClaimer, @activeRequestId, @lastClaimer, @lastPrNumber, @paidTo, @updatedBlock)`
+  ).run(bounty);
+}
+
+// --- Reads ---
+
+const BOUNTY_COLUMNS = `
+  id, repo_owner AS repoOwner, repo_name AS repoName, issue_number AS issueNumber,
+  issuer, token, amount, status, creation_time AS creationTime, deadline, created_block AS createdBlock,
+  pr_claimer AS prClaimer, active_request_id AS activeRequestId, last_claimer AS lastClaimer,
+  last_pr_number AS lastPrNumber, paid_to AS paidTo, updated_block AS updatedBlock
+`;
+
+export function queryBounties(db: Db, filters: BountyFilters): { items: BountyRow[]; total: number } {
+  const where: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (filters.status !== undefined) {
+    where.push('status = @status');
+    params.status = filters.status;
+  }
+  if (filters.issuer) {
+    where.push('issuer = @issuer');
+    params.issuer = filters.issuer.toLowerCase();
+  }
+  if (filters.token) {
+    where.push('token = @token');
+    params.token = filters.token.toLowerCase();
+  }
+  if (filters.claimer) {
+    where.push('(last_claimer = @claimer OR paid_to = @claimer)');
+    params.claimer = filters.claimer.toLowerCase();
+  }
+  if (filters.repoOwner) {
+    where.push('repo_owner = @repoOwner COLLATE NOCASE');
+    params.repoOwner = filters.repoOwner;
+  }
+  if (filters.repoName) {
+    where.push('repo_name = @repoName COLLATE NOCASE');
+    params.repoName = filters.repoName;
+  }
+  if (filters.search) {
+    where.push(`(repo_owner || '/' || repo_name) LIKE @search`);
+    params.search = `%${filters.search}%`;
+  }
+
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+  // Amounts are uint256 decimal strings; ordering by length first sorts them numerically
+  const orderSql = {
+    newest: 'created_block DESC, id',
+    oldest: 'created_block ASC, id',
+    amount: 'length(amount) DESC, amount DESC, id'
+  }[filters.sort ?? 'newest'];
+
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM bounties ${whereSql}`).get(params) as {
+    total: number;
+  };
+
+  const items = db
+    .prepare(
+      `SELECT ${BOUNTY_COLUMNS} FROM bounties ${whereSql}
+       ORDER BY ${orderSql}
+       LIMIT @limit OFFSET @offset`
+    )
+    .all({
+      ...params,
+      limit: filters.pageSize,
+      offset: (filters.page - 1) * filters.pageSize
+    }) as BountyRow[];
+
+  return { items, total };
+}
+
+export function getBounty(db: Db, bountyId: string): BountyRow | null {
+  const row = db.prepare(`SELECT ${BOUNTY_COLUMNS} FROM bounties WHERE id = ?`).get(bountyId.toLowerCase());
+  return (row as BountyRow | undefined) ?? null;
+}
+
+export function getBountyEvents(db: Db, bountyId: string) {
+  const rows = db
+    .prepare(
+      `SELECT block_number AS blockNumber, block_hash AS blockHash, log_index AS logIndex,
+              tx_hash AS transactionHash, contract, event_name AS eventName, args, timestamp
+       FROM events WHERE bounty_id = ?
+       ORDER BY block_number, log_index`
+    )
+    .all(bountyId.toLowerCase()) as Array<Record<string, unknown> & { args: string }>;
+
+  return rows.map((row) => ({ ...row, args: JSON.parse(row.args) }));
+}
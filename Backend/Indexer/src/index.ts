@@ -0,0 +1,31 @@
+import { createPublicClient, http } from 'viem';
+import { config } from './config';
+import { openDatabase } from './db';
+import { startIndexer } from './indexer';
+import { startServer } from './server';
+
+function main() {
+  const db = openDatabase(config.dbPath);
+
+  const client = createPublicClient({
+    transport: http(config.rpcUrl, {
+      retryCount: 3,
+      retryDelay: 1000
+    })
+  });
+
+  const stopIndexer = startIndexer(db, client);
+  const server = startServer(db);
+
+  const shutdown = () => {
+    stopIndexer();
+    server.close();
+    db.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
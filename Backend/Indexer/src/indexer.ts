@@ -0,0 +1,143 @@
+import type { PublicClient } from 'viem';
+import { config } from './config';
+import { BountyRegistryEventsABI, OracleEventsABI } from './abis';
+import {
+  type Db,
+  type StoredEvent,
+  applyEvents,
+  getLastIndexedBlock,
+  getRecentBlocks,
+  pruneBlocks,
+  rollbackTo
+} from './db';
+
+/**
+ * Checks the stored block hashes against the chain and rolls back past any reorg.
+ * Returns the block rolled back to, or null when the chain still matches.
+ */
+export async function handleReorg(db: Db, client: PublicClient): Promise<bigint | null> {
+  const recent = getRecentBlocks(db);
+  if (recent.length === 0) return null;
+
+  for (const [i, stored] of recent.entries()) {
+    const block = await client.getBlock({ blockNumber: stored.number }).catch(() => null);
+
+    if (block?.hash === stored.hash) {
+      // The newest block still matches, nothing to do
+      if (i === 0) return null;
+
+      const removed = rollbackTo(db, stored.number);
+      console.warn(`Reorg detected: rolled back to block ${stored.number} (${removed} events removed)`);
+      return stored.number;
+    }
+  }
+
+  // Nothing in the window matches, so the fork is deeper than REORG_DEPTH
+  const oldest = recent[recent.length - 1].number - 1n;
+  const removed = rollbackTo(db, oldest);
+  console.warn(`Deep reorg: no stored block matched, rolled back to ${oldest} (${removed} events removed)`);
+  return oldest;
+}
+
+/**
+ * Fetches and decodes every registry and oracle event in [fromBlock, toBlock]
+ */
+async function fetchEvents(client: PublicClient, fromBlock: bigint, toBlock: bigint): Promise<StoredEvent[]> {
+  const [registryLogs, oracleLogs] = await Promise.all([
+    client.getLogs({ address: config.bountyRegistry, events: BountyRegistryEventsABI, fromBlock, toBlock }),
+    client.getLogs({ address: config.oracle, events: OracleEventsABI, fromBlock, toBlock })
+  ]);
+
+  const logs = [
+    ...registryLogs.map((log) => ({ log, contract: 'registry' as const })),
+    ...oracleLogs.map((log) => ({ log, contract: 'oracle' as const }))
+  ];
+
+  // Timestamps come from the block; the same call confirms each log is still canonical
+  const blockNumbers = [...new Set(logs.map(({ log }) => log.blockNumber as bigint))];
+  const blocks = new Map(
+    await Promise.all(
+      blockNumbers.map(async (blockNumber) => {
+        const block = await client.getBlock({ blockNumber });
+        return [blockNumber, block] as const;
+      })
+    )
+  );
+
+  return logs
+    .map(({ log, contract }) => {
+      const block = blocks.get(log.blockNumber as bigint)!;
+      if (block.hash !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed while indexing, retrying`);
+      }
+
+      const args = log.args as Record<string, unknown>;
+      const bountyId = (args.bountyID ?? args.bountyId) as string | undefined;
+
+      return {
+        blockNumber: log.blockNumber as bigint,
+        blockHash: log.blockHash as string,
+        logIndex: log.logIndex as number,
+        transactionHash: log.transactionHash as string,
+        contract,
+        eventName: log.eventName,
+        bountyId: bountyId ? bountyId.toLowerCase() : null,
+        args,
+        timestamp: Number(block.timestamp)
+      };
+    })
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+    );
+}
+
+/**
+ * Indexes from the last indexed block up to the confirmed head.
+ * Returns the last indexed block.
+ */
+export async function syncOnce(db: Db, client: PublicClient): Promise<bigint> {
+  await handleReorg(db, client);
+
+  const head = await client.getBlockNumber();
+  const target = head > config.confirmations ? head - config.confirmations : 0n;
+
+  let lastIndexed = getLastIndexedBlock(db) ?? config.startBlock - 1n;
+
+  while (lastIndexed < target) {
+    const fromBlock = lastIndexed + 1n;
+    const toBlock = fromBlock + config.batchSize - 1n < target ? fromBlock + config.batchSize - 1n : target;
+
+    const events = await fetchEvents(client, fromBlock, toBlock);
+    const tip = await client.getBlock({ blockNumber: toBlock });
+
+    applyEvents(db, events, toBlock, tip.hash);
+    pruneBlocks(db, toBlock - config.reorgDepth);
+    lastIndexed = toBlock;
+  }
+
+  return lastIndexed;
+}
+
+/**
+ * Keeps the database in sync with the chain until stopped
+ */
+export function startIndexer(db: Db, client: PublicClient): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    try {
+      await syncOnce(db, client);
+    } catch (err) {
+      console.error('Sync failed:', err instanceof Error ? err.message : err);
+    }
+    if (!stopped) timer = setTimeout(tick, config.pollIntervalMs);
+  };
+
+  tick();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,153 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { config } from './config';
+import {
+  type Db,
+  type BountyFilters,
+  BountyStatus,
+  getBounty,
+  getBountyEvents,
+  getLastIndexedBlock,
+  queryBounties
+} from './db';
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 20;
+
+const STATUS_NAMES: Record<string, BountyStatus> = {
+  open: BountyStatus.OPEN,
+  verifying: BountyStatus.VERIFYING,
+  paid: BountyStatus.PAID,
+  refunded: BountyStatus.REFUNDED
+};
+
+class BadRequest extends Error {}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(JSON.stringify(body));
+}
+
+function parseStatus(value: string | null): BountyStatus | undefined {
+  if (!value || value === 'all') return undefined;
+  if (value in STATUS_NAMES) return STATUS_NAMES[value];
+
+  const numeric = Number(value);
+  if (Number.isInteger(numeric) && numeric in BountyStatus) return numeric;
+  throw new BadRequest(`Unknown status: ${value}`);
+}
+
+function parsePositiveInt(value: string | null, fallback: number, name: string): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new BadRequest(`${name} must be a positive integer`);
+  return parsed;
+}
+
+function parseAddress(value: string | null, name: string): string | undefined {
+  if (!value) return undefined;
+  if (!/^0x[0-9a-fA-F]{40}$/.test(value)) throw new BadRequest(`${name} is not an address`);
+  return value;
+}
+
+function parseFilters(params: URLSearchParams): BountyFilters {
+  const sort = params.get('sort') ?? 'newest';
+  if (sort !== 'newest' && sort !== 'oldest' && sort !== 'amount') {
+    throw new BadRequest(`Unknown sort: ${sort}`);
+  }
+
+  return {
+    status: parseStatus(params.get('status')),
+    issuer: parseAddress(params.get('issuer'), 'issuer'),
+    token: parseAddress(params.get('token'), 'token'),
+    claimer: parseAddress(params.get('claimer'), 'claimer'),
+    repoOwner: params.get('repoOwner') ?? undefined,
+    repoName: params.get('repoName') ?? undefined,
+    search: params.get('q') ?? undefined,
+    sort,
+    page: parsePositiveInt(params.get('page'), 1, 'page'),
+    pageSize: Math.min(parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE)
+  };
+}
+
+function handle(db: Db, req: IncomingMessage, res: ServerResponse) {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS'
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    send(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const lastIndexedBlock = getLastIndexedBlock(db)?.toString() ?? null;
+
+  // GET /api/v1/health
+  if (url.pathname === '/api/v1/health') {
+    send(res, 200, { chainId: config.chainId, lastIndexedBlock });
+    return;
+  }
+
+  // GET /api/v1/bounties
+  if (url.pathname === '/api/v1/bounties') {
+    const filters = parseFilters(url.searchParams);
+    const { items, total } = queryBounties(db, filters);
+    send(res, 200, {
+      items,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      hasMore: filters.page * filters.pageSize < total,
+      lastIndexedBlock
+    });
+    return;
+  }
+
+  // GET /api/v1/bounties/:id and /api/v1/bounties/:id/events
+  const match = url.pathname.match(/^\/api\/v1\/bounties\/(0x[0-9a-fA-F]{64})(\/events)?$/);
+  if (match) {
+    const [, bountyId, events] = match;
+
+    if (events) {
+      send(res, 200, { items: getBountyEvents(db, bountyId), lastIndexedBlock });
+      return;
+    }
+
+    const bounty = getBounty(db, bountyId);
+    if (!bounty) {
+      send(res, 404, { error: 'Bounty not found' });
+      return;
+    }
+    send(res, 200, { ...bounty, lastIndexedBlock });
+    return;
+  }
+
+  send(res, 404, { error: 'Not found' });
+}
+
+export function startServer(db: Db) {
+  const server = createServer((req, res) => {
+    try {
+      handle(db, req, res);
+    } catch (err) {
+      if (err instanceof BadRequest) {
+        send(res, 400, { error: err.message });
+        return;
+      }
+      console.error('Request failed:', err);
+      send(res, 500, { error: 'Internal server error' });
+    }
+  });
+
+  server.listen(config.port);
+
+  return server;
+}
@@ -1,13 +1,19 @@
+import path from 'path';
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   // Turbopack configuration
   turbopack: {
+    // The oracle's verification rules (@oracle/*) live outside the app
+    root: path.join(__dirname, '..'),
     resolveAlias: {
       // Add any aliases if needed
     },
   },
+  experimental: {
+    externalDir: true,
+  },
   // Remove webpack config or keep it for production builds
   webpack: (config, { isServer }) => {
     if (!isServer) {
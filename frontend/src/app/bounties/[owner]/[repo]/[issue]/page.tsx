@@ -1,15 +1,31 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { use } from 'react';
 import Link from 'next/link';
-import { formatUnits } from 'viem';
 import { ConnectButton } from '@/components/ConnectButton';
 import { useWallet } from '@/contexts/WalletContext';
-import { useBounty } from '@/hooks/useBounty';
+import {
+  useBountyDetails,
+  useBountyFunding,
+  useBountyPayments,
+  usePayoutSplit,
+  useWatchBounty
+} from '@/hooks/useBounty';
 import { useIssue } from '@/hooks/useGithub';
-// import { usePayment } from '@/hooks/usePayment';
+import { usePayment } from '@/hooks/usePayment';
+import { useTokenInfo } from '@/hooks/useTokens';
+import { formatTokenAmount } from '@/lib/contracts/tokens';
+import { describeRejectionReason } from '@oracle/rules/verification';
 import { ClaimModal } from '@/components/ClaimModal';
+import { PaymentModal } from '@/components/PaymentModal';
+import { RefundPanel } from '@/components/RefundPanel';
+import { VerificationPanel } from '@/components/VerificationPanel';
+import { TopUpModal } from '@/components/TopUpModal';
+import { FunderList } from '@/components/FunderList';
+import { PayoutSplitPanel } from '@/components/PayoutSplitPanel';
+import { GitHubRateLimitNotice } from '@/components/GitHubRateLimitNotice';
+import { TokenAmount } from '@/components/TokenAmount';
 import {
   GitPullRequest,
   ArrowLeft,
@@ -22,7 +38,7 @@ import {
   Sparkles
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import type { BountyStatus, Bounty } from '@/types';
+import type { BountyStatus } from '@/types';
 
 const statusColors: Record<BountyStatus, string> = {
   [0]: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300',
@@ -55,68 +71,84 @@ export default function BountyDetailPage({
   const resolvedParams = use(params);
   const { owner, repo, issue } = resolvedParams;
 
-  const { isConnected } = useWallet();
-  const { getBounty, claimBounty, watchBountyStatus, computeBountyId, isLoading: bountyLoading } = useBounty();
+  const { address, isConnected } = useWallet();
+  const { bounty, isLoading: bountyLoading, refetch: reloadBounty } = useBountyDetails(owner, repo, issue);
   const { issue: githubIssue, isLoading: issueLoading } = useIssue(owner, repo, issue);
-  // const { fetchPaidContext, isProcessing: paymentLoading } = usePayment();
+  const {
+    fetchPaidContext,
+    approvePayment,
+    cancelPayment,
+    step: paymentStep,
+    challenge,
+    expiresAt,
+    payer,
+    isProcessing: paymentLoading,
+    error: paymentError
+  } = usePayment();
+
+  const { funders, contribution, refundClaimed } = useBountyFunding(bounty?.id);
+  const { split, usernames: splitUsernames } = usePayoutSplit(bounty?.id);
+  const { payments } = useBountyPayments(bounty?.id, !!split && bounty?.status === 2);
 
-  const [bounty, setBounty] = useState<Bounty | null>(null);
   const [showClaimModal, setShowClaimModal] = useState(false);
+  const [showTopUpModal, setShowTopUpModal] = useState(false);
   const [prNumber, setPrNumber] = useState('');
   const [claiming, setClaiming] = useState(false);
   const [context, setContext] = useState<any>(null);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [statusNotification, setStatusNotification] = useState<{
-    type: 'rejected' | 'paid' | null;
+    type: 'rejected' | 'paid' | 'refunded' | null;
     message: string;
   } | null>(null);
+  const tokenInfo = useTokenInfo(bounty?.token);
 
-  useEffect(() => {
-    loadBounty();
-  }, [owner, repo, issue]);
-
-  // Watch for real-time status changes (including rejections)
-  useEffect(() => {
-    // optional chaining
-    if (!bounty?.id) return;
-
-    const unwatch = watchBountyStatus(bounty.id, (newStatus) => {
-      console.log('Bounty status changed:', newStatus); 
-
-      // Check if bounty was rejected (went from VERIFYING back to OPEN)
-      if (bounty.status === 1 && newStatus === 0) {
-        setStatusNotification({
-          type: 'rejected',
-          message: 'Claim verification failed. The bounty is now open for new claims.'
-        });
-      } else if (newStatus === 2) {
+  // Watch for real-time status changes (including rejections).
+  // The cached bounty itself is refreshed by the event-driven cache sync.
+  useWatchBounty(bounty?.id, {
+    onStatusChanged: (newStatus) => {
+      if (newStatus === 2) {
         setStatusNotification({
           type: 'paid',
           message: 'Bounty has been paid! Verification successful.'
         });
       }
+    },
+    // The oracle says why verification failed; the bounty is open again
+    onClaimRejected: (reason) => {
+      setStatusNotification({
+        type: 'rejected',
+        message: `Claim verification failed: ${describeRejectionReason(reason)} The bounty is now open for new claims.`
+      });
+    },
+    // Watch for funders reclaiming their share after the deadline
+    onRefunded: (refunded, funder) => {
+      const recipient = address && funder.toLowerCase() === address.toLowerCase()
+        ? 'you'
+        : `${funder.slice(0, 6)}...${funder.slice(-4)}`;
+      setStatusNotification({
+        type: 'refunded',
+        message: tokenInfo
+          ? `Bounty refunded. ${formatTokenAmount(refunded, tokenInfo)} returned to ${recipient}.`
+          : `Bounty refunded to ${recipient}.`
+      });
+    }
+  });
 
-      // Reload bounty data
-      loadBounty();
-    });
-
-    return () => unwatch();
-  }, [bounty?.id, bounty?.status]);
-
-  const loadBounty = async () => {
-    console.log('Detail page loading bounty for:', { owner, repo, issue });
-    const bountyData = await getBounty(owner, repo, issue);
-    console.log('Detail page received bounty:', bountyData);
-    setBounty(bountyData);
+  const handleGetContext = async () => {
+    setShowPaymentModal(true);
+    try {
+      const contextData = await fetchPaidContext(owner, repo, issue);
+      setContext(contextData.context);
+    } catch (error: any) {
+      // Failures are shown in the payment modal
+      console.error('Failed to get context:', error);
+    }
   };
 
-  // const handleGetContext = async () => {
-  //   try {
-  //     const contextData = await fetchPaidContext(owner, repo, issue);
-  //     setContext(contextData.context);
-  //   } catch (error: any) {
-  //     alert(`Failed to get context: ${error.message}`);
-  //   }
-  // };
+  const handleClosePaymentModal = () => {
+    cancelPayment();
+    setShowPaymentModal(false);
+  };
 
   if (bountyLoading || issueLoading) {
     return (
@@ -162,7 +194,8 @@ export default function BountyDetailPage({
     );
   }
 
-  const amount = formatUnits(bounty.amount, 6);
+  // Each funder refunds their own share, the first one after the deadline closes the bounty
+  const canReclaim = contribution > 0n && !refundClaimed && (bounty.status === 0 || bounty.status === 3);
   const createdAgo = formatDistanceToNow(new Date(Number(bounty.creationTime) * 1000), {
     addSuffix: true
   });
@@ -195,6 +228,10 @@ export default function BountyDetailPage({
           Back to Bounties
         </Link>
 
+        <div className="mb-6 empty:hidden">
+          <GitHubRateLimitNotice />
+        </div>
+
         {/* Status Notification Banner */}
         {statusNotification && (
           <div className={`mb-6 p-4 rounded-lg border flex items-center justify-between ${statusNotification.type === 'rejected'
@@ -241,6 +278,14 @@ export default function BountyDetailPage({
             </span>
           </div>
 
+          {/* Refund (funders only) */}
+          {canReclaim && (
+            <RefundPanel bounty={bounty} contribution={contribution} onSuccess={() => reloadBounty()} />
+          )}
+
+          {/* Claim waiting on the oracle */}
+          <VerificationPanel bounty={bounty} onSuccess={() => reloadBounty()} />
+
           {/* Bounty Amount */}
           <div className="bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800 
                         rounded-lg p-6 mb-6">
@@ -249,12 +294,20 @@ export default function BountyDetailPage({
               <div>
                 <p className="text-sm text-gray-600 dark:text-gray-400">Bounty Reward</p>
                 <p className="text-3xl font-bold text-gray-900 dark:text-white">
-                  ${amount} <span className="text-lg text-gray-500">USDC</span>
+                  <TokenAmount
+                    amount={bounty.amount}
+                    token={bounty.token}
+                    symbolClassName="text-lg font-normal text-gray-500"
+                  />
                 </p>
               </div>
             </div>
           </div>
 
+          <FunderList bounty={bounty} funders={funders} />
+
+          <PayoutSplitPanel bounty={bounty} split={split} usernames={splitUsernames} payments={payments} />
+
           {/* Issue Description */}
           {githubIssue?.body && (
             <div className="mb-6">
@@ -279,7 +332,8 @@ export default function BountyDetailPage({
             {bounty.status === 2 && bounty.prClaimer && (
               <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
                 <CheckCircle className="w-4 h-4" />
-                <span>Claimed by @{bounty.prClaimer}</span>
+                {/* A split payout lists every recipient, comma separated */}
+                <span>Claimed by {bounty.prClaimer.split(',').map((username) => `@${username}`).join(', ')}</span>
               </div>
             )}
           </div>
@@ -310,7 +364,32 @@ export default function BountyDetailPage({
               </button>
             )}
 
+            {(bounty.status === 0 || bounty.status === 1) && isConnected && (
+              <button
+                onClick={() => setShowTopUpModal(true)}
+                className="flex-1 border border-green-600 text-green-700 dark:text-green-400
+                         hover:bg-green-50 dark:hover:bg-green-900/10 px-4 py-3 rounded-lg
+                         font-medium transition-colors"
+              >
+                Top Up
+              </button>
+            )}
 
+            {isConnected && (
+              <button
+                onClick={handleGetContext}
+                disabled={paymentLoading}
+                className="flex-1 flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 
+                         disabled:bg-gray-400 text-white px-4 py-3 rounded-lg font-medium transition-colors"
+              >
+                {paymentLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Sparkles className="w-5 h-5" />
+                )}
+                {context ? 'Refresh AI Context' : 'Get AI Context'}
+              </button>
+            )}
           </div>
 
           {/* Context Display */}
@@ -332,11 +411,35 @@ export default function BountyDetailPage({
       {bounty && (
         <ClaimModal
           bounty={bounty}
+          split={split}
+          splitUsernames={splitUsernames}
           isOpen={showClaimModal}
           onClose={() => setShowClaimModal(false)}
-          onSuccess={loadBounty}
+          onSuccess={() => reloadBounty()}
         />
       )}
+
+      {/* Top Up Modal */}
+      {bounty && (
+        <TopUpModal
+          bounty={bounty}
+          isOpen={showTopUpModal}
+          onClose={() => setShowTopUpModal(false)}
+          onSuccess={() => reloadBounty()}
+        />
+      )}
+
+      {/* Payment Modal */}
+      <PaymentModal
+        isOpen={showPaymentModal}
+        step={paymentStep}
+        challenge={challenge}
+        payer={payer}
+        expiresAt={expiresAt}
+        error={paymentError}
+        onConfirm={approvePayment}
+        onClose={handleClosePaymentModal}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,166 +1,27 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { ConnectButton } from '@/components/ConnectButton';
 import { BountyCard } from '@/components/BountyCard';
-import { publicClient } from '@/lib/viem/client';
-import { CONTRACTS } from '@/lib/contracts/addresses';
-import { BountyRegistryABI } from '@/lib/contracts/abis';
+import { useBountyList, type BountyListFilter } from '@/hooks/useBountyList';
 import { Loader2, GitPullRequest, Filter } from 'lucide-react';
-import type { Bounty } from '@/types';
 
 export default function BountiesPage() {
-  const [bounties, setBounties] = useState<Bounty[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'open' | 'paid'>('open');
-  const [hasMore, setHasMore] = useState(true);
-  const [oldestBlock, setOldestBlock] = useState<bigint | null>(null);
-  const [latestBlock, setLatestBlock] = useState<bigint | null>(null);
-  const [totalBlocksScanned, setTotalBlocksScanned] = useState<bigint>(0n);
-
-  useEffect(() => {
-    loadBounties(true); // true = initial load
-  }, []);
-
-  const loadBounties = async (isInitialLoad: boolean = false) => {
-    if (isInitialLoad) {
-      setIsLoading(true);
-    } else {
-      setIsLoadingMore(true);
-    }
-
-    try {
-      // Get current block number only on initial load
-      let currentLatestBlock = latestBlock;
-      if (isInitialLoad || !currentLatestBlock) {
-        currentLatestBlock = await publicClient.getBlockNumber();
-        setLatestBlock(currentLatestBlock);
-      }
-
-      // Determine block range (100,000 blocks at a time)
-      const BLOCKS_PER_LOAD = 100000n;
-      let fromBlock: bigint;
-      let toBlock: bigint;
-
-      if (isInitialLoad || !oldestBlock) {
-        // First load: get most recent 100,000 blocks
-        toBlock = currentLatestBlock;
-        fromBlock = currentLatestBlock > BLOCKS_PER_LOAD
-          ? currentLatestBlock - BLOCKS_PER_LOAD
-          : 0n;
-      } else {
-        // Load more: get previous 100,000 blocks
-        toBlock = oldestBlock - 1n;
-        fromBlock = toBlock > BLOCKS_PER_LOAD
-          ? toBlock - BLOCKS_PER_LOAD
-          : 0n;
-
-        if (fromBlock < 0n) {
-          fromBlock = 0n;
-        }
-      }
-
-      // Check if we've reached genesis block
-      if (fromBlock === 0n && !isInitialLoad) {
-        setHasMore(false);
-      }
-
-      console.log(`Loading bounties from block ${fromBlock} to ${toBlock} (${toBlock - fromBlock} blocks)`);
-
-      // Update total blocks scanned
-      const blocksInThisLoad = toBlock - fromBlock;
-      setTotalBlocksScanned(prev => prev + blocksInThisLoad);
-
-      // Fetch BountyCreated events
-      const logs = await publicClient.getLogs({
-        address: CONTRACTS.sepolia.BountyRegistry,
-        event: {
-          name: 'BountyCreated',
-          type: 'event',
-          inputs: [
-            { type: 'bytes32', name: 'bountyID', indexed: true },
-            { type: 'string', name: 'repoOwner' },
-            { type: 'string', name: 'repoName' },
-            { type: 'string', name: 'issueNumber' },
-            { type: 'address', name: 'issuer', indexed: true },
-            { type: 'address', name: 'token' },
-            { type: 'uint256', name: 'amount' }
-          ]
-        },
-        fromBlock: fromBlock,
-        toBlock: toBlock
-      });
-
-      console.log(`Found ${logs.length} bounty events`);
-
-      // Fetch full details for each bounty
-      const bountyPromises = logs.map(async (log) => {
-        const { bountyID, repoOwner, repoName, issueNumber } = log.args as any;
-
-        try {
-          const details = await publicClient.readContract({
-            address: CONTRACTS.sepolia.BountyRegistry,
-            abi: BountyRegistryABI,
-            functionName: 'getBountyDetails',
-            args: [bountyID]
-          });
-
-          const [issuer, token, amount, status, creationTime, prClaimer, activeRequestId] = details;
-
-          return {
-            id: bountyID,
-            issuer,
-            token,
-            amount,
-            status,
-            creationTime,
-            prClaimer,
-            activeRequestId,
-            repoOwner,
-            repoName,
-            issueNumber
-          } as Bounty;
-        } catch (error) {
-          console.error(`Failed to fetch details for bounty ${bountyID}:`, error);
-          return null;
-        }
-      });
-
-      const loadedBounties = (await Promise.all(bountyPromises)).filter(b => b !== null) as Bounty[];
-
-      if (isInitialLoad) {
-        setBounties(loadedBounties);
-      } else {
-        // Append older bounties (deduplicate by ID)
-        // functional update pattern of useState
-        setBounties(prev => {
-          const existingIds = new Set(prev.map(b => b.id));
-          const newBounties = loadedBounties.filter(b => !existingIds.has(b.id));
-          return [...prev, ...newBounties];
-        });
-      }
-
-      // Update oldest block tracker
-      setOldestBlock(fromBlock);
-
-      // Check if we've reached genesis
-      if (fromBlock === 0n) {
-        setHasMore(false);
-        console.log('Reached genesis block - no more bounties to load');
-      }
-
-      console.log(`Total bounties loaded: ${isInitialLoad ? loadedBounties.length : bounties.length + loadedBounties.length}`);
-
-    } catch (error) {
-      console.error('Error loading bounties:', error);
-      setHasMore(false);
-    } finally {
-      setIsLoading(false);
-      setIsLoadingMore(false);
-    }
-  };
+  const [filter, setFilter] = useState<BountyListFilter>('open');
+  const {
+    bounties,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    refresh,
+    isIndexed,
+    totalIndexed,
+    latestBlock,
+    oldestBlock,
+    blocksScanned
+  } = useBountyList(filter);
 
   const filteredBounties = bounties.filter((bounty) => {
     if (filter === 'open') return bounty.status === 0;
@@ -181,6 +42,12 @@ export default function BountiesPage() {
               </span>
             </Link>
             <div className="flex items-center gap-4">
+              <Link
+                href="/dashboard"
+                className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                Dashboard
+              </Link>
               <Link
                 href="/bounties/create"
                 className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg 
@@ -209,14 +76,7 @@ export default function BountiesPage() {
           <div className="flex items-center gap-3">
             {/* Refresh Button */}
             <button
-              onClick={() => {
-                setBounties([]);
-                setOldestBlock(null);
-                setLatestBlock(null);
-                setTotalBlocksScanned(0n);
-                setHasMore(true);
-                loadBounties(true);
-              }}
+              onClick={refresh}
               disabled={isLoading}
               className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg
                        hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors
@@ -238,7 +98,7 @@ export default function BountiesPage() {
               <Filter className="w-5 h-5 text-gray-500" />
               <select
                 value={filter}
-                onChange={(e) => setFilter(e.target.value as any)}
+                onChange={(e) => setFilter(e.target.value as BountyListFilter)}
                 className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
                          bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
                          focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -296,7 +156,7 @@ export default function BountiesPage() {
             <div className="mt-12 text-center">
               {hasMore && (
                 <button
-                  onClick={() => loadBounties(false)}
+                  onClick={loadMore}
                   disabled={isLoadingMore}
                   className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white 
                            px-8 py-4 rounded-lg font-medium transition-colors inline-flex 
@@ -310,7 +170,9 @@ export default function BountiesPage() {
                   ) : (
                     <>
                       Load More Bounties
-                      <span className="text-sm opacity-75">(Previous 100k blocks)</span>
+                      <span className="text-sm opacity-75">
+                        {isIndexed ? `(${bounties.length} of ${totalIndexed ?? '?'})` : '(Previous 100k blocks)'}
+                      </span>
                     </>
                   )}
                 </button>
@@ -338,11 +200,20 @@ export default function BountiesPage() {
                     <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
                     <span>{bounties.length} total loaded</span>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <span>{totalBlocksScanned.toLocaleString()} blocks scanned</span>
-                  </div>
-                  {oldestBlock !== null && latestBlock !== null && (
+                  {isIndexed ? (
+                    latestBlock !== null && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                        <span>Indexed to block {latestBlock.toString()}</span>
+                      </div>
+                    )
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                      <span>{blocksScanned.toLocaleString()} blocks scanned</span>
+                    </div>
+                  )}
+                  {!isIndexed && oldestBlock !== null && latestBlock !== null && (
                     <div className="flex items-center gap-2">
                       <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
                       <span className="font-mono text-xs">
@@ -0,0 +1,258 @@
+'use client';
+
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { ConnectButton } from '@/components/ConnectButton';
+import { useWallet } from '@/contexts/WalletContext';
+import { useDashboard, totalsByToken } from '@/hooks/useDashboard';
+import { TokenAmount } from '@/components/TokenAmount';
+import {
+  GitPullRequest,
+  Loader2,
+  Coins,
+  Send,
+  Wallet,
+  RotateCcw,
+  AlertCircle
+} from 'lucide-react';
+import type { Bounty, BountyStatus } from '@/types';
+
+const statusLabels: Record<BountyStatus, string> = {
+  [0]: 'Open',
+  [1]: 'Verifying',
+  [2]: 'Paid',
+  [3]: 'Refunded'
+};
+
+function bountyHref(bounty: Bounty): string {
+  return `/bounties/${bounty.repoOwner}/${bounty.repoName}/${bounty.issueNumber}`;
+}
+
+export default function DashboardPage() {
+  const { address, isConnected } = useWallet();
+  const { funded, claims, payouts, refundable, isLoading, isRefreshing, error, reload } = useDashboard(address);
+
+  const claimedBounties = claims
+    .map((claim) => claim.bounty)
+    .filter((b): b is Bounty => !!b);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <Link href="/" className="flex items-center gap-2">
+              <GitPullRequest className="w-8 h-8 text-blue-600" />
+              <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                MergeMint
+              </span>
+            </Link>
+            <div className="flex items-center gap-4">
+              <Link
+                href="/bounties"
+                className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                Browse Bounties
+              </Link>
+              <ConnectButton />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              Dashboard
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Bounties you funded, claims you made and payouts you received
+            </p>
+          </div>
+          {isConnected && (
+            <button
+              onClick={reload}
+              disabled={isRefreshing}
+              className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                       hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Refresh"
+            >
+              <RotateCcw className={`w-5 h-5 text-gray-600 dark:text-gray-400 ${isRefreshing ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
+
+        {/* Not Connected State */}
+        {!isConnected && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-12 text-center">
+            <Wallet className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              Connect Your Wallet
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-8">
+              Connect your wallet to see your bounties and payouts
+            </p>
+            <ConnectButton />
+          </div>
+        )}
+
+        {isConnected && isLoading && (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        )}
+
+        {isConnected && error && (
+          <div className="mb-6 p-4 rounded-lg border bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <p className="text-sm text-red-800 dark:text-red-300">{error}</p>
+          </div>
+        )}
+
+        {isConnected && !isLoading && (
+          <div className="space-y-8">
+            {/* Refundable */}
+            <Section
+              icon={<RotateCcw className="w-5 h-5 text-orange-600" />}
+              title="Refundable Now"
+              empty="None of your bounties are past their deadline."
+              totals={totalsByToken(refundable)}
+            >
+              {refundable.map(({ bounty, amount }) => (
+                <Row
+                  key={bounty.id}
+                  bounty={bounty}
+                  amount={amount}
+                  token={bounty.token}
+                  detail={`Created ${formatDistanceToNow(new Date(Number(bounty.creationTime) * 1000), { addSuffix: true })}`}
+                />
+              ))}
+            </Section>
+
+            {/* Funded */}
+            <Section
+              icon={<Coins className="w-5 h-5 text-green-600" />}
+              title="Bounties Funded"
+              empty="You haven't funded any bounties yet."
+              totals={totalsByToken(funded)}
+            >
+              {funded.map((bounty) => (
+                <Row
+                  key={bounty.id}
+                  bounty={bounty}
+                  amount={bounty.amount}
+                  token={bounty.token}
+                  detail={statusLabels[bounty.status]}
+                />
+              ))}
+            </Section>
+
+            {/* Claims */}
+            <Section
+              icon={<Send className="w-5 h-5 text-blue-600" />}
+              title="Claims Submitted"
+              empty="You haven't submitted any claims yet."
+              totals={totalsByToken(claimedBounties)}
+            >
+              {claims.map((claim) => claim.bounty && (
+                <Row
+                  key={claim.transactionHash}
+                  bounty={claim.bounty}
+                  amount={claim.bounty.amount}
+                  token={claim.bounty.token}
+                  detail={`PR #${claim.prNumber} • ${statusLabels[claim.bounty.status]}`}
+                />
+              ))}
+            </Section>
+
+            {/* Payouts */}
+            <Section
+              icon={<Wallet className="w-5 h-5 text-purple-600" />}
+              title="Payouts Received"
+              empty="No payouts yet."
+              totals={totalsByToken(
+                payouts
+                  .filter((payout) => payout.bounty)
+                  .map((payout) => ({ token: payout.bounty!.token, amount: payout.amount }))
+              )}
+            >
+              {payouts.map((payout) => payout.bounty && (
+                <Row
+                  key={payout.transactionHash}
+                  bounty={payout.bounty}
+                  amount={payout.amount}
+                  token={payout.bounty.token}
+                  detail={`Paid to @${payout.githubUsername}`}
+                />
+              ))}
+            </Section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function Section({ icon, title, empty, totals, children }: {
+  icon: React.ReactNode;
+  title: string;
+  empty: string;
+  totals: Array<{ token: `0x${string}`; amount: bigint }>;
+  children: React.ReactNode;
+}) {
+  const hasRows = Array.isArray(children) ? children.some(Boolean) : !!children;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          {icon}
+          {title}
+        </h2>
+        <div className="flex flex-wrap gap-3 text-sm">
+          {totals.map((total) => (
+            <span
+              key={total.token}
+              className="bg-gray-100 dark:bg-gray-900 px-3 py-1 rounded-full font-medium text-gray-900 dark:text-gray-100"
+            >
+              <TokenAmount amount={total.amount} token={total.token} />
+            </span>
+          ))}
+        </div>
+      </div>
+      {hasRows ? (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">{children}</div>
+      ) : (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">{empty}</p>
+      )}
+    </div>
+  );
+}
+
+function Row({ bounty, amount, token, detail }: {
+  bounty: Bounty;
+  amount: bigint;
+  token: `0x${string}`;
+  detail: string;
+}) {
+  return (
+    <Link
+      href={bountyHref(bounty)}
+      className="flex justify-between items-center px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+    >
+      <div>
+        <p className="font-mono text-gray-900 dark:text-white">
+          {bounty.repoOwner}/{bounty.repoName}#{bounty.issueNumber}
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{detail}</p>
+      </div>
+      <span className="font-semibold text-gray-900 dark:text-white">
+        <TokenAmount amount={amount} token={token} />
+      </span>
+    </Link>
+  );
+}
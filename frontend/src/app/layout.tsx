@@ -2,6 +2,10 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { WalletProvider } from '@/contexts/WalletContext';
+import { ToastProvider } from '@/contexts/ToastContext';
+import { Web3Provider } from '@/contexts/Web3Provider';
+import { BountyCacheSync } from '@/components/BountyCacheSync';
+import { TransactionProvider } from '@/contexts/TransactionContext';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -18,9 +22,16 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        <WalletProvider>
-          {children}
-        </WalletProvider>
+        <ToastProvider>
+          <Web3Provider>
+            <WalletProvider>
+              <TransactionProvider>
+                <BountyCacheSync />
+                {children}
+              </TransactionProvider>
+            </WalletProvider>
+          </Web3Provider>
+        </ToastProvider>
       </body>
     </html>
   );
@@ -1,21 +1,22 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useWallet } from '@/contexts/WalletContext';
-import { publicClient } from '@/lib/viem/client';
-import { CONTRACTS } from '@/lib/contracts/addresses';
-import { USDC_ABI, BountyRegistryABI } from '@/lib/contracts/abis';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ERC20_ABI, BountyRegistryABI } from '@/lib/contracts/abis';
 import { formatUnits } from 'viem';
 import { ConnectButton } from '@/components/ConnectButton';
 
 export default function TestPage() {
-  const { address, isConnected } = useWallet();
+  const { address, isConnected, walletChainId } = useWallet();
+  const { deployment, publicClient } = useActiveChain();
+  const { toast } = useToast();
   const [results, setResults] = useState<any>({});
   const [testing, setTesting] = useState(false);
 
   const runTests = async () => {
     if (!address) {
-      alert('Please connect wallet first');
+      toast({ variant: 'error', title: 'Please connect wallet first' });
       return;
     }
 
@@ -24,9 +25,8 @@ export default function TestPage() {
 
     try {
       // Test 1: Check network
-      const chainId = await publicClient.getChainId();
-      tests.chainId = chainId;
-      tests.isSepoliaNetwork = chainId === 11155111;
+      tests.chainId = walletChainId;
+      tests.isExpectedNetwork = walletChainId === deployment.chain.id;
 
       // Test 2: Check ETH balance
       const ethBalance = await publicClient.getBalance({ address });
@@ -36,10 +36,10 @@ export default function TestPage() {
       // Test 3: Check if BountyRegistry exists
       try {
         const registryCode = await publicClient.getBytecode({
-          address: CONTRACTS.sepolia.BountyRegistry
+          address: deployment.BountyRegistry
         });
         tests.bountyRegistryExists = !!registryCode && registryCode !== '0x';
-        tests.bountyRegistryAddress = CONTRACTS.sepolia.BountyRegistry;
+        tests.bountyRegistryAddress = deployment.BountyRegistry;
       } catch (e: any) {
         tests.bountyRegistryExists = false;
         tests.bountyRegistryError = e.message;
@@ -48,7 +48,7 @@ export default function TestPage() {
       // Test 4: Check if USDC exists
       try {
         const usdcCode = await publicClient.getBytecode({
-          address: CONTRACTS.sepolia.USDC
+          address: deployment.USDC
         });
         tests.usdcExists = !!usdcCode && usdcCode !== '0x';
       } catch (e: any) {
@@ -60,8 +60,8 @@ export default function TestPage() {
       if (tests.usdcExists) {
         try {
           const balance = await publicClient.readContract({
-            address: CONTRACTS.sepolia.USDC,
-            abi: USDC_ABI,
+            address: deployment.USDC,
+            abi: ERC20_ABI,
             functionName: 'balanceOf',
             args: [address]
           });
@@ -76,8 +76,8 @@ export default function TestPage() {
       if (tests.usdcExists) {
         try {
           const decimals = await publicClient.readContract({
-            address: CONTRACTS.sepolia.USDC,
-            abi: USDC_ABI,
+            address: deployment.USDC,
+            abi: ERC20_ABI,
             functionName: 'decimals'
           });
           tests.usdcDecimals = decimals;
@@ -90,7 +90,7 @@ export default function TestPage() {
       if (tests.bountyRegistryExists) {
         try {
           const slotId = await publicClient.readContract({
-            address: CONTRACTS.sepolia.BountyRegistry,
+            address: deployment.BountyRegistry,
             abi: BountyRegistryABI,
             functionName: 'secretsSlotID'
           });
@@ -150,8 +150,8 @@ export default function TestPage() {
               <StatusCard
                 title="Network"
                 items={[
-                  { label: 'Chain ID', value: results.chainId, status: results.isSepoliaNetwork ? 'success' : 'error' },
-                  { label: 'Is Sepolia', value: results.isSepoliaNetwork ? 'Yes' : 'No', status: results.isSepoliaNetwork ? 'success' : 'error' }
+                  { label: 'Chain ID', value: results.chainId, status: results.isExpectedNetwork ? 'success' : 'error' },
+                  { label: `Is ${deployment.name}`, value: results.isExpectedNetwork ? 'Yes' : 'No', status: results.isExpectedNetwork ? 'success' : 'error' }
                 ]}
               />
 
@@ -192,8 +192,8 @@ export default function TestPage() {
                     Action Items:
                   </h3>
                   <ul className="space-y-2 text-sm text-blue-800 dark:text-blue-300">
-                    {!results.isSepoliaNetwork && (
-                      <li>• Switch MetaMask to Sepolia network</li>
+                    {!results.isExpectedNetwork && (
+                      <li>• Switch MetaMask to {deployment.name}</li>
                     )}
                     {!results.hasETH && (
                       <li>• Get Sepolia ETH from <a href="https://sepoliafaucet.com" target="_blank" className="underline">faucet</a></li>
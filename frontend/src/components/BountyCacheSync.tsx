@@ -0,0 +1,11 @@
+'use client';
+
+import { useBountyCacheSync } from '@/hooks/useBounty';
+
+/**
+ * Renders nothing; keeps cached bounty queries in step with registry events
+ */
+export function BountyCacheSync() {
+  useBountyCacheSync();
+  return null;
+}
@@ -1,8 +1,8 @@
 'use client';
 
-import { formatUnits } from 'viem';
-import { ExternalLink, Clock, DollarSign, GitPullRequest } from 'lucide-react';
+import { ExternalLink, Clock, DollarSign, GitPullRequest, Hourglass } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { TokenAmount } from '@/components/TokenAmount';
 import type { Bounty, BountyStatus } from '@/types';
 
 interface BountyCardProps {
@@ -37,10 +37,11 @@ function getStatusLabel(status: BountyStatus): string {
 }
 
 export function BountyCard({ bounty, issue, onClaim }: BountyCardProps) {
-  const amount = formatUnits(bounty.amount, 6); // USDC has 6 decimals
   const createdAgo = formatDistanceToNow(new Date(Number(bounty.creationTime) * 1000), {
     addSuffix: true
   });
+  const deadline = new Date(Number(bounty.deadline) * 1000);
+  const isPastDeadline = deadline.getTime() <= Date.now();
 
   return (
     <div className="border border-gray-200 dark:border-gray-800 rounded-lg p-6 hover:shadow-lg transition-shadow">
@@ -70,9 +71,12 @@ export function BountyCard({ bounty, issue, onClaim }: BountyCardProps) {
       <div className="flex items-center gap-2 mb-4">
         <DollarSign className="w-5 h-5 text-green-600" />
         <span className="text-2xl font-bold text-gray-900 dark:text-gray-100">
-          ${amount}
+          <TokenAmount
+            amount={bounty.amount}
+            token={bounty.token}
+            symbolClassName="text-sm font-normal text-gray-500"
+          />
         </span>
-        <span className="text-sm text-gray-500">USDC</span>
       </div>
 
       {/* Metadata */}
@@ -82,6 +86,17 @@ export function BountyCard({ bounty, issue, onClaim }: BountyCardProps) {
           <span>Created {createdAgo}</span>
         </div>
 
+        {(bounty.status === 0 || bounty.status === 1) && (
+          <div className={`flex items-center gap-2 ${isPastDeadline ? 'text-orange-600 dark:text-orange-400' : ''}`}>
+            <Hourglass className="w-4 h-4" />
+            <span>
+              {isPastDeadline
+                ? `Deadline passed ${formatDistanceToNow(deadline, { addSuffix: true })}`
+                : `${formatDistanceToNow(deadline)} left`}
+            </span>
+          </div>
+        )}
+
         {bounty.status === 2 && bounty.prClaimer && (
           <div className="flex items-center gap-2">
             <GitPullRequest className="w-4 h-4" />
@@ -1,28 +1,146 @@
 'use client';
 
-import { useState } from 'react';
-import { useBounty } from '@/hooks/useBounty';
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { useBounty, useBountyDurationBounds, type FundingMethod, type TxCostPreview } from '@/hooks/useBounty';
 import { useGitHub } from '@/hooks/useGithub';
-import { AlertCircle, CheckCircle, Loader2, Search } from 'lucide-react';
+import { useAllowedTokens, useTokenBalance } from '@/hooks/useTokens';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useTransactions, getFlowId, getFlowStatus, type TxFlow } from '@/contexts/TransactionContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { formatTokenAmount } from '@/lib/contracts/tokens';
+import { DEFAULT_BOUNTY_DURATION } from '@/lib/contracts/BountyRegistry';
+import { getGitHubRateLimitState } from '@/lib/github/client';
+import { TxCost } from '@/components/TxCost';
+import { TxProgress } from '@/components/TxProgress';
+import { GitHubRateLimitNotice } from '@/components/GitHubRateLimitNotice';
+import { AlertCircle, CheckCircle, Loader2, Search, RotateCcw } from 'lucide-react';
+
+// Flows worth picking back up after a reload: still running, or stopped after a confirmed step
+function isResumable(flow: TxFlow): boolean {
+  const status = getFlowStatus(flow);
+  return status === 'active'
+    || status === 'interrupted'
+    || (status === 'failed' && flow.steps.some((s) => s.status === 'confirmed'));
+}
+
+const DAY = 24 * 60 * 60;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// A date input's yyyy-MM-dd value, in local time
+function toDateInput(timestamp: number): string {
+  return format(new Date(timestamp * 1000), 'yyyy-MM-dd');
+}
+
+// The picked day at the current time of day, so the earliest and latest days the
+// picker offers are still within the registry's bounds when the transaction lands
+function toDeadline(date: string): bigint {
+  const [year, month, day] = date.split('-').map(Number);
+  const now = new Date();
+  const deadline = new Date(year, month - 1, day, now.getHours(), now.getMinutes(), now.getSeconds());
+  return BigInt(Math.floor(deadline.getTime() / 1000));
+}
 
 export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
   const [githubUrl, setGithubUrl] = useState('');
   const [amount, setAmount] = useState('');
+  const [tokenAddress, setTokenAddress] = useState<`0x${string}` | null>(null);
+  const [deadlineDate, setDeadlineDate] = useState('');
   const [parsedData, setParsedData] = useState<{
     owner: string;
     repo: string;
     issueNumber: string;
   } | null>(null);
   const [step, setStep] = useState<'input' | 'confirm' | 'creating'>('input');
+  const [fundingMethod, setFundingMethod] = useState<FundingMethod | null>(null);
+  const [costPreview, setCostPreview] = useState<TxCostPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [flowId, setFlowId] = useState<string | null>(null);
   
-  const { createBounty, isLoading } = useBounty();
+  const { createBounty, previewCreateBounty, computeBountyId, isLoading } = useBounty();
   const { parseGitHubUrl, getIssue } = useGitHub();
+  const { toast } = useToast();
+  const { address } = useWallet();
+  const { chainId, deployment } = useActiveChain();
+  const { flows, getFlow, clearFlow } = useTransactions();
+  const { tokens, isLoading: isLoadingTokens, error: tokensError } = useAllowedTokens();
+
+  const token = tokens.find((t) => t.address === tokenAddress) ?? null;
+  const balance = useTokenBalance(token?.address);
+  const durationBounds = useBountyDurationBounds();
+
+  // The earliest day is a day past the minimum so it can't fall short by the time it's mined
+  const minDeadlineDate = durationBounds && toDateInput(nowSeconds() + Number(durationBounds.min) + DAY);
+  const maxDeadlineDate = durationBounds && toDateInput(nowSeconds() + Number(durationBounds.max));
+
+  // Default to USDC when it's allowed, else the first allowed token
+  useEffect(() => {
+    if (token || tokens.length === 0) return;
+    const usdc = tokens.find((t) => t.address.toLowerCase() === deployment.USDC.toLowerCase());
+    setTokenAddress((usdc ?? tokens[0]).address);
+  }, [tokens]);
+
+  // Default to DEFAULT_BOUNTY_DURATION, within the registry's bounds
+  useEffect(() => {
+    if (deadlineDate || !minDeadlineDate || !maxDeadlineDate) return;
+    const preferred = toDateInput(nowSeconds() + Number(DEFAULT_BOUNTY_DURATION));
+    // yyyy-MM-dd strings compare in date order
+    setDeadlineDate(
+      preferred < minDeadlineDate ? minDeadlineDate : preferred > maxDeadlineDate ? maxDeadlineDate : preferred
+    );
+  }, [deadlineDate, minDeadlineDate, maxDeadlineDate]);
+
+  const flow = flowId ? getFlow(flowId) : null;
+  const flowStatus = flow ? getFlowStatus(flow) : null;
+
+  // Pick up a bounty that was still being created when the page was left
+  useEffect(() => {
+    if (step !== 'input' || flowId || !address) return;
+
+    const unfinished = flows.find((f) =>
+      f.kind === 'createBounty' && f.chainId === chainId && f.account === address && isResumable(f)
+    );
+    if (!unfinished) return;
+
+    const { repoOwner, repoName, issueNumber, amount: flowAmount, token: flowToken, deadline } = unfinished.params;
+    setGithubUrl(`https://github.com/${repoOwner}/${repoName}/issues/${issueNumber}`);
+    setParsedData({ owner: repoOwner, repo: repoName, issueNumber });
+    setAmount(flowAmount);
+    setTokenAddress(flowToken as `0x${string}`);
+    if (deadline) setDeadlineDate(toDateInput(Number(deadline)));
+    setFlowId(unfinished.id);
+    setStep('creating');
+  }, [flows, address, chainId]);
+
+  // Finishes both a flow run from this form and one that was resumed after a reload
+  useEffect(() => {
+    if (step !== 'creating' || !flow || flowStatus !== 'complete' || isLoading) return;
+
+    toast({ variant: 'success', title: 'Bounty created successfully!' });
+    onSuccess?.();
+
+    // Reset form
+    clearFlow(flow.id);
+    setFlowId(null);
+    setGithubUrl('');
+    setAmount('');
+    setDeadlineDate('');
+    setParsedData(null);
+    setStep('input');
+  }, [step, flowStatus, isLoading]);
 
   const handleParse = async () => {
     const parsed = parseGitHubUrl(githubUrl);
     
     if (!parsed) {
-      alert('Invalid GitHub URL. Please use format: https://github.com/owner/repo/issues/123');
+      toast({
+        variant: 'error',
+        title: 'Invalid GitHub URL',
+        description: 'Please use format: https://github.com/owner/repo/issues/123'
+      });
       return;
     }
 
@@ -30,20 +148,53 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
     const issue = await getIssue(parsed.owner, parsed.repo, parsed.issueNumber);
     
     if (!issue) {
-      alert('Could not find this issue on GitHub');
+      // The rate limit notice explains itself, so only toast for a missing issue
+      if (!getGitHubRateLimitState().blockedUntil) {
+        toast({ variant: 'error', title: 'Could not find this issue on GitHub' });
+      }
       return;
     }
 
     setParsedData(parsed);
     setStep('confirm');
+
+    // Tell the user up front how many prompts to expect, what it costs and whether it would revert
+    setFundingMethod(null);
+    setCostPreview(null);
+    setPreviewError(null);
+    if (!token) return;
+
+    setIsPreviewing(true);
+    try {
+      const { method, ...preview } = await previewCreateBounty(
+        parsed.owner,
+        parsed.repo,
+        parsed.issueNumber,
+        amount,
+        token,
+        toDeadline(deadlineDate)
+      );
+      setFundingMethod(method);
+      setCostPreview(preview);
+    } catch (error) {
+      console.error('Bounty simulation failed:', error);
+      setPreviewError(getErrorMessage(error));
+    } finally {
+      setIsPreviewing(false);
+    }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e?: React.FormEvent) => {
     // prevents default form submission behavior
-    e.preventDefault();
+    e?.preventDefault();
     
-    if (!parsedData) return;
+    if (!parsedData || !token || !deadlineDate) return;
     
+    setFlowId(getFlowId(
+      chainId,
+      'createBounty',
+      computeBountyId(parsedData.owner, parsedData.repo, parsedData.issueNumber)
+    ));
     setStep('creating');
 
     try {
@@ -51,23 +202,25 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
         parsedData.owner,
         parsedData.repo,
         parsedData.issueNumber,
-        amount
+        amount,
+        token,
+        toDeadline(deadlineDate)
       );
-      
-      alert('Bounty created successfully!');
-      onSuccess?.();
-      
-      // Reset form
-      setGithubUrl('');
-      setAmount('');
-      setParsedData(null);
-      setStep('input');
     } catch (error: any) {
-      alert(`Failed to create bounty: ${error.message}`);
-      setStep('confirm');
+      toast({
+        variant: 'error',
+        title: 'Failed to create bounty',
+        description: getErrorMessage(error)
+      });
     }
   };
 
+  const handleDiscard = () => {
+    if (flowId) clearFlow(flowId);
+    setFlowId(null);
+    setStep('confirm');
+  };
+
   if (step === 'input') {
     return (
       <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
@@ -76,6 +229,8 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
         </h2>
 
         <div className="space-y-4">
+          <GitHubRateLimitNotice />
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               GitHub Issue URL
@@ -96,30 +251,75 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
 
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Bounty Amount (USDC)
+              Bounty Amount
             </label>
-            <div className="relative">
-              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+            <div className="flex gap-2">
               <input
                 type="number"
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 placeholder="100"
-                min="1"
-                step="0.01"
-                className="w-full pl-8 pr-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                min="0"
+                step="any"
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
                          bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
                          focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
+              <select
+                value={tokenAddress ?? ''}
+                onChange={(e) => setTokenAddress(e.target.value as `0x${string}`)}
+                disabled={tokens.length === 0}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                         bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                         focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {tokens.length === 0 && (
+                  <option value="">{isLoadingTokens ? 'Loading...' : 'No tokens'}</option>
+                )}
+                {tokens.map((t) => (
+                  <option key={t.address} value={t.address}>
+                    {t.symbol}
+                  </option>
+                ))}
+              </select>
             </div>
             <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-              Amount in USDC that will be paid to the contributor
+              {tokensError
+                ? `Could not load the accepted tokens: ${tokensError}`
+                : !isLoadingTokens && tokens.length === 0
+                  ? 'The registry on this network does not accept any tokens yet'
+                  : 'Amount that will be paid to the contributor, in any token the registry accepts'}
+            </p>
+            {token && balance !== null && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Balance: {formatTokenAmount(balance, token)}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Deadline
+            </label>
+            <input
+              type="date"
+              value={deadlineDate}
+              onChange={(e) => setDeadlineDate(e.target.value)}
+              min={minDeadlineDate ?? undefined}
+              max={maxDeadlineDate ?? undefined}
+              disabled={!durationBounds}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                       bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              If nobody has claimed the bounty by then, funders can take their contributions back
             </p>
           </div>
 
           <button
             onClick={handleParse}
-            disabled={!githubUrl || !amount}
+            disabled={!githubUrl || !amount || !token || !deadlineDate}
             className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 
                      disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 
                      rounded-lg font-medium transition-colors"
@@ -144,7 +344,13 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
             <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5" />
             <div className="text-sm text-blue-800 dark:text-blue-300">
               <p className="font-medium mb-1">Review your bounty details</p>
-              <p>You'll be asked to approve USDC spending and then create the bounty.</p>
+              <p>
+                {fundingMethod === 'allowance'
+                  ? `Your existing ${token?.symbol} allowance covers this, so you'll only confirm one transaction.`
+                  : fundingMethod === 'permit'
+                    ? `You'll sign a ${token?.symbol} permit and then confirm one transaction.`
+                    : `You'll be asked to approve ${token?.symbol} spending and then create the bounty.`}
+              </p>
             </div>
           </div>
 
@@ -161,12 +367,19 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
                 #{parsedData.issueNumber}
               </span>
             </div>
-            <div className="flex justify-between py-2">
+            <div className="flex justify-between py-2 border-b border-gray-200 dark:border-gray-800">
               <span className="text-gray-600 dark:text-gray-400">Amount</span>
               <span className="text-xl font-bold text-gray-900 dark:text-gray-100">
-                ${amount} USDC
+                {amount} {token?.symbol}
+              </span>
+            </div>
+            <div className="flex justify-between py-2 border-b border-gray-200 dark:border-gray-800">
+              <span className="text-gray-600 dark:text-gray-400">Deadline</span>
+              <span className="text-gray-900 dark:text-gray-100">
+                {format(new Date(Number(toDeadline(deadlineDate)) * 1000), 'PPP')}
               </span>
             </div>
+            <TxCost preview={costPreview} isLoading={isPreviewing} error={previewError} />
           </div>
         </div>
 
@@ -181,7 +394,7 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
           </button>
           <button
             onClick={handleSubmit}
-            disabled={isLoading}
+            disabled={isLoading || isPreviewing || !!previewError}
             className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 
                      disabled:bg-gray-400 text-white px-6 py-3 rounded-lg font-medium transition-colors"
           >
@@ -202,5 +415,61 @@ export function BountyForm({ onSuccess }: { onSuccess?: () => void }) {
     );
   }
 
+  if (step === 'creating' && parsedData) {
+    // No flow means createBounty failed before sending anything
+    const canRetry = !isLoading && (!flow || flowStatus === 'failed' || flowStatus === 'interrupted');
+
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+        <h2 className="text-2xl font-bold mb-2 text-gray-900 dark:text-gray-100">
+          Creating Bounty
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          <span className="font-mono">{parsedData.owner}/{parsedData.repo}#{parsedData.issueNumber}</span>
+          {' '}for {amount} {token?.symbol}
+        </p>
+
+        <div className="mb-6">
+          {flow ? (
+            <TxProgress flow={flow} />
+          ) : isLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Preparing transactions...
+            </div>
+          )}
+        </div>
+
+        {flowStatus === 'active' && !isLoading && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+            You can leave this page; progress is saved and picked up when you come back.
+          </p>
+        )}
+
+        {canRetry && (
+          <div className="flex gap-3">
+            <button
+              onClick={handleDiscard}
+              className="flex-1 border border-gray-300 dark:border-gray-700 px-6 py-3 
+                       rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-800 
+                       transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={() => handleSubmit()}
+              disabled={!token}
+              className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 
+                       disabled:bg-gray-400 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+            >
+              <RotateCcw className="w-5 h-5" />
+              {flow?.steps.some((s) => s.status === 'confirmed') ? 'Resume' : 'Try Again'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return null;
 }
\ No newline at end of file
@@ -1,86 +1,201 @@
 'use client';
 
-import { useState } from 'react';
-import { useBounty } from '@/hooks/useBounty';
-import { useGitHub } from '@/hooks/useGithub';
-import { useWallet } from '@/contexts/WalletContext';
+import { useState, useEffect } from 'react';
+import { formatEther } from 'viem';
+import { formatDistanceStrict } from 'date-fns';
+import { useBounty, type TxCostPreview } from '@/hooks/useBounty';
+import { useGitHub, type PRValidation } from '@/hooks/useGithub';
+import { useGitHubIdentity } from '@/hooks/useGitHubIdentity';
+import { useClaimBond } from '@/hooks/useClaimBond';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useTransactions, getFlowId, getFlowStatus } from '@/contexts/TransactionContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { TxCost } from '@/components/TxCost';
+import { TxProgress } from '@/components/TxProgress';
+import { GitHubRateLimitNotice } from '@/components/GitHubRateLimitNotice';
+import { GitHubIdentityPanel } from '@/components/GitHubIdentityPanel';
+import { GitHubRateLimitError } from '@/lib/github/client';
+import {
+  describePullRequestInputError,
+  describeSplitRules,
+  describeVerificationRules,
+  parsePullRequestNumbers
+} from '@oracle/rules/verification';
 import {
   X,
   Loader2,
   CheckCircle,
+  XCircle,
   AlertCircle,
   ExternalLink,
-  Info
+  Info,
+  Coins
 } from 'lucide-react';
-import type { Bounty } from '@/types';
+import type { Bounty, PayoutSplit } from '@/types';
 
 interface ClaimModalProps {
   bounty: Bounty;
+  // A split bounty is claimed for all its recipients with every PR they worked on
+  split: PayoutSplit | null;
+  splitUsernames: Array<string | null>;
   isOpen: boolean;
   onClose: () => void;
   onSuccess?: () => void;
 }
 
-export function ClaimModal({ bounty, isOpen, onClose, onSuccess }: ClaimModalProps) {
-  const { isConnected } = useWallet();
-  const { claimBounty, isLoading } = useBounty();
+export function ClaimModal({ bounty, split, splitUsernames, isOpen, onClose, onSuccess }: ClaimModalProps) {
+  const { address, isConnected } = useWallet();
+  const { chainId, deployment } = useActiveChain();
+  const { claimBounty, previewClaimBounty, isLoading } = useBounty();
   const { validatePR } = useGitHub();
+  const { identity } = useGitHubIdentity();
+  const claimBond = useClaimBond();
+  const { toast } = useToast();
+  const { getFlow, clearFlow } = useTransactions();
 
   const [prNumber, setPrNumber] = useState('');
   const [validating, setValidating] = useState(false);
-  const [prStatus, setPrStatus] = useState<{
-    valid: boolean;
-    merged: boolean;
-    author: string;
-  } | null>(null);
+  const [prStatus, setPrStatus] = useState<PRValidation | null>(null);
+  const [step, setStep] = useState<'input' | 'confirm'>('input');
+  const [costPreview, setCostPreview] = useState<TxCostPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  // Another claim may have settled since the modal was last open
+  useEffect(() => {
+    if (isOpen) claimBond.refetch();
+  }, [isOpen]);
+
+  // A new link changes the author and identity checks
+  useEffect(() => {
+    setPrStatus(null);
+  }, [identity?.username, identity?.gistId]);
+
+  const trackedFlow = getFlow(getFlowId(chainId, 'claimBounty', bounty.id));
+  const flow = trackedFlow?.account === address ? trackedFlow : null;
+  const flowStatus = flow ? getFlowStatus(flow) : null;
+
+  const handleClose = () => {
+    setStep('input');
+    onClose();
+  };
+
+  // Reopening the modal shows a claim that is still confirming, e.g. after a reload
+  useEffect(() => {
+    if (!isOpen || !flow || flowStatus !== 'active') return;
+    setPrNumber(flow.params.prNumber);
+    setStep('confirm');
+  }, [isOpen, flow?.id, flowStatus]);
+
+  useEffect(() => {
+    if (!isOpen || !flow || flowStatus !== 'complete' || isLoading) return;
+
+    toast({
+      variant: 'success',
+      title: 'Claim submitted!',
+      description: 'The Chainlink oracle will verify your PR.'
+    });
+    clearFlow(flow.id);
+    onSuccess?.();
+    handleClose();
+    setPrNumber('');
+    setPrStatus(null);
+  }, [isOpen, flowStatus, isLoading]);
 
   if (!isOpen) return null;
 
-  const handleValidatePR = async () => {
-    if (!prNumber) return;
+  const symbol = deployment.chain.nativeCurrency.symbol;
+  const now = Date.now();
+  const cooldownEnd = claimBond.cooldownUntil ? Number(claimBond.cooldownUntil) * 1000 : 0;
+  const onCooldown = cooldownEnd > now;
+
+  // What claimBounty is sent: one PR number, or a split's PR numbers normalised to "12,15"
+  const prNumbers = split ? parsePullRequestNumbers(prNumber) : null;
+  const claimedPrs = split ? prNumbers?.join(',') ?? '' : prNumber;
+  // claimBounty reverts on anything else, so it is caught before a check or simulation
+  const prInputError = prNumber ? describePullRequestInputError(prNumber, !!split) : null;
+
+  // Same rules the oracle runs, so a claim that is sure to fail never costs gas
+  const handleValidatePR = async (): Promise<PRValidation | null> => {
+    if (!prNumber || prInputError) return null;
 
     setValidating(true);
     try {
-      const status = await validatePR(bounty.repoOwner, bounty.repoName, prNumber);
+      const status = await validatePR(bounty.repoOwner, bounty.repoName, prNumber, bounty.issueNumber, identity);
       setPrStatus(status);
+      return status;
     } catch (error) {
       console.error('Error validating PR:', error);
+      if (!(error instanceof GitHubRateLimitError)) {
+        toast({ variant: 'error', title: 'Could not check this PR', description: getErrorMessage(error) });
+      }
     } finally {
       setValidating(false);
     }
+    return null;
   };
 
-  const handleSubmit = async () => {
+  const handleReview = async () => {
     if (!prNumber) {
-      alert('Please enter a PR number');
+      toast({ variant: 'error', title: 'Please enter a PR number' });
       return;
     }
 
+    // Shown under the input
+    if (prInputError) return;
+
+    // The oracle checks every PR and recipient of a split; there is no single-PR check to run first
+    if (!split) {
+      // When GitHub can't be reached the claim may still go ahead; the oracle has the final say
+      const status = prStatus ?? await handleValidatePR();
+      if (status && !status.verification?.passed) return;
+    }
+
+    // Drop a finished or failed earlier attempt so the preview shows again
+    if (flow && flowStatus !== 'active') clearFlow(flow.id);
+    setStep('confirm');
+    setCostPreview(null);
+    setPreviewError(null);
+    setIsPreviewing(true);
     try {
-      await claimBounty(
+      setCostPreview(await previewClaimBounty(
         bounty.repoOwner,
         bounty.repoName,
         bounty.issueNumber,
-        prNumber
-      );
+        claimedPrs
+      ));
+    } catch (error) {
+      console.error('Claim simulation failed:', error);
+      setPreviewError(getErrorMessage(error));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
 
-      alert('Claim submitted! The Chainlink oracle will verify your PR.');
-      onSuccess?.();
-      onClose();
-      setPrNumber('');
-      setPrStatus(null);
-    } catch (error: any) {
-      let message = 'Failed to submit claim';
-
-      if (error.message?.includes('user rejected')) {
-        message = 'Transaction was rejected';
-      } else if (error.message?.includes('insufficient funds')) {
-        message = 'Insufficient ETH for gas fees';
-      } else if (error.message) {
-        message = error.message;
-      }
+  const handleWithdrawBond = async () => {
+    try {
+      await claimBond.withdraw();
+      toast({ variant: 'success', title: 'Bond withdrawn', description: 'Your returned bonds were sent to your wallet.' });
+    } catch (error) {
+      toast({ variant: 'error', title: 'Failed to withdraw bond', description: getErrorMessage(error) });
+    }
+  };
 
-      alert(message);
+  const handleSubmit = async () => {
+    try {
+      await claimBounty(
+        bounty.repoOwner,
+        bounty.repoName,
+        bounty.issueNumber,
+        claimedPrs
+      );
+    } catch (error) {
+      toast({
+        variant: 'error',
+        title: 'Failed to submit claim',
+        description: getErrorMessage(error)
+      });
     }
   };
 
@@ -93,7 +208,7 @@ export function ClaimModal({ bounty, isOpen, onClose, onSuccess }: ClaimModalPro
             Claim Bounty
           </h3>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
           >
             <X className="w-5 h-5 text-gray-500" />
@@ -101,159 +216,287 @@ export function ClaimModal({ bounty, isOpen, onClose, onSuccess }: ClaimModalPro
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-6">
-          {/* Bounty Info */}
-          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-            <div className="flex items-start gap-3">
-              <Info className="w-5 h-5 text-blue-600 mt-0.5" />
-              <div className="text-sm text-blue-800 dark:text-blue-300">
-                <p className="font-medium mb-1">Requirements to claim:</p>
-                <ul className="list-disc list-inside space-y-1">
-                  <li>Your PR must be merged</li>
-                  <li>PR description must include "Closes #{bounty.issueNumber}" or "Fixes #{bounty.issueNumber}"</li>
-                  <li>Chainlink oracle will verify automatically</li>
-                  <li>If verification fails, the bounty returns to Open status</li>
-                </ul>
+        {step === 'input' ? (
+          <div className="p-6 space-y-6">
+            {/* Bounty Info */}
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <Info className="w-5 h-5 text-blue-600 mt-0.5" />
+                <div className="text-sm text-blue-800 dark:text-blue-300">
+                  <p className="font-medium mb-1">Requirements to claim:</p>
+                  <ul className="list-disc list-inside space-y-1">
+                    {split ? (
+                      <>
+                        {describeSplitRules(
+                          bounty.issueNumber,
+                          prNumbers ?? [],
+                          splitUsernames.filter((username): username is string => !!username)
+                        ).map((rule, i) => (
+                          <li key={i}>{rule.description}</li>
+                        ))}
+                        <li>Any recipient of the payout split can claim for all of them</li>
+                      </>
+                    ) : (
+                      describeVerificationRules(bounty.issueNumber).map((rule) => (
+                        <li key={rule.id}>{rule.description}</li>
+                      ))
+                    )}
+                    <li>Chainlink oracle will verify automatically</li>
+                    <li>If verification fails, the bounty returns to Open status</li>
+                  </ul>
+                </div>
               </div>
             </div>
-          </div>
-
-          {/* Repository Info */}
-          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Repository</p>
-            <p className="font-mono text-gray-900 dark:text-white">
-              {bounty.repoOwner}/{bounty.repoName}
-            </p>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">Issue</p>
-            <p className="font-mono text-gray-900 dark:text-white">
-              #{bounty.issueNumber}
-            </p>
-          </div>
-
-          {/* PR Number Input */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Pull Request Number
-            </label>
-            <div className="flex gap-2">
-              <input
-                type="number"
-                value={prNumber}
-                onChange={(e) => {
-                  setPrNumber(e.target.value);
-                  setPrStatus(null); // Reset validation
-                }}
-                placeholder="Enter PR number (e.g., 42)"
-                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
-                         bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
-                         focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-              <button
-                onClick={handleValidatePR}
-                disabled={!prNumber || validating}
-                className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
-                         hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors
-                         disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {validating ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
-                  'Check'
-                )}
-              </button>
-            </div>
-            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-              Find your PR number in the GitHub URL: github.com/{bounty.repoOwner}/{bounty.repoName}/pull/<strong>NUMBER</strong>
-            </p>
-          </div>
 
-          {/* PR Validation Status */}
-          {prStatus && (
-            <div className={`border rounded-lg p-4 ${prStatus.valid && prStatus.merged
-                ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
-                : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
-              }`}>
-              <div className="flex items-start gap-3">
-                {prStatus.valid && prStatus.merged ? (
-                  <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
-                ) : (
-                  <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
-                )}
-                <div className="flex-1">
-                  <p className={`font-medium ${prStatus.valid && prStatus.merged
-                      ? 'text-green-800 dark:text-green-300'
-                      : 'text-yellow-800 dark:text-yellow-300'
-                    }`}>
-                    {prStatus.valid && prStatus.merged
-                      ? '✓ PR is merged and valid'
-                      : prStatus.valid && !prStatus.merged
-                        ? '⚠ PR exists but is not merged yet'
-                        : '✗ PR not found'
-                    }
-                  </p>
-                  {prStatus.author && (
-                    <p className="text-sm mt-1 text-gray-600 dark:text-gray-400">
-                      Author: @{prStatus.author}
+            {/* Claim Bond */}
+            {claimBond.bond !== null && claimBond.cooldown !== null && (
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <Coins className="w-5 h-5 text-gray-500 mt-0.5" />
+                  <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {claimBond.bond > 0n
+                        ? `Claiming posts a ${formatEther(claimBond.bond)} ${symbol} bond`
+                        : 'Claiming needs no bond'}
                     </p>
-                  )}
-                  <a
-                    href={`https://github.com/${bounty.repoOwner}/${bounty.repoName}/pull/${prNumber}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-1 text-sm mt-2 text-blue-600 hover:text-blue-700"
-                  >
-                    View PR on GitHub
-                    <ExternalLink className="w-3 h-3" />
-                  </a>
+                    {claimBond.bond > 0n && (
+                      <p>
+                        You get it back when the bounty pays out, or when verification fails because
+                        GitHub or the oracle did. If the oracle rejects your PR, the bond goes to whoever
+                        pays for the oracle subscription.
+                      </p>
+                    )}
+                    <p>
+                      After a rejected claim this wallet must wait{' '}
+                      {formatDistanceStrict(0, Number(claimBond.cooldown) * 1000)} before claiming again.
+                    </p>
+                    {onCooldown && (
+                      <p className="text-red-700 dark:text-red-400">
+                        Your last claim was rejected. You can claim again in{' '}
+                        {formatDistanceStrict(new Date(cooldownEnd), new Date(now))}.
+                      </p>
+                    )}
+                    {!!claimBond.unclaimed && claimBond.unclaimed > 0n && (
+                      <div className="flex items-center justify-between gap-3 pt-2">
+                        <span>{formatEther(claimBond.unclaimed)} {symbol} of returned bonds is waiting for you.</span>
+                        <button
+                          onClick={handleWithdrawBond}
+                          disabled={claimBond.isPending}
+                          className="px-3 py-1 border border-gray-300 dark:border-gray-700 rounded-lg
+                                   hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors
+                                   disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {claimBond.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Withdraw'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Warning for non-merged PRs */}
-          {prStatus && !prStatus.merged && (
-            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
-              <p className="text-sm text-yellow-800 dark:text-yellow-300">
-                <strong>Note:</strong> You can submit the claim now, but the oracle verification will only succeed after the PR is merged.
+            <GitHubRateLimitNotice />
+
+            {isConnected && <GitHubIdentityPanel />}
+
+            {/* Repository Info */}
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Repository</p>
+              <p className="font-mono text-gray-900 dark:text-white">
+                {bounty.repoOwner}/{bounty.repoName}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">Issue</p>
+              <p className="font-mono text-gray-900 dark:text-white">
+                #{bounty.issueNumber}
               </p>
             </div>
-          )}
 
-          {/* Not Connected Warning */}
-          {!isConnected && (
-            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-              <p className="text-sm text-red-800 dark:text-red-300">
-                Please connect your wallet to claim this bounty.
+            {/* PR Number Input */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {split ? 'Pull Request Numbers' : 'Pull Request Number'}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  inputMode={split ? 'text' : 'numeric'}
+                  value={prNumber}
+                  onChange={(e) => {
+                    setPrNumber(e.target.value);
+                    setPrStatus(null); // Reset validation
+                  }}
+                  placeholder={split ? 'Enter PR numbers (e.g., 42, 43)' : 'Enter PR number (e.g., 42)'}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                           bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                           focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {!split && (
+                  <button
+                    onClick={() => handleValidatePR()}
+                    disabled={!prNumber || !!prInputError || validating}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                             hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors
+                             disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {validating ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      'Check'
+                    )}
+                  </button>
+                )}
+              </div>
+              {prInputError && (
+                <p className="mt-2 text-xs text-red-800 dark:text-red-300">{prInputError}</p>
+              )}
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Find your PR number in the GitHub URL: github.com/{bounty.repoOwner}/{bounty.repoName}/pull/<strong>NUMBER</strong>
               </p>
             </div>
-          )}
-        </div>
+
+            {/* PR Validation Status */}
+            {prStatus && (
+              <div className={`border rounded-lg p-4 ${prStatus.verification?.passed
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                  : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
+                }`}>
+                <div className="flex items-start gap-3">
+                  {prStatus.verification?.passed ? (
+                    <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+                  ) : (
+                    <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
+                  )}
+                  <div className="flex-1">
+                    <p className={`font-medium ${prStatus.verification?.passed
+                        ? 'text-green-800 dark:text-green-300'
+                        : 'text-yellow-800 dark:text-yellow-300'
+                      }`}>
+                      {!prStatus.verification
+                        ? '✗ PR not found'
+                        : prStatus.verification.passed
+                          ? '✓ This PR passes verification'
+                          : '⚠ The oracle would reject this PR'
+                      }
+                    </p>
+                    {prStatus.verification && (
+                      <ul className="mt-2 space-y-1">
+                        {prStatus.verification.rules.map((rule) => (
+                          <li key={rule.id} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            {rule.passed ? (
+                              <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                            ) : (
+                              <XCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+                            )}
+                            <div>
+                              <p>{rule.description}</p>
+                              {rule.detail && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{rule.detail}</p>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {prStatus.author && (
+                      <p className="text-sm mt-2 text-gray-600 dark:text-gray-400">
+                        Author: @{prStatus.author}
+                      </p>
+                    )}
+                    <a
+                      href={`https://github.com/${bounty.repoOwner}/${bounty.repoName}/pull/${prNumber}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm mt-2 text-blue-600 hover:text-blue-700"
+                    >
+                      View PR on GitHub
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Not Connected Warning */}
+            {!isConnected && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                <p className="text-sm text-red-800 dark:text-red-300">
+                  Please connect your wallet to claim this bounty.
+                </p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <div className="space-y-3">
+              <div className="flex justify-between py-2 border-b border-gray-200 dark:border-gray-700">
+                <span className="text-gray-600 dark:text-gray-400">Repository</span>
+                <span className="font-mono text-gray-900 dark:text-white">
+                  {bounty.repoOwner}/{bounty.repoName}
+                </span>
+              </div>
+              <div className="flex justify-between py-2 border-b border-gray-200 dark:border-gray-700">
+                <span className="text-gray-600 dark:text-gray-400">Issue</span>
+                <span className="font-mono text-gray-900 dark:text-white">#{bounty.issueNumber}</span>
+              </div>
+              <div className="flex justify-between py-2 border-b border-gray-200 dark:border-gray-700">
+                <span className="text-gray-600 dark:text-gray-400">{split ? 'Pull Requests' : 'Pull Request'}</span>
+                <span className="font-mono text-gray-900 dark:text-white">
+                  {claimedPrs.split(',').map((n) => `#${n}`).join(', ')}
+                </span>
+              </div>
+              {claimBond.bond !== null && claimBond.bond > 0n && (
+                <div className="flex justify-between py-2 border-b border-gray-200 dark:border-gray-700">
+                  <span className="text-gray-600 dark:text-gray-400">Claim bond</span>
+                  <span className="text-gray-900 dark:text-white">
+                    {formatEther(claimBond.bond)} {symbol}
+                  </span>
+                </div>
+              )}
+              {!flow && <TxCost preview={costPreview} isLoading={isPreviewing} error={previewError} />}
+            </div>
+            {flow && <TxProgress flow={flow} />}
+          </div>
+        )}
 
         {/* Footer */}
         <div className="flex gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
           <button
-            onClick={onClose}
+            onClick={step === 'input' ? handleClose : () => setStep('input')}
             className="flex-1 border border-gray-300 dark:border-gray-700 px-4 py-3 rounded-lg
                      font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
           >
-            Cancel
-          </button>
-          <button
-            onClick={handleSubmit}
-            disabled={!isConnected || !prNumber || isLoading}
-            className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 
-                     disabled:cursor-not-allowed text-white px-4 py-3 rounded-lg 
-                     font-medium transition-colors flex items-center justify-center gap-2"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="w-5 h-5 animate-spin" />
-                Submitting...
-              </>
-            ) : (
-              'Submit Claim'
-            )}
+            {step === 'input' ? 'Cancel' : 'Back'}
           </button>
+          {step === 'input' ? (
+            <button
+              onClick={handleReview}
+              disabled={!isConnected || !identity || !prNumber || !!prInputError || validating || onCooldown || (!!prStatus && !prStatus.verification?.passed)}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 
+                       disabled:cursor-not-allowed text-white px-4 py-3 rounded-lg 
+                       font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              Submit Claim
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={isLoading || isPreviewing || !!previewError || flowStatus === 'active'}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 
+                       disabled:cursor-not-allowed text-white px-4 py-3 rounded-lg 
+                       font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              {isLoading || flowStatus === 'active' ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  Submitting...
+                </>
+              ) : flowStatus === 'failed' ? (
+                'Try Again'
+              ) : (
+                'Confirm Claim'
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,10 +1,23 @@
 'use client';
 
+import { useState } from 'react';
 import { useWallet } from '@/contexts/WalletContext';
+import { NetworkSwitcher } from '@/components/NetworkSwitcher';
+import { WalletPicker } from '@/components/WalletPicker';
 import { Wallet, LogOut } from 'lucide-react';
 
 export function ConnectButton() {
-  const { address, isConnected, isConnecting, connect, disconnect } = useWallet();
+  const { address, isConnected, isConnecting, wallets, wallet, connect, disconnect } = useWallet();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // Skip the picker when there is only one wallet to pick
+  const handleConnect = () => {
+    if (wallets.length === 1) {
+      connect(wallets[0].id);
+    } else {
+      setIsPickerOpen(true);
+    }
+  };
 
   const formatAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
@@ -13,7 +26,9 @@ export function ConnectButton() {
   if (isConnected && address) {
     return (
       <div className="flex items-center gap-2">
-        <div className="bg-green-100 dark:bg-green-900/20 px-4 py-2 rounded-lg">
+        <NetworkSwitcher />
+        <div className="flex items-center gap-2 bg-green-100 dark:bg-green-900/20 px-4 py-2 rounded-lg" title={wallet?.name}>
+          {wallet?.icon && <img src={wallet.icon} alt={wallet.name} className="w-4 h-4" />}
           <span className="text-sm font-mono text-green-800 dark:text-green-300">
             {formatAddress(address)}
           </span>
@@ -30,14 +45,18 @@ export function ConnectButton() {
   }
 
   return (
-    <button
-      onClick={connect}
-      disabled={isConnecting}
-      className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 
-                 text-white px-6 py-2 rounded-lg font-medium transition-colors"
-    >
-      <Wallet className="w-5 h-5" />
-      {isConnecting ? 'Connecting...' : 'Connect Wallet'}
-    </button>
+    <div className="flex items-center gap-2">
+      <NetworkSwitcher />
+      <button
+        onClick={handleConnect}
+        disabled={isConnecting}
+        className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 
+                   text-white px-6 py-2 rounded-lg font-medium transition-colors"
+      >
+        <Wallet className="w-5 h-5" />
+        {isConnecting ? 'Connecting...' : 'Connect Wallet'}
+      </button>
+      <WalletPicker isOpen={isPickerOpen} onClose={() => setIsPickerOpen(false)} />
+    </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+'use client';
+
+import { Users } from 'lucide-react';
+import { useWallet } from '@/contexts/WalletContext';
+import { TokenAmount } from '@/components/TokenAmount';
+import type { BountyFunder } from '@/hooks/useBounty';
+import type { Bounty } from '@/types';
+
+interface FunderListProps {
+  bounty: Bounty;
+  funders: BountyFunder[];
+}
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+/**
+ * Everyone who put money into a bounty, the issuer first
+ */
+export function FunderList({ bounty, funders }: FunderListProps) {
+  const { address } = useWallet();
+
+  if (funders.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-3">
+        <Users className="w-5 h-5" />
+        Funders ({funders.length})
+      </h3>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+        {funders.map((funder) => {
+          const isIssuer = funder.address.toLowerCase() === bounty.issuer.toLowerCase();
+          const isYou = !!address && funder.address.toLowerCase() === address.toLowerCase();
+
+          return (
+            <li key={funder.address} className="flex items-center justify-between px-4 py-2 text-sm">
+              <span className="font-mono text-gray-700 dark:text-gray-300">
+                {formatAddress(funder.address)}
+                {isIssuer && <span className="ml-2 font-sans text-xs text-gray-500">issuer</span>}
+                {isYou && <span className="ml-2 font-sans text-xs text-blue-600">you</span>}
+              </span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                <TokenAmount amount={funder.amount} token={bounty.token} symbolClassName="text-gray-500" />
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { Github, Loader2, Copy, Check, ExternalLink } from 'lucide-react';
+import { useGitHubIdentity } from '@/hooks/useGitHubIdentity';
+import { fetchGist, parseGistId } from '@/hooks/useGithub';
+import { useWallet } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { checkIdentityProof, identityProofMessage } from '@oracle/rules/verification';
+
+/**
+ * Shows the GitHub account linked to the connected wallet, or walks through linking one:
+ * publish the proof message in a public gist, then register the username and gist on chain
+ */
+export function GitHubIdentityPanel() {
+  const { identity, isLoading, link, unlink, isPending } = useGitHubIdentity();
+  const { address } = useWallet();
+  const { toast } = useToast();
+
+  const [username, setUsername] = useState('');
+  const [gistInput, setGistInput] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  if (!address || isLoading) return null;
+
+  const proof = identityProofMessage(address);
+
+  if (identity) {
+    return (
+      <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <Github className="w-4 h-4" />
+          <span>
+            Linked to <span className="font-medium">@{identity.username}</span>
+          </span>
+          <a
+            href={`https://gist.github.com/${identity.username}/${identity.gistId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+          >
+            gist
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </div>
+        <button
+          onClick={() => unlink().catch((err) =>
+            toast({ variant: 'error', title: 'Failed to unlink', description: getErrorMessage(err) })
+          )}
+          disabled={isPending}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-red-600 disabled:opacity-50"
+        >
+          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Unlink'}
+        </button>
+      </div>
+    );
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(proof);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Check the gist the way the oracle will, so a broken link never costs gas
+  const handleLink = async () => {
+    const gistId = parseGistId(gistInput);
+    if (!username.trim() || !gistId) {
+      toast({ variant: 'error', title: 'Enter your GitHub username and gist URL' });
+      return;
+    }
+
+    setChecking(true);
+    try {
+      const check = checkIdentityProof({ address, username: username.trim(), gist: await fetchGist(gistId) });
+      if (!check.passed) {
+        toast({ variant: 'error', title: 'Gist does not prove this wallet', description: check.detail });
+        return;
+      }
+    } catch (err) {
+      toast({ variant: 'error', title: 'Could not load the gist', description: getErrorMessage(err) });
+      return;
+    } finally {
+      setChecking(false);
+    }
+
+    try {
+      await link(username.trim(), gistId);
+      toast({ variant: 'success', title: `Linked to @${username.trim()}` });
+    } catch (err) {
+      toast({ variant: 'error', title: 'Failed to link GitHub account', description: getErrorMessage(err) });
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+        <Github className="w-4 h-4" />
+        Link your GitHub account
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Only the PR author can claim a bounty. Create a public gist from your GitHub account containing:
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 px-3 py-2 bg-gray-100 dark:bg-gray-900 rounded text-xs break-all">
+          {proof}
+        </code>
+        <button
+          onClick={handleCopy}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          title="Copy"
+        >
+          {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4 text-gray-500" />}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="GitHub username"
+          className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                   bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                   focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          value={gistInput}
+          onChange={(e) => setGistInput(e.target.value)}
+          placeholder="https://gist.github.com/you/..."
+          className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                   bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                   focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+      <button
+        onClick={handleLink}
+        disabled={checking || isPending || !username.trim() || !gistInput.trim()}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed
+                 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+      >
+        {(checking || isPending) && <Loader2 className="w-4 h-4 animate-spin" />}
+        {checking ? 'Checking gist...' : isPending ? 'Linking...' : 'Link account'}
+      </button>
+    </div>
+  );
+}
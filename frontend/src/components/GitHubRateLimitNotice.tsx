@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { useGitHubRateLimit } from '@/hooks/useGithub';
+import { setGitHubToken } from '@/lib/github/client';
+
+/**
+ * Explains a GitHub rate limit and offers to add a token to lift it.
+ * Renders nothing while requests are allowed.
+ */
+export function GitHubRateLimitNotice() {
+  const { blockedUntil, isAuthenticated } = useGitHubRateLimit();
+  const [token, setToken] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  // Hide the notice once the limit resets
+  useEffect(() => {
+    if (!blockedUntil) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(blockedUntil.getTime() - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [blockedUntil]);
+
+  if (!blockedUntil || blockedUntil.getTime() <= now) return null;
+
+  const minutes = Math.ceil((blockedUntil.getTime() - now) / 60000);
+
+  const handleSave = () => {
+    if (!token.trim()) return;
+    setGitHubToken(token);
+    setToken('');
+  };
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 text-sm text-yellow-800 dark:text-yellow-300">
+          <p className="font-medium">GitHub rate limit reached</p>
+          <p className="mt-1">
+            Requests to GitHub are paused until {blockedUntil.toLocaleTimeString()} (about {minutes} min).
+          </p>
+          {isAuthenticated ? (
+            <button
+              onClick={() => setGitHubToken(null)}
+              className="mt-2 text-blue-600 hover:text-blue-700"
+            >
+              Remove GitHub token
+            </button>
+          ) : (
+            <>
+              <p className="mt-1">
+                Add a GitHub personal access token to raise the limit from 60 to 5,000 requests an hour.
+                It is only stored in this browser.
+              </p>
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="ghp_..."
+                  className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-700 rounded-lg
+                           bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                           focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={!token.trim()}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400
+                           disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { DEPLOYMENTS, SUPPORTED_CHAIN_IDS, type SupportedChainId } from '@/lib/contracts/addresses';
+import { AlertTriangle } from 'lucide-react';
+
+export function NetworkSwitcher() {
+  const { chainId, isWrongNetwork, switchChain } = useWallet();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const { toast } = useToast();
+
+  const handleSwitch = async (targetChainId: SupportedChainId) => {
+    setIsSwitching(true);
+    try {
+      await switchChain(targetChainId);
+    } catch (error) {
+      console.error('Failed to switch network:', error);
+      toast({ variant: 'error', title: 'Failed to switch network', description: getErrorMessage(error) });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  if (isWrongNetwork) {
+    return (
+      <button
+        onClick={() => handleSwitch(chainId)}
+        disabled={isSwitching}
+        className="flex items-center gap-2 bg-yellow-100 dark:bg-yellow-900/20 hover:bg-yellow-200
+                   dark:hover:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300 px-4 py-2
+                   rounded-lg text-sm font-medium transition-colors"
+        title="Your wallet is on a network MergeMint doesn't support"
+      >
+        <AlertTriangle className="w-4 h-4" />
+        {isSwitching ? 'Switching...' : `Switch to ${DEPLOYMENTS[chainId].name}`}
+      </button>
+    );
+  }
+
+  return (
+    <select
+      value={chainId}
+      onChange={(e) => handleSwitch(Number(e.target.value) as SupportedChainId)}
+      disabled={isSwitching}
+      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm
+               bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+      title="Network"
+    >
+      {SUPPORTED_CHAIN_IDS.map((id) => (
+        <option key={id} value={id}>
+          {DEPLOYMENTS[id].name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import {
+  X,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  Circle,
+  Wallet,
+  Sparkles
+} from 'lucide-react';
+import type { PaymentStep } from '@/hooks/usePayment';
+import type { PaymentChallenge } from '@/types';
+
+interface PaymentModalProps {
+  isOpen: boolean;
+  step: PaymentStep;
+  challenge: PaymentChallenge | null;
+  payer: `0x${string}` | null;
+  expiresAt: number | null;
+  error: string | null;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const progressSteps: Array<{ key: PaymentStep; label: string }> = [
+  { key: 'requesting', label: 'Requesting price from gateway' },
+  { key: 'awaiting', label: 'Approve payment' },
+  { key: 'signing', label: 'Sign payment in wallet' },
+  { key: 'verifying', label: 'Verifying payment' },
+  { key: 'complete', label: 'Access granted' }
+];
+
+function stepIndex(step: PaymentStep): number {
+  return progressSteps.findIndex((s) => s.key === step);
+}
+
+export function PaymentModal({
+  isOpen,
+  step,
+  challenge,
+  payer,
+  expiresAt,
+  error,
+  onConfirm,
+  onClose
+}: PaymentModalProps) {
+  if (!isOpen) return null;
+
+  const currentIndex = stepIndex(step);
+  const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Sparkles className="w-6 h-6 text-purple-600" />
+            Unlock AI Context
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {/* Price */}
+          {challenge && (
+            <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Price</p>
+              <p className="text-3xl font-bold text-gray-900 dark:text-white">
+                {challenge.payment.amount}{' '}
+                <span className="text-lg text-gray-500">{challenge.payment.currency}</span>
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Paid to <span className="font-mono">{formatAddress(challenge.payment.recipient)}</span>
+                {' '}on chain {challenge.payment.chainId}
+              </p>
+            </div>
+          )}
+
+          {/* Signer */}
+          {payer && (
+            <div className="flex items-center justify-between border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <Wallet className="w-4 h-4" />
+                Signing wallet
+              </div>
+              <span className="font-mono text-sm text-gray-900 dark:text-white">
+                {formatAddress(payer)}
+              </span>
+            </div>
+          )}
+
+          {/* Progress */}
+          <ol className="space-y-3">
+            {progressSteps.map((s, i) => {
+              const done = currentIndex > i || step === 'complete';
+              const active = currentIndex === i && step !== 'complete';
+
+              return (
+                <li key={s.key} className="flex items-center gap-3 text-sm">
+                  {done ? (
+                    <CheckCircle className="w-5 h-5 text-green-600" />
+                  ) : active ? (
+                    <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+                  ) : (
+                    <Circle className="w-5 h-5 text-gray-300 dark:text-gray-600" />
+                  )}
+                  <span className={done || active
+                    ? 'text-gray-900 dark:text-white'
+                    : 'text-gray-400 dark:text-gray-500'
+                  }>
+                    {s.label}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+
+          {/* Token Expiry */}
+          {step === 'complete' && expiresAt && (
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+              <p className="text-sm text-green-800 dark:text-green-300">
+                Access expires {formatDistanceToNow(new Date(expiresAt), { addSuffix: true })}
+              </p>
+            </div>
+          )}
+
+          {/* Error */}
+          {step === 'error' && error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+                <p className="text-sm text-red-800 dark:text-red-300">{error}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="flex-1 border border-gray-300 dark:border-gray-700 px-4 py-3 rounded-lg
+                     font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            {step === 'complete' || step === 'error' ? 'Close' : 'Cancel'}
+          </button>
+          {step === 'awaiting' && (
+            <button
+              onClick={onConfirm}
+              className="flex-1 bg-purple-600 hover:bg-purple-700 text-white px-4 py-3 rounded-lg
+                       font-medium transition-colors"
+            >
+              Pay {challenge?.payment.amount} {challenge?.payment.currency}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { isAddress } from 'viem';
+import { useBounty, type BountyPayment } from '@/hooks/useBounty';
+import { useWallet } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { MAX_SPLIT_RECIPIENTS, TOTAL_SPLIT_SHARES } from '@/lib/contracts/BountyRegistry';
+import { TokenAmount } from '@/components/TokenAmount';
+import { Loader2, Plus, Split, Trash2 } from 'lucide-react';
+import { BountyStatus, SplitMode, type Bounty, type PayoutSplit } from '@/types';
+
+interface PayoutSplitPanelProps {
+  bounty: Bounty;
+  split: PayoutSplit | null;
+  // Linked GitHub account per split recipient
+  usernames: Array<string | null>;
+  // BountyPaid events, once the bounty is paid
+  payments: BountyPayment[];
+}
+
+interface RecipientRow {
+  address: string;
+  percent: string;
+}
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+const formatPercent = (share: number) => `${(share / 100).toString()}%`;
+
+/**
+ * Parses the editor's rows into an approvePayoutSplit split, or returns why it can't
+ */
+function toSplit(mode: SplitMode, rows: RecipientRow[]): PayoutSplit | string {
+  const recipients = rows.map((row) => row.address.trim());
+  if (recipients.some((r) => !isAddress(r))) return 'Enter a valid wallet address for every recipient.';
+  if (new Set(recipients.map((r) => r.toLowerCase())).size !== recipients.length) {
+    return 'Each recipient can only appear once.';
+  }
+
+  if (mode === SplitMode.PER_PULL_REQUEST) {
+    return { mode, recipients: recipients as `0x${string}`[], shares: [] };
+  }
+
+  // Percentages with up to two decimals, as basis points
+  const shares = rows.map((row) => Math.round(parseFloat(row.percent) * 100));
+  if (shares.some((share) => !Number.isFinite(share) || share <= 0)) return 'Every share must be above 0%.';
+  if (shares.reduce((total, share) => total + share, 0) !== TOTAL_SPLIT_SHARES) return 'Shares must add up to 100%.';
+
+  return { mode, recipients: recipients as `0x${string}`[], shares };
+}
+
+/**
+ * Shows how a bounty's payout is shared and what each recipient was paid. The issuer
+ * can approve, change or remove the split while the bounty is open.
+ */
+export function PayoutSplitPanel({ bounty, split, usernames, payments }: PayoutSplitPanelProps) {
+  const { address } = useWallet();
+  const { approvePayoutSplit, isLoading } = useBounty();
+  const { toast } = useToast();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [mode, setMode] = useState<SplitMode>(SplitMode.FIXED);
+  const [rows, setRows] = useState<RecipientRow[]>([]);
+
+  const canEdit = !!address
+    && address.toLowerCase() === bounty.issuer.toLowerCase()
+    && bounty.status === BountyStatus.OPEN;
+
+  if (!split && !canEdit) return null;
+
+  const startEditing = () => {
+    setMode(split?.mode ?? SplitMode.FIXED);
+    setRows(split
+      ? split.recipients.map((recipient, i) => ({
+          address: recipient,
+          percent: split.shares[i] !== undefined ? String(split.shares[i] / 100) : ''
+        }))
+      : [{ address: address ?? '', percent: '50' }, { address: '', percent: '50' }]);
+    setIsEditing(true);
+  };
+
+  const updateRow = (index: number, patch: Partial<RecipientRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const submit = async (next: PayoutSplit) => {
+    try {
+      await approvePayoutSplit(bounty.id, next);
+      toast({
+        variant: 'success',
+        title: next.mode === SplitMode.NONE ? 'Payout split removed' : 'Payout split approved'
+      });
+      setIsEditing(false);
+    } catch (error) {
+      toast({ variant: 'error', title: 'Failed to update payout split', description: getErrorMessage(error) });
+    }
+  };
+
+  const handleApprove = () => {
+    const next = toSplit(mode, rows);
+    if (typeof next === 'string') {
+      toast({ variant: 'error', title: 'Invalid payout split', description: next });
+      return;
+    }
+    submit(next);
+  };
+
+  const paidTo = (recipient: string) =>
+    payments.find((payment) => payment.recipient.toLowerCase() === recipient.toLowerCase());
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <Split className="w-5 h-5" />
+          Payout Split
+        </h3>
+        {canEdit && !isEditing && (
+          <button
+            onClick={startEditing}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            {split ? 'Edit split' : 'Split payout'}
+          </button>
+        )}
+      </div>
+
+      {split && !isEditing && (
+        <>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+            {split.mode === SplitMode.FIXED
+              ? 'Paid in fixed shares once a claim verifies.'
+              : 'Paid by verified PRs: every claimed PR earns an equal share, divided among its authors and co-authors.'}
+          </p>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {split.recipients.map((recipient, i) => {
+              const payment = paidTo(recipient);
+              const isYou = !!address && recipient.toLowerCase() === address.toLowerCase();
+
+              return (
+                <li key={recipient} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <span className="font-mono text-gray-700 dark:text-gray-300">
+                    {formatAddress(recipient)}
+                    <span className="ml-2 font-sans text-xs text-gray-500">
+                      {usernames[i] ? `@${usernames[i]}` : 'GitHub not linked'}
+                    </span>
+                    {isYou && <span className="ml-2 font-sans text-xs text-blue-600">you</span>}
+                  </span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {bounty.status === BountyStatus.PAID ? (
+                      <TokenAmount amount={payment?.amount ?? 0n} token={bounty.token} symbolClassName="text-gray-500" />
+                    ) : split.mode === SplitMode.FIXED ? (
+                      <>
+                        {formatPercent(split.shares[i])}
+                        <span className="ml-2 text-gray-500">
+                          (<TokenAmount
+                            amount={(bounty.amount * BigInt(split.shares[i])) / BigInt(TOTAL_SPLIT_SHARES)}
+                            token={bounty.token}
+                          />)
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">per PR</span>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          {bounty.status === BountyStatus.OPEN && usernames.some((username) => !username) && (
+            <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+              Every recipient must link their GitHub account before the bounty can be claimed.
+            </p>
+          )}
+        </>
+      )}
+
+      {isEditing && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+          <div className="flex gap-2">
+            {[
+              { value: SplitMode.FIXED, label: 'Fixed percentages' },
+              { value: SplitMode.PER_PULL_REQUEST, label: 'One share per verified PR' }
+            ].map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${mode === option.value
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {rows.map((row, i) => (
+              <div key={i} className="flex gap-2">
+                <input
+                  value={row.address}
+                  onChange={(e) => updateRow(i, { address: e.target.value })}
+                  placeholder="0x... recipient wallet"
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg font-mono text-sm
+                           bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                           focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {mode === SplitMode.FIXED && (
+                  <div className="relative w-24">
+                    <input
+                      type="number"
+                      value={row.percent}
+                      onChange={(e) => updateRow(i, { percent: e.target.value })}
+                      className="w-full pl-3 pr-7 py-2 border border-gray-300 dark:border-gray-700 rounded-lg text-sm
+                               bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                               focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="absolute right-3 top-2 text-sm text-gray-500">%</span>
+                  </div>
+                )}
+                <button
+                  onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                  disabled={rows.length === 1}
+                  className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {rows.length < MAX_SPLIT_RECIPIENTS && (
+              <button
+                onClick={() => setRows([...rows, { address: '', percent: '' }])}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                Add recipient
+              </button>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Up to {MAX_SPLIT_RECIPIENTS} recipients, each with a linked GitHub account. Any of them can
+            claim, and the oracle verifies every one before paying.
+          </p>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleApprove}
+              disabled={isLoading}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400
+                       text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Approve split
+            </button>
+            {split && (
+              <button
+                onClick={() => submit({ mode: SplitMode.NONE, recipients: [], shares: [] })}
+                disabled={isLoading}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                Remove split
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
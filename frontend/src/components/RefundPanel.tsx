@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useBounty } from '@/hooks/useBounty';
+import { useToast } from '@/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { TokenAmount } from '@/components/TokenAmount';
+import { Loader2, RotateCcw, Hourglass } from 'lucide-react';
+import type { Bounty } from '@/types';
+
+interface RefundPanelProps {
+  bounty: Bounty;
+  // The connected funder's share of the bounty
+  contribution: bigint;
+  onSuccess?: () => void;
+}
+
+function formatCountdown(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  return `${hours}h ${minutes}m ${secs}s`;
+}
+
+/**
+ * Lets a funder reclaim their own contribution once the bounty has gone unclaimed past
+ * its deadline, or after another funder already refunded it
+ */
+export function RefundPanel({ bounty, contribution, onSuccess }: RefundPanelProps) {
+  const { refundBounty, isLoading } = useBounty();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = Number(bounty.deadline) - now;
+  // seepFunds requires block.timestamp to be strictly past the deadline.
+  // Once someone has refunded, the rest can follow without waiting
+  const canRefund = bounty.status === 3 || remaining < 0;
+
+  const handleRefund = async () => {
+    try {
+      await refundBounty(bounty.id);
+      toast({ variant: 'success', title: 'Contribution refunded' });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        variant: 'error',
+        title: 'Failed to refund bounty',
+        description: getErrorMessage(error)
+      });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <Hourglass className="w-5 h-5 text-gray-500" />
+        <div>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {canRefund ? 'Refund available' : 'Bounty deadline'}
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {canRefund
+              ? 'This bounty went unclaimed past its deadline. You can reclaim your contribution of '
+              : `You can reclaim your contribution of `}
+            <TokenAmount amount={contribution} token={bounty.token} />
+            {canRefund
+              ? '.'
+              : ` in ${formatCountdown(remaining)} if the bounty is still open.`}
+          </p>
+        </div>
+      </div>
+
+      {canRefund && (
+        <button
+          onClick={handleRefund}
+          disabled={isLoading}
+          className="flex items-center gap-2 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400
+                   text-white px-4 py-2 rounded-lg font-medium transition-colors whitespace-nowrap"
+        >
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <RotateCcw className="w-5 h-5" />
+          )}
+          Refund
+        </button>
+      )}
+    </div>
+  );
+}
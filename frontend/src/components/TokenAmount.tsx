@@ -0,0 +1,28 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import { useTokenInfo } from '@/hooks/useTokens';
+
+interface TokenAmountProps {
+  amount: bigint;
+  token: `0x${string}`;
+  symbolClassName?: string;
+}
+
+/**
+ * Renders an amount in the token's own decimals, followed by its symbol
+ */
+export function TokenAmount({ amount, token, symbolClassName }: TokenAmountProps) {
+  const info = useTokenInfo(token);
+
+  if (!info) {
+    return <span className="text-gray-400">…</span>;
+  }
+
+  return (
+    <>
+      {formatUnits(amount, info.decimals)}{' '}
+      <span className={symbolClassName}>{info.symbol}</span>
+    </>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { parseUnits, formatUnits } from 'viem';
+import { useBounty } from '@/hooks/useBounty';
+import { useTokenInfo, useTokenBalance } from '@/hooks/useTokens';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useTransactions, getFlowId, getFlowStatus } from '@/contexts/TransactionContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { TxProgress } from '@/components/TxProgress';
+import { TokenAmount } from '@/components/TokenAmount';
+import { X, Loader2 } from 'lucide-react';
+import type { Bounty } from '@/types';
+
+interface TopUpModalProps {
+  bounty: Bounty;
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * Adds funds to an existing bounty in its token. Anyone can top up; each funder
+ * gets their own contribution back if the bounty is refunded.
+ */
+export function TopUpModal({ bounty, isOpen, onClose, onSuccess }: TopUpModalProps) {
+  const { address } = useWallet();
+  const { chainId } = useActiveChain();
+  const { topUpBounty, isLoading } = useBounty();
+  const { toast } = useToast();
+  const { getFlow, clearFlow } = useTransactions();
+  const token = useTokenInfo(bounty.token);
+  const balance = useTokenBalance(bounty.token);
+
+  const [amount, setAmount] = useState('');
+
+  const trackedFlow = getFlow(getFlowId(chainId, 'topUpBounty', bounty.id));
+  const flow = trackedFlow?.account === address ? trackedFlow : null;
+  const flowStatus = flow ? getFlowStatus(flow) : null;
+
+  useEffect(() => {
+    if (!isOpen || !flow || flowStatus !== 'complete' || isLoading) return;
+
+    toast({
+      variant: 'success',
+      title: 'Bounty topped up!',
+      description: token ? `Added ${flow.params.amount} ${token.symbol}.` : undefined
+    });
+    clearFlow(flow.id);
+    setAmount('');
+    onSuccess?.();
+    onClose();
+  }, [isOpen, flowStatus, isLoading]);
+
+  if (!isOpen) return null;
+
+  let amountWei: bigint | null = null;
+  try {
+    amountWei = token && amount ? parseUnits(amount, token.decimals) : null;
+  } catch {
+    // Not a number yet
+  }
+  const exceedsBalance = amountWei !== null && balance !== null && amountWei > balance;
+  const isSubmitting = isLoading || flowStatus === 'active';
+
+  const handleSubmit = async () => {
+    if (!token || !amountWei || amountWei <= 0n) {
+      toast({ variant: 'error', title: 'Enter an amount to add' });
+      return;
+    }
+
+    // Drop a finished or failed earlier attempt
+    if (flow && flowStatus !== 'active') clearFlow(flow.id);
+    try {
+      await topUpBounty(bounty.id, amount, token);
+    } catch (error) {
+      toast({
+        variant: 'error',
+        title: 'Failed to top up bounty',
+        description: getErrorMessage(error)
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-md w-full">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Top Up Bounty
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Current reward</span>
+            <span className="font-medium text-gray-900 dark:text-white">
+              <TokenAmount amount={bounty.amount} token={bounty.token} />
+            </span>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Amount to add{token && ` (${token.symbol})`}
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={isSubmitting}
+              placeholder="100"
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg
+                       bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                       focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {token && balance !== null && (
+              <p className={`mt-2 text-xs ${exceedsBalance ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'}`}>
+                Balance: {formatUnits(balance, token.decimals)} {token.symbol}
+              </p>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The whole reward goes to whoever gets the bounty. If it is refunded after its
+            deadline, you can reclaim what you added.
+          </p>
+
+          {flow && <TxProgress flow={flow} />}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="flex-1 border border-gray-300 dark:border-gray-700 px-4 py-3 rounded-lg
+                     font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !amountWei || amountWei <= 0n || exceedsBalance}
+            className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400
+                     disabled:cursor-not-allowed text-white px-4 py-3 rounded-lg
+                     font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Adding...
+              </>
+            ) : flowStatus === 'failed' ? (
+              'Try Again'
+            ) : (
+              'Add Funds'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
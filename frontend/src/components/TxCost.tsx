@@ -0,0 +1,63 @@
+'use client';
+
+import { formatEther } from 'viem';
+import { Loader2, AlertCircle, Fuel } from 'lucide-react';
+import { useActiveChain } from '@/contexts/WalletContext';
+import type { TxCostPreview } from '@/hooks/useBounty';
+
+interface TxCostProps {
+  preview: TxCostPreview | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+function formatFee(fee: bigint): string {
+  const eth = Number(formatEther(fee));
+  return eth < 0.000001 ? '< 0.000001' : eth.toPrecision(3);
+}
+
+/**
+ * Simulation result and estimated network fee for a pending transaction
+ */
+export function TxCost({ preview, isLoading, error }: TxCostProps) {
+  const { deployment } = useActiveChain();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Simulating transaction...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+        <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+        <div className="text-sm text-red-800 dark:text-red-300">
+          <p className="font-medium mb-1">This transaction would fail</p>
+          <p>{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!preview) return null;
+
+  return (
+    <div className="flex justify-between items-center py-2 text-sm">
+      <span className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+        <Fuel className="w-4 h-4" />
+        Estimated network fee
+      </span>
+      <span className="text-right text-gray-900 dark:text-gray-100">
+        {preview.approximate && '≈ '}
+        {formatFee(preview.fee)} {deployment.chain.nativeCurrency.symbol}
+        <span className="block text-xs text-gray-500 dark:text-gray-400">
+          {preview.gas.toLocaleString()} gas
+        </span>
+      </span>
+    </div>
+  );
+}
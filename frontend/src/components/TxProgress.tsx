@@ -0,0 +1,85 @@
+'use client';
+
+import { Loader2, CheckCircle, XCircle, Circle, ExternalLink } from 'lucide-react';
+import { getDeployment } from '@/lib/contracts/addresses';
+import type { TxFlow, TxStep } from '@/contexts/TransactionContext';
+
+const replacedLabels: Record<NonNullable<TxStep['replaced']>, string> = {
+  repriced: 'sped up',
+  replaced: 'replaced',
+  cancelled: 'cancelled'
+};
+
+function stepDetail(step: TxStep): string | null {
+  switch (step.status) {
+    case 'signing':
+      return 'Confirm in your wallet';
+    case 'pending':
+      return 'Waiting for confirmation';
+    case 'failed':
+      return step.error ?? 'Failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Step-by-step progress of a tracked transaction flow
+ */
+export function TxProgress({ flow }: { flow: TxFlow }) {
+  const explorerUrl = getDeployment(flow.chainId).chain.blockExplorers?.default.url;
+
+  return (
+    <ol className="space-y-3">
+      {flow.steps.map((step) => {
+        const detail = stepDetail(step);
+
+        return (
+          <li key={step.kind} className="flex items-start gap-3 text-sm">
+            {step.status === 'confirmed' ? (
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+            ) : step.status === 'failed' ? (
+              <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            ) : step.status === 'idle' ? (
+              <Circle className="w-5 h-5 text-gray-300 dark:text-gray-600 flex-shrink-0" />
+            ) : (
+              <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className={step.status === 'idle'
+                ? 'text-gray-400 dark:text-gray-500'
+                : 'text-gray-900 dark:text-white'
+              }>
+                {step.label}
+                {step.replaced && (
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    ({replacedLabels[step.replaced]})
+                  </span>
+                )}
+              </p>
+              {detail && (
+                <p className={`text-xs mt-0.5 ${step.status === 'failed'
+                  ? 'text-red-700 dark:text-red-400'
+                  : 'text-gray-500 dark:text-gray-400'
+                }`}>
+                  {detail}
+                </p>
+              )}
+              {step.hash && explorerUrl && (
+                <a
+                  href={`${explorerUrl}/tx/${step.hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs mt-0.5 text-blue-600 hover:text-blue-700"
+                >
+                  {step.hash.slice(0, 10)}...{step.hash.slice(-8)}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
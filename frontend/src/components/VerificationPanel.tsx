@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatDistanceStrict } from 'date-fns';
+import { useBounty, useVerificationTimeout } from '@/hooks/useBounty';
+import { useWallet } from '@/contexts/WalletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { Loader2, RotateCcw, ShieldCheck } from 'lucide-react';
+import type { Bounty } from '@/types';
+
+interface VerificationPanelProps {
+  bounty: Bounty;
+  onSuccess?: () => void;
+}
+
+/**
+ * Shows how long a VERIFYING bounty has waited on the oracle. Once the registry's
+ * verification timeout has passed, anyone can reset it so it can be claimed again.
+ */
+export function VerificationPanel({ bounty, onSuccess }: VerificationPanelProps) {
+  const { isConnected } = useWallet();
+  const { resetVerification, isLoading } = useBounty();
+  const { startedAt, timeout } = useVerificationTimeout(bounty.id, bounty.status === 1);
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (bounty.status !== 1 || startedAt === null || timeout === null) return null;
+
+  const pending = formatDistanceStrict(new Date(Number(startedAt) * 1000), new Date(now * 1000));
+  // resetVerification requires block.timestamp to be strictly past the timeout
+  const resetAt = Number(startedAt + timeout) + 1;
+  const canReset = now >= resetAt;
+
+  const handleReset = async () => {
+    try {
+      await resetVerification(bounty.id);
+      toast({ variant: 'success', title: 'Verification reset', description: 'The bounty is open for claims again.' });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        variant: 'error',
+        title: 'Failed to reset verification',
+        description: getErrorMessage(error)
+      });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/10 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <ShieldCheck className="w-5 h-5 text-yellow-600" />
+        <div>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            Verification pending for {pending}
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {canReset
+              ? 'The oracle has not answered in time. Anyone can reset the bounty so it can be claimed again; a late answer will be ignored.'
+              : `If the oracle has not answered ${formatDistanceStrict(new Date(resetAt * 1000), new Date(now * 1000), { addSuffix: true })}, anyone can reset the bounty.`}
+          </p>
+        </div>
+      </div>
+
+      {canReset && isConnected && (
+        <button
+          onClick={handleReset}
+          disabled={isLoading}
+          className="flex items-center gap-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-400
+                   text-white px-4 py-2 rounded-lg font-medium transition-colors whitespace-nowrap"
+        >
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <RotateCcw className="w-5 h-5" />
+          )}
+          Reset
+        </button>
+      )}
+    </div>
+  );
+}
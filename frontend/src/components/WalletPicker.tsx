@@ -0,0 +1,75 @@
+'use client';
+
+import { useWallet } from '@/contexts/WalletContext';
+import { X, Wallet, ExternalLink } from 'lucide-react';
+
+interface WalletPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function WalletPicker({ isOpen, onClose }: WalletPickerProps) {
+  const { wallets, connect, isConnecting } = useWallet();
+
+  if (!isOpen) return null;
+
+  const handleSelect = async (walletId: string) => {
+    await connect(walletId);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-sm w-full">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+            Connect a Wallet
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-2">
+          {wallets.length === 0 ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              <p className="mb-3">No browser wallet was detected.</p>
+              <a
+                href="https://ethereum.org/en/wallets/find-wallet/"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+              >
+                Find a wallet
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+          ) : (
+            wallets.map((info) => (
+              <button
+                key={info.id}
+                onClick={() => handleSelect(info.id)}
+                disabled={isConnecting}
+                className="w-full flex items-center gap-3 px-4 py-3 border border-gray-200 dark:border-gray-700
+                         rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {info.icon ? (
+                  <img src={info.icon} alt="" className="w-8 h-8 rounded" />
+                ) : (
+                  <Wallet className="w-8 h-8 text-gray-500" />
+                )}
+                <span className="font-medium text-gray-900 dark:text-white">{info.name}</span>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
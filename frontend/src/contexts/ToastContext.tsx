@@ -0,0 +1,113 @@
+'use client';
+
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import * as ToastPrimitive from '@radix-ui/react-toast';
+import { CheckCircle, AlertCircle, Info, X } from 'lucide-react';
+
+export type ToastVariant = 'success' | 'error' | 'info';
+
+interface ToastOptions {
+  title: string;
+  description?: string;
+  variant?: ToastVariant;
+  duration?: number; // ms
+}
+
+interface ToastItem extends Required<Omit<ToastOptions, 'description'>> {
+  id: number;
+  description?: string;
+  open: boolean;
+}
+
+interface ToastContextType {
+  toast: (options: ToastOptions) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+const variantStyles: Record<ToastVariant, string> = {
+  success: 'border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/40',
+  error: 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/40',
+  info: 'border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/40'
+};
+
+const variantIcons: Record<ToastVariant, React.ReactNode> = {
+  success: <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />,
+  error: <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />,
+  info: <Info className="w-5 h-5 text-blue-600 flex-shrink-0" />
+};
+
+let nextToastId = 0;
+
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<ToastItem[]>([]);
+
+  const toast = useCallback(({ title, description, variant = 'info', duration }: ToastOptions) => {
+    setToasts((current) => [
+      ...current,
+      {
+        id: nextToastId++,
+        title,
+        description,
+        variant,
+        // Errors stay up longer so they can be read
+        duration: duration ?? (variant === 'error' ? 8000 : 5000),
+        open: true
+      }
+    ]);
+  }, []);
+
+  const handleOpenChange = (id: number, open: boolean) => {
+    if (open) return;
+    // Let the close animation finish before unmounting
+    setToasts((current) => current.map((t) => (t.id === id ? { ...t, open: false } : t)));
+    setTimeout(() => setToasts((current) => current.filter((t) => t.id !== id)), 200);
+  };
+
+  return (
+    <ToastContext.Provider value={{ toast }}>
+      <ToastPrimitive.Provider swipeDirection="right">
+        {children}
+
+        {toasts.map((t) => (
+          <ToastPrimitive.Root
+            key={t.id}
+            open={t.open}
+            duration={t.duration}
+            onOpenChange={(open) => handleOpenChange(t.id, open)}
+            className={`flex items-start gap-3 p-4 rounded-lg border shadow-lg ${variantStyles[t.variant]}
+                      data-[state=closed]:opacity-0 transition-opacity`}
+          >
+            {variantIcons[t.variant]}
+            <div className="flex-1 min-w-0">
+              <ToastPrimitive.Title className="text-sm font-semibold text-gray-900 dark:text-white">
+                {t.title}
+              </ToastPrimitive.Title>
+              {t.description && (
+                <ToastPrimitive.Description className="mt-1 text-sm text-gray-700 dark:text-gray-300 break-words">
+                  {t.description}
+                </ToastPrimitive.Description>
+              )}
+            </div>
+            <ToastPrimitive.Close
+              aria-label="Close"
+              className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              <X className="w-4 h-4" />
+            </ToastPrimitive.Close>
+          </ToastPrimitive.Root>
+        ))}
+
+        <ToastPrimitive.Viewport className="fixed bottom-0 right-0 z-[100] flex flex-col gap-2 p-4 w-full max-w-sm outline-none" />
+      </ToastPrimitive.Provider>
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within ToastProvider');
+  }
+  return context;
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { getPublicClient } from '@/lib/viem/client';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import { isSupportedChain, type SupportedChainId } from '@/lib/contracts/addresses';
+import type { TransactionReceipt } from 'viem';
+
+const TX_STORAGE_KEY = 'mergemint.transactions';
+// Finished flows are kept around this long so a reloaded page can still show them
+const SETTLED_FLOW_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type TxFlowKind =
+  | 'createBounty'
+  | 'topUpBounty'
+  | 'claimBounty'
+  | 'refundBounty'
+  | 'approvePayoutSplit'
+  | 'resetVerification';
+export type TxStepKind = 'approve' | 'permit' | 'fund' | 'claim' | 'refund' | 'split' | 'reset';
+export type TxStepStatus = 'idle' | 'signing' | 'pending' | 'confirmed' | 'failed';
+export type TxFlowStatus = 'active' | 'interrupted' | 'failed' | 'complete';
+
+export interface TxStep {
+  kind: TxStepKind;
+  label: string;
+  status: TxStepStatus;
+  hash?: `0x${string}`;
+  // Set when the wallet sped up or replaced the original transaction
+  replaced?: 'repriced' | 'replaced' | 'cancelled';
+  error?: string;
+}
+
+export interface TxFlow {
+  id: string;
+  kind: TxFlowKind;
+  chainId: SupportedChainId;
+  account: `0x${string}`;
+  bountyId: `0x${string}`;
+  // Whatever the flow needs to be resumed, e.g. repo, issue and amount
+  params: Record<string, string>;
+  steps: TxStep[];
+  updatedAt: number;
+}
+
+interface StartFlowOptions {
+  kind: TxFlowKind;
+  chainId: SupportedChainId;
+  account: `0x${string}`;
+  bountyId: `0x${string}`;
+  params: Record<string, string>;
+  steps: Array<{ kind: TxStepKind; label: string }>;
+}
+
+interface TransactionContextType {
+  flows: TxFlow[];
+  getFlow: (id: string) => TxFlow | null;
+  startFlow: (options: StartFlowOptions) => string;
+  updateStep: (flowId: string, kind: TxStepKind, patch: Partial<TxStep>) => void;
+  runStep: (
+    flowId: string,
+    kind: TxStepKind,
+    send: () => Promise<`0x${string}`>
+  ) => Promise<TransactionReceipt>;
+  clearFlow: (id: string) => void;
+}
+
+const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
+
+/**
+ * One flow per action on a bounty, so retrying picks up where the last attempt stopped
+ */
+export function getFlowId(chainId: SupportedChainId, kind: TxFlowKind, bountyId: `0x${string}`): string {
+  return `${chainId}:${kind}:${bountyId}`;
+}
+
+export function getFlowStatus(flow: TxFlow): TxFlowStatus {
+  if (flow.steps.some((s) => s.status === 'signing' || s.status === 'pending')) return 'active';
+  if (flow.steps.some((s) => s.status === 'failed')) return 'failed';
+  if (flow.steps.every((s) => s.status === 'confirmed')) return 'complete';
+  return 'interrupted';
+}
+
+function loadFlows(): TxFlow[] {
+  try {
+    const stored: TxFlow[] = JSON.parse(localStorage.getItem(TX_STORAGE_KEY) ?? '[]');
+    const now = Date.now();
+
+    return stored
+      .filter((flow) => isSupportedChain(flow.chainId))
+      .filter((flow) => getFlowStatus(flow) === 'active' || now - flow.updatedAt < SETTLED_FLOW_TTL_MS)
+      .map((flow) => ({
+        ...flow,
+        // A wallet prompt doesn't survive a reload
+        steps: flow.steps.map((s) => (s.status === 'signing' ? { ...s, status: 'idle' } : s))
+      }));
+  } catch {
+    return [];
+  }
+}
+
+export function TransactionProvider({ children }: { children: React.ReactNode }) {
+  const [flows, setFlows] = useState<TxFlow[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Receipt watchers by original hash, shared between a running step and a resumed one
+  const watchers = useRef(new Map<`0x${string}`, Promise<TransactionReceipt>>());
+  const flowsRef = useRef(flows);
+  flowsRef.current = flows;
+
+  const getFlow = useCallback((id: string) => flows.find((f) => f.id === id) ?? null, [flows]);
+
+  const patchStep = (flowId: string, kind: TxStepKind, patch: Partial<TxStep>) => {
+    setFlows((current) => current.map((flow) =>
+      flow.id !== flowId ? flow : {
+        ...flow,
+        updatedAt: Date.now(),
+        steps: flow.steps.map((s) => (s.kind === kind ? { ...s, ...patch } : s))
+      }
+    ));
+  };
+
+  /**
+   * Waits for a step's transaction, following it when the wallet speeds it up or replaces it
+   */
+  const watchStep = (flowId: string, kind: TxStepKind, chainId: SupportedChainId, hash: `0x${string}`) => {
+    const existing = watchers.current.get(hash);
+    if (existing) return existing;
+
+    const watcher = (async () => {
+      let cancelled = false;
+
+      try {
+        const receipt = await getPublicClient(chainId).waitForTransactionReceipt({
+          hash,
+          onReplaced: ({ reason, transaction }) => {
+            cancelled = reason === 'cancelled';
+            patchStep(flowId, kind, { hash: transaction.hash, replaced: reason });
+          }
+        });
+
+        if (cancelled) {
+          throw new Error('The transaction was cancelled in your wallet');
+        }
+        if (receipt.status !== 'success') {
+          throw new Error('The transaction reverted');
+        }
+
+        patchStep(flowId, kind, { status: 'confirmed', error: undefined });
+        return receipt;
+      } catch (err) {
+        patchStep(flowId, kind, { status: 'failed', error: getErrorMessage(err, 'Transaction failed') });
+        throw err;
+      } finally {
+        watchers.current.delete(hash);
+      }
+    })();
+
+    watchers.current.set(hash, watcher);
+    return watcher;
+  };
+
+  const startFlow = ({ kind, chainId, account, bountyId, params, steps }: StartFlowOptions) => {
+    const id = getFlowId(chainId, kind, bountyId);
+    const previous = flowsRef.current.find((f) => f.id === id);
+    // Keep what an unfinished attempt already got confirmed (e.g. the approval)
+    const confirmed = previous && getFlowStatus(previous) !== 'complete'
+      ? previous.steps.filter((s) => s.status === 'confirmed')
+      : [];
+
+    const flow: TxFlow = {
+      id,
+      kind,
+      chainId,
+      account,
+      bountyId,
+      params,
+      updatedAt: Date.now(),
+      steps: [
+        // A confirmed approval drops out of the new plan but still belongs in the progress
+        ...confirmed.filter((c) => !steps.some((s) => s.kind === c.kind)),
+        ...steps.map((s) => confirmed.find((c) => c.kind === s.kind) ?? { ...s, status: 'idle' as const })
+      ]
+    };
+
+    setFlows((current) => [...current.filter((f) => f.id !== id), flow]);
+    return id;
+  };
+
+  const runStep = async (flowId: string, kind: TxStepKind, send: () => Promise<`0x${string}`>) => {
+    const flow = flowsRef.current.find((f) => f.id === flowId);
+    // startFlow's update may not have rendered yet, so fall back to the id
+    const chainId = flow?.chainId ?? (Number(flowId.split(':')[0]) as SupportedChainId);
+
+    patchStep(flowId, kind, { status: 'signing', hash: undefined, replaced: undefined, error: undefined });
+
+    let hash: `0x${string}`;
+    try {
+      hash = await send();
+    } catch (err) {
+      patchStep(flowId, kind, { status: 'failed', error: getErrorMessage(err, 'Transaction failed') });
+      throw err;
+    }
+
+    patchStep(flowId, kind, { status: 'pending', hash });
+    return watchStep(flowId, kind, chainId, hash);
+  };
+
+  const clearFlow = (id: string) => {
+    setFlows((current) => current.filter((f) => f.id !== id));
+  };
+
+  // Restore flows and resume watching whatever was still pending
+  useEffect(() => {
+    const restored = loadFlows();
+    setFlows(restored);
+    setIsHydrated(true);
+
+    for (const flow of restored) {
+      for (const step of flow.steps) {
+        if (step.status === 'pending' && step.hash) {
+          watchStep(flow.id, step.kind, flow.chainId, step.hash).catch((err) => {
+            console.error(`Tracked ${step.kind} transaction failed:`, err);
+          });
+        }
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    localStorage.setItem(TX_STORAGE_KEY, JSON.stringify(flows));
+  }, [flows, isHydrated]);
+
+  return (
+    <TransactionContext.Provider
+      value={{
+        flows,
+        getFlow,
+        startFlow,
+        updateStep: patchStep,
+        runStep,
+        clearFlow
+      }}
+    >
+      {children}
+    </TransactionContext.Provider>
+  );
+}
+
+export function useTransactions() {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactions must be used within TransactionProvider');
+  }
+  return context;
+}
@@ -1,107 +1,163 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { getWalletClient, publicClient } from '@/lib/viem/client';
-import type { WalletClient } from 'viem';
+import {
+  useConnection,
+  useConnect,
+  useConnectors,
+  useDisconnect,
+  useSwitchChain,
+  useWalletClient
+} from 'wagmi';
+import { getPublicClient } from '@/lib/viem/client';
+import { useToast } from '@/contexts/ToastContext';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import {
+  DEFAULT_CHAIN_ID,
+  getDeployment,
+  isSupportedChain,
+  type ChainDeployment,
+  type SupportedChainId
+} from '@/lib/contracts/addresses';
+import type { PublicClient, WalletClient } from 'viem';
+
+const CHAIN_STORAGE_KEY = 'mergemint.chainId';
+// Id of wagmi's catch-all connector for window.ethereum
+const INJECTED_CONNECTOR_ID = 'injected';
+
+/**
+ * A wallet the user can connect, as announced through EIP-6963
+ */
+export interface WalletInfo {
+  id: string; // reverse DNS id (e.g. io.metamask), stable across sessions
+  name: string;
+  icon?: string; // data URI
+}
 
 interface WalletContextType {
   address: `0x${string}` | null;
   isConnected: boolean;
   isConnecting: boolean;
-  connect: () => Promise<void>;
-  disconnect: () => void;
+  // Wallets found in the browser, and the one that is connected
+  wallets: WalletInfo[];
+  wallet: WalletInfo | null;
+  connect: (walletId: string) => Promise<void>;
+  disconnect: () => Promise<void>;
+  // Only set while the wallet is on the app's chain, so writes can't go to the wrong network
   walletClient: WalletClient | null;
+  // Chain the app reads from and writes to
+  chainId: SupportedChainId;
+  // Chain the wallet is actually on (null when not connected)
+  walletChainId: number | null;
+  isWrongNetwork: boolean;
+  switchChain: (chainId: SupportedChainId) => Promise<void>;
 }
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
 export function WalletProvider({ children }: { children: React.ReactNode }) {
-  const [address, setAddress] = useState<`0x${string}` | null>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [walletClient, setWalletClient] = useState<WalletClient | null>(null);
+  const connection = useConnection();
+  const connectors = useConnectors();
+  const { mutateAsync: connectAsync, isPending: isConnectPending } = useConnect();
+  const { mutateAsync: disconnectAsync } = useDisconnect();
+  const { mutateAsync: switchChainAsync } = useSwitchChain();
+  // Chain picked in the UI; used while the wallet is disconnected or on an unsupported chain
+  const [selectedChainId, setSelectedChainId] = useState<SupportedChainId>(DEFAULT_CHAIN_ID);
+  const { toast } = useToast();
+
+  const address = connection.address ?? null;
+  const walletChainId = connection.isConnected ? connection.chainId ?? null : null;
+  const chainId: SupportedChainId = isSupportedChain(walletChainId) ? walletChainId : selectedChainId;
+  const isWrongNetwork = !!address && walletChainId !== null && walletChainId !== chainId;
+
+  // wagmi rebuilds this when the connector, account or chain changes,
+  // and refuses to hand one out while the wallet is on another chain
+  const { data: connectedWalletClient } = useWalletClient({ chainId });
+  const walletClient = !isWrongNetwork && connectedWalletClient
+    ? (connectedWalletClient as WalletClient)
+    : null;
+
+  // The generic injected connector only matters for wallets without EIP-6963
+  const discovered = connectors.filter((c) => c.id !== INJECTED_CONNECTOR_ID);
+  const hasInjectedProvider = typeof window !== 'undefined' && !!window.ethereum;
+  const wallets: WalletInfo[] = (discovered.length > 0 || !hasInjectedProvider ? discovered : connectors)
+    .map(({ id, name, icon }) => ({ id, name, icon }));
+
+  const wallet = connection.connector
+    ? { id: connection.connector.id, name: connection.connector.name, icon: connection.connector.icon }
+    : null;
+
+  const connect = async (walletId: string) => {
+    const connector = connectors.find((c) => c.id === walletId);
+    if (!connector) {
+      toast({ variant: 'error', title: 'Wallet not found', description: 'Install a browser wallet to continue.' });
+      return;
+    }
 
-   const connect = async () => {
     try {
-      setIsConnecting(true);
-      
-      if (typeof window === 'undefined' || !window.ethereum) {
-        alert('Please install MetaMask!');
-        return;
-      }
-
-      // Request account access
-      const accounts = await window.ethereum.request({
-        method: 'eth_requestAccounts'
-      }) as string[];
-
-      if (accounts.length > 0) {
-        const client = getWalletClient();
-        setWalletClient(client);
-        setAddress(accounts[0] as `0x${string}`);
-      }
+      await connectAsync({ connector });
     } catch (error) {
       console.error('Failed to connect wallet:', error);
-    } finally {
-      setIsConnecting(false);
+      toast({ variant: 'error', title: `Failed to connect ${connector.name}`, description: getErrorMessage(error) });
     }
   };
 
-  const disconnect = () => {
-    setAddress(null);
-    setWalletClient(null);
+  // The injected connector also revokes the site's permission where the wallet supports it
+  const disconnect = async () => {
+    await disconnectAsync();
   };
 
-  // Listen for account changes
-  useEffect(() => {
-    if (!window.ethereum) return;
-
-    const handleAccountsChanged = (accounts: string[]) => {
-      if (accounts.length === 0) {
-        disconnect();
-      } else {
-        setAddress(accounts[0] as `0x${string}`);
+  /**
+   * Switches the app to a supported chain, asking the wallet to follow.
+   * Adds the chain to the wallet first if it doesn't know it yet.
+   */
+  const switchChain = async (targetChainId: SupportedChainId) => {
+    setSelectedChainId(targetChainId);
+    localStorage.setItem(CHAIN_STORAGE_KEY, String(targetChainId));
+
+    if (!address) return;
+
+    const { rpcUrl, name } = getDeployment(targetChainId);
+    await switchChainAsync({
+      chainId: targetChainId,
+      addEthereumChainParameter: {
+        chainName: name,
+        rpcUrls: [rpcUrl]
       }
-    };
-
-    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    });
+  };
 
-    return () => {
-      window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
-    };
+  // Restore the last chosen chain
+  useEffect(() => {
+    const stored = Number(localStorage.getItem(CHAIN_STORAGE_KEY));
+    if (isSupportedChain(stored)) {
+      setSelectedChainId(stored);
+    }
   }, []);
 
-  // Check if already connected on mount
+  // Follow the wallet when it moves to another supported chain
   useEffect(() => {
-    const checkConnection = async () => {
-      if (!window.ethereum) return;
-
-      try {
-        const accounts = await window.ethereum.request({
-          method: 'eth_accounts'
-        }) as string[];
-
-        if (accounts.length > 0) {
-          const client = getWalletClient();
-          setWalletClient(client);
-          setAddress(accounts[0] as `0x${string}`);
-        }
-      } catch (error) {
-        console.error('Error checking connection:', error);
-      }
-    };
-
-    checkConnection();
-  }, []);
+    if (isSupportedChain(walletChainId)) {
+      setSelectedChainId(walletChainId);
+      localStorage.setItem(CHAIN_STORAGE_KEY, String(walletChainId));
+    }
+  }, [walletChainId]);
 
   return (
     <WalletContext.Provider
       value={{
         address,
-        isConnected: !!address,
-        isConnecting,
+        isConnected: connection.isConnected,
+        isConnecting: connection.isConnecting || connection.isReconnecting || isConnectPending,
+        wallets,
+        wallet,
         connect,
         disconnect,
-        walletClient
+        walletClient,
+        chainId,
+        walletChainId,
+        isWrongNetwork,
+        switchChain
       }}
     >
       {children}
@@ -115,4 +171,20 @@ export function useWallet() {
     throw new Error('useWallet must be used within WalletProvider');
   }
   return context;
-}
\ No newline at end of file
+}
+
+/**
+ * The active chain's deployment and public client
+ */
+export function useActiveChain(): {
+  chainId: SupportedChainId;
+  deployment: ChainDeployment;
+  publicClient: PublicClient;
+} {
+  const { chainId } = useWallet();
+  return {
+    chainId,
+    deployment: getDeployment(chainId),
+    publicClient: getPublicClient(chainId)
+  };
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import React, { useState } from 'react';
+import { WagmiProvider } from 'wagmi';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { wagmiConfig } from '@/lib/wagmi/config';
+
+// Chain reads are cheap to keep around; events invalidate them when they change
+const QUERY_STALE_TIME_MS = 30_000;
+
+export function Web3Provider({ children }: { children: React.ReactNode }) {
+  // One client per browser session, not per render
+  const [queryClient] = useState(() => new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: QUERY_STALE_TIME_MS,
+        refetchOnWindowFocus: false
+      }
+    }
+  }));
+
+  return (
+    <WagmiProvider config={wagmiConfig}>
+      <QueryClientProvider client={queryClient}>
+        {children}
+      </QueryClientProvider>
+    </WagmiProvider>
+  );
+}
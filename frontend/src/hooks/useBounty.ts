@@ -1,83 +1,542 @@
-import { useState } from 'react';
-import { parseUnits, encodeFunctionData, keccak256, encodePacked } from 'viem';
-import { sepolia } from 'viem/chains';
-import { publicClient } from '@/lib/viem/client';
-import { useWallet } from '@/contexts/WalletContext';
-import { CONTRACTS } from '@/lib/contracts/addresses';
-import { BountyRegistryABI, USDC_ABI } from '@/lib/contracts/abis';
-import type { Bounty, BountyStatus } from '@/types';
+import { useState, useMemo, useRef, useCallback } from 'react';
+import { parseUnits, keccak256, encodePacked } from 'viem';
+import { useReadContract, useReadContracts, useWatchContractEvent } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { BountyRegistryABI, ERC20_ABI } from '@/lib/contracts/abis';
+import { getErrorMessage, isAllowanceRevert } from '@/lib/contracts/errors';
+import { bountyQueryKeys, invalidateBounty } from '@/lib/contracts/queries';
+import {
+  FUND_ISSUE_GAS_ESTIMATE,
+  PERMIT_GAS_OVERHEAD,
+  getFeePerGas,
+  getScanRange,
+  scanBlockRange,
+  toBounty
+} from '@/lib/contracts/BountyRegistry';
+import { getPermitDomain, signPermit, type PermitSignature } from '@/lib/contracts/permit';
+import type { TokenInfo } from '@/lib/contracts/tokens';
+import type { ContractFunctionParameters, TypedDataDomain } from 'viem';
+import { SplitMode, type BountyStatus, type PayoutSplit } from '@/types';
+
+export type FundingMethod = 'allowance' | 'permit' | 'approve';
+
+// A registry write that moves tokens into a bounty, minus the address and ABI
+type FundingCall = Omit<
+  ContractFunctionParameters<
+    typeof BountyRegistryABI,
+    'nonpayable',
+    'fundIssue' | 'fundIssueWithPermit' | 'topUpBounty' | 'topUpBountyWithPermit'
+  >,
+  'address' | 'abi'
+>;
+
+export interface TxCostPreview {
+  gas: bigint;
+  fee: bigint; // wei, at the current max fee per gas
+  approximate: boolean; // part of the gas couldn't be estimated yet
+}
+
+/**
+ * Computes a unique bounty ID from repo details
+ * Uses encodePacked (matching Solidity's abi.encodePacked) instead of encodeAbiParameters
+ */
+export function computeBountyId(
+  repoOwner: string,
+  repoName: string,
+  issueNumber: string
+): `0x${string}` {
+  // Must use encodePacked to match Solidity's abi.encodePacked
+  const encoded = encodePacked(
+    ['string', 'string', 'string'],
+    [repoOwner, repoName, issueNumber]
+  );
+  return keccak256(encoded);
+}
+
+/**
+ * Cached on-chain state of one bounty (null when there is none)
+ */
+export function useBountyDetails(repoOwner: string, repoName: string, issueNumber: string) {
+  const { chainId, deployment } = useActiveChain();
+  const bountyId = computeBountyId(repoOwner, repoName, issueNumber);
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'getBountyDetails',
+    args: [bountyId],
+    chainId,
+    query: {
+      select: (details) => toBounty(bountyId, details, { repoOwner, repoName, issueNumber })
+    }
+  });
+
+  return {
+    bounty: data ?? null,
+    isLoading,
+    error: error ? getErrorMessage(error, 'Failed to load bounty') : null,
+    refetch
+  };
+}
+
+export interface BountyFunder {
+  address: `0x${string}`;
+  amount: bigint;
+}
+
+/**
+ * Who funded a bounty and how much, plus the connected wallet's own contribution
+ * and whether it has taken its refund
+ */
+export function useBountyFunding(bountyId: `0x${string}` | null | undefined) {
+  const { address } = useWallet();
+  const { chainId, deployment } = useActiveChain();
+
+  const { data: funders, isLoading } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'getFunders',
+    args: bountyId ? [bountyId] : undefined,
+    chainId,
+    query: {
+      enabled: !!bountyId,
+      select: ([accounts, amounts]): BountyFunder[] =>
+        accounts.map((account, i) => ({ address: account, amount: amounts[i] }))
+    }
+  });
+
+  const { data: refundClaimed } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'refundClaimed',
+    args: bountyId && address ? [bountyId, address] : undefined,
+    chainId,
+    query: { enabled: !!bountyId && !!address }
+  });
+
+  const own = address
+    ? funders?.find((funder) => funder.address.toLowerCase() === address.toLowerCase())
+    : undefined;
+
+  return {
+    funders: funders ?? [],
+    contribution: own?.amount ?? 0n,
+    refundClaimed: refundClaimed ?? false,
+    isLoading
+  };
+}
+
+/**
+ * The payout split the issuer approved for a bounty (null when it pays a single claimer),
+ * with the GitHub account each recipient linked (null until they link one)
+ */
+export function usePayoutSplit(bountyId: `0x${string}` | null | undefined) {
+  const { chainId, deployment } = useActiveChain();
+
+  const { data, isLoading } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'getPayoutSplit',
+    args: bountyId ? [bountyId] : undefined,
+    chainId,
+    query: {
+      enabled: !!bountyId,
+      select: ([mode, recipients, shares]): PayoutSplit | null =>
+        mode === SplitMode.NONE ? null : { mode, recipients: [...recipients], shares: [...shares] }
+    }
+  });
+
+  const { data: identities } = useReadContracts({
+    contracts: (data?.recipients ?? []).map((recipient) => ({
+      address: deployment.BountyRegistry,
+      abi: BountyRegistryABI,
+      functionName: 'githubIdentities',
+      args: [recipient],
+      chainId
+    } as const)),
+    query: { enabled: !!data }
+  });
+
+  const usernames = (data?.recipients ?? []).map((_, i) => identities?.[i]?.result?.[0] || null);
+
+  return { split: data ?? null, usernames, isLoading };
+}
+
+/**
+ * How far out (in seconds from now) a new bounty's deadline may be set (null while loading)
+ */
+export function useBountyDurationBounds(): { min: bigint; max: bigint } | null {
+  const { chainId, deployment } = useActiveChain();
+
+  const { data } = useReadContracts({
+    contracts: [
+      { address: deployment.BountyRegistry, abi: BountyRegistryABI, functionName: 'minBountyDuration', chainId },
+      { address: deployment.BountyRegistry, abi: BountyRegistryABI, functionName: 'maxBountyDuration', chainId }
+    ],
+    allowFailure: false
+  });
+
+  return data ? { min: data[0], max: data[1] } : null;
+}
+
+/**
+ * When a VERIFYING bounty's claim was submitted and how long the oracle has to answer it
+ * before anyone can reset the bounty (null while loading)
+ */
+export function useVerificationTimeout(bountyId: `0x${string}` | null | undefined, enabled: boolean) {
+  const { chainId, deployment } = useActiveChain();
+
+  const { data: startedAt } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'verificationStartedAt',
+    args: bountyId ? [bountyId] : undefined,
+    chainId,
+    query: { enabled: !!bountyId && enabled }
+  });
+
+  const { data: timeout } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'verificationTimeout',
+    chainId,
+    query: { enabled }
+  });
+
+  return { startedAt: startedAt ?? null, timeout: timeout ?? null };
+}
+
+export interface BountyPayment {
+  recipient: `0x${string}`;
+  amount: bigint;
+  githubUsername: string;
+}
+
+/**
+ * What a paid bounty sent to whom, from its BountyPaid events (one per split recipient)
+ */
+export function useBountyPayments(bountyId: `0x${string}` | null | undefined, enabled: boolean) {
+  const { chainId, deployment, publicClient } = useActiveChain();
+
+  const { data, isLoading } = useQuery({
+    queryKey: bountyQueryKeys.payments(chainId, bountyId ?? null),
+    queryFn: async (): Promise<BountyPayment[]> => {
+      const { fromBlock, toBlock } = await getScanRange(chainId);
+      const logs = await scanBlockRange(
+        (from, to) => publicClient.getContractEvents({
+          address: deployment.BountyRegistry,
+          abi: BountyRegistryABI,
+          eventName: 'BountyPaid',
+          args: { bountyID: bountyId! },
+          fromBlock: from,
+          toBlock: to
+        }),
+        fromBlock,
+        toBlock
+      );
+      return logs.map((log) => ({
+        recipient: log.args.claimer as `0x${string}`,
+        amount: log.args.amount ?? 0n,
+        githubUsername: log.args.githubUsername ?? ''
+      }));
+    },
+    enabled: !!bountyId && enabled
+  });
+
+  return { payments: data ?? [], isLoading };
+}
+
+/**
+ * Calls back when a bounty changes status, has a claim rejected or is refunded
+ */
+export function useWatchBounty(
+  bountyId: `0x${string}` | null | undefined,
+  handlers: {
+    onStatusChanged?: (newStatus: BountyStatus) => void;
+    // reason is a RejectionReason code
+    onClaimRejected?: (reason: number) => void;
+    // Each funder's refund is its own event
+    onRefunded?: (amount: bigint, funder: `0x${string}`) => void;
+  }
+) {
+  const { chainId, deployment } = useActiveChain();
+
+  // wagmi resubscribes whenever args or onLogs change identity, so keep both stable
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const args = useMemo(() => ({ bountyID: bountyId ?? undefined }), [bountyId]);
+
+  const onStatusLogs = useCallback((logs: ReadonlyArray<{ args: { newStatus?: number } }>) => {
+    if (logs.length > 0) {
+      handlersRef.current.onStatusChanged?.(logs[logs.length - 1].args.newStatus as BountyStatus);
+    }
+  }, []);
+
+  const onRejectedLogs = useCallback((logs: ReadonlyArray<{ args: { reason?: number } }>) => {
+    if (logs.length > 0) {
+      handlersRef.current.onClaimRejected?.(logs[logs.length - 1].args.reason ?? 0);
+    }
+  }, []);
+
+  const onRefundLogs = useCallback(
+    (logs: ReadonlyArray<{ args: { amount?: bigint; funder?: `0x${string}` } }>) => {
+      for (const log of logs) {
+        if (log.args.funder) handlersRef.current.onRefunded?.(log.args.amount ?? 0n, log.args.funder);
+      }
+    },
+    []
+  );
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'BountyStatusChanged',
+    args,
+    chainId,
+    enabled: !!bountyId,
+    onLogs: onStatusLogs
+  });
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'ClaimRejected',
+    args,
+    chainId,
+    enabled: !!bountyId,
+    onLogs: onRejectedLogs
+  });
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'FundsRefunded',
+    args,
+    chainId,
+    enabled: !!bountyId,
+    onLogs: onRefundLogs
+  });
+}
+
+/**
+ * Keeps cached bounty reads fresh: any status change, top-up, split or payout on the active
+ * chain invalidates that bounty's reads and every list it can appear in
+ */
+export function useBountyCacheSync() {
+  const { chainId, deployment } = useActiveChain();
+  const queryClient = useQueryClient();
+
+  const invalidate = useCallback((logs: ReadonlyArray<{ args: { bountyID?: `0x${string}` } }>) => {
+    const bountyIds = new Set(logs.map((log) => log.args.bountyID).filter((id) => !!id));
+    for (const bountyId of bountyIds) {
+      invalidateBounty(queryClient, chainId, bountyId as `0x${string}`);
+    }
+  }, [queryClient, chainId]);
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'BountyStatusChanged',
+    chainId,
+    onLogs: invalidate
+  });
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'BountyContributed',
+    chainId,
+    onLogs: invalidate
+  });
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'BountyPaid',
+    chainId,
+    onLogs: invalidate
+  });
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'FundsRefunded',
+    chainId,
+    onLogs: invalidate
+  });
+
+  useWatchContractEvent({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    eventName: 'PayoutSplitApproved',
+    chainId,
+    onLogs: invalidate
+  });
+}
 
 export function useBounty() {
-  const { address, walletClient } = useWallet();
+  const { address, walletClient, isWrongNetwork } = useWallet();
+  const { chainId, deployment, publicClient } = useActiveChain();
+  const { startFlow, updateStep, runStep } = useTransactions();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Computes a unique bounty ID from repo details
-   * Uses encodePacked (matching Solidity's abi.encodePacked) instead of encodeAbiParameters
+   * Picks how a bounty of amountWei gets funded:
+   * - 'allowance': the existing allowance already covers it, just fundIssue
+   * - 'permit': sign an EIP-2612 permit, then fundIssueWithPermit
+   * - 'approve': approve, wait for it, then fundIssue
    */
-  const computeBountyId = (
-    repoOwner: string,
-    repoName: string,
-    issueNumber: string
-  ): `0x${string}` => {
-    // Must use encodePacked to match Solidity's abi.encodePacked
-    const encoded = encodePacked(
-      ['string', 'string', 'string'],
-      [repoOwner, repoName, issueNumber]
-    );
-    return keccak256(encoded);
+  const getFundingMethod = async (
+    token: `0x${string}`,
+    amountWei: bigint
+  ): Promise<{ method: FundingMethod; permitDomain: TypedDataDomain | null }> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: ERC20_ABI,
+      functionName: 'allowance',
+      args: [address, deployment.BountyRegistry]
+    });
+    if (allowance >= amountWei) {
+      return { method: 'allowance', permitDomain: null };
+    }
+
+    const permitDomain = await getPermitDomain(publicClient, token);
+    return { method: permitDomain ? 'permit' : 'approve', permitDomain };
   };
 
   /**
-   * Fetches bounty details from the contract
+   * Runs the steps of a funding flow started with startFlow: the approve or permit
+   * step the method needs, then the 'fund' step. `calls` give the registry call
+   * without and with a permit. Resolves with the funding transaction's receipt.
    */
-  const getBounty = async (
-    repoOwner: string,
-    repoName: string,
-    issueNumber: string
-  ): Promise<Bounty | null> => {
-    try {
-      console.log('getBounty called with:', { repoOwner, repoName, issueNumber });
-      
-      const bountyId = computeBountyId(repoOwner, repoName, issueNumber);
-      console.log('Computed bountyId:', bountyId);
+  const runFundingSteps = async (
+    flowId: string,
+    method: FundingMethod,
+    permitDomain: TypedDataDomain | null,
+    token: TokenInfo,
+    amountWei: bigint,
+    calls: {
+      fund: () => FundingCall;
+      fundWithPermit: (permit: PermitSignature) => FundingCall;
+    }
+  ) => {
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
 
-      const result = await publicClient.readContract({
-        address: CONTRACTS.sepolia.BountyRegistry,
+    const sendFunding = (call: FundingCall) => runStep(flowId, 'fund', async () => {
+      // Simulate first so reverts surface before the wallet prompt
+      const { request } = await publicClient.simulateContract({
+        address: deployment.BountyRegistry,
         abi: BountyRegistryABI,
-        functionName: 'getBountyDetails',
-        args: [bountyId]
+        ...call,
+        account: address
+      });
+      return walletClient.writeContract({ ...request, chain: deployment.chain });
+    });
+
+    if (method === 'permit' && permitDomain) {
+      // One signature, one transaction
+      updateStep(flowId, 'permit', { status: 'signing', error: undefined });
+      let permit;
+      try {
+        permit = await signPermit(publicClient, walletClient, {
+          domain: permitDomain,
+          owner: address,
+          spender: deployment.BountyRegistry,
+          value: amountWei
+        });
+      } catch (err) {
+        updateStep(flowId, 'permit', { status: 'failed', error: getErrorMessage(err) });
+        throw err;
+      }
+      updateStep(flowId, 'permit', { status: 'confirmed' });
+
+      return sendFunding(calls.fundWithPermit(permit));
+    }
+
+    if (method === 'approve') {
+      await runStep(flowId, 'approve', async () => {
+        const { request } = await publicClient.simulateContract({
+          address: token.address,
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [deployment.BountyRegistry, amountWei],
+          account: address
+        });
+        return walletClient.writeContract({ ...request, chain: deployment.chain });
       });
+    }
+
+    return sendFunding(calls.fund());
+  };
+
+  /**
+   * Dry-runs createBounty: picks the funding method, checks the funding call
+   * would succeed and estimates what the whole flow costs in gas.
+   * Throws the decoded revert if it would fail.
+   */
+  const previewCreateBounty = async (
+    repoOwner: string,
+    repoName: string,
+    issueNumber: string,
+    amount: string,
+    token: TokenInfo,
+    deadline: bigint
+  ): Promise<TxCostPreview & { method: FundingMethod }> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const amountWei = parseUnits(amount, token.decimals);
+    const { method } = await getFundingMethod(token.address, amountWei);
+    const fundIssue = {
+      address: deployment.BountyRegistry,
+      abi: BountyRegistryABI,
+      functionName: 'fundIssue',
+      args: [amountWei, token.address, repoOwner, repoName, issueNumber, deadline],
+      account: address
+    } as const;
 
-      const [issuer, token, amount, status, creationTime, prClaimer, activeRequestId] = result;
-      console.log('Contract returned:', { amount: amount.toString(), status });
+    let gas: bigint;
+    let approximate = false;
 
-      // Return null if bounty doesn't exist
-      if (amount === 0n) {
-        console.warn('Bounty not found - amount is 0n');
-        return null;
+    if (method === 'allowance') {
+      gas = await publicClient.estimateContractGas(fundIssue);
+    } else {
+      // Without the allowance the transfer is bound to fail, but everything
+      // checked before it (token allowlist, existing bounty) still runs
+      try {
+        await publicClient.simulateContract(fundIssue);
+      } catch (err) {
+        if (!isAllowanceRevert(err)) throw err;
       }
 
-      console.log('Bounty found successfully');
-
-      return {
-        id: bountyId,
-        issuer,
-        token,
-        amount,
-        status: status as BountyStatus,
-        creationTime,
-        prClaimer,
-        activeRequestId,
-        repoOwner,
-        repoName,
-        issueNumber
-      };
-    } catch (error) {
-      console.error('Error fetching bounty:', error);
-      return null;
+      approximate = true;
+      gas = FUND_ISSUE_GAS_ESTIMATE;
+      if (method === 'permit') {
+        gas += PERMIT_GAS_OVERHEAD;
+      } else {
+        gas += await publicClient.estimateContractGas({
+          address: token.address,
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [deployment.BountyRegistry, amountWei],
+          account: address
+        });
+      }
     }
+
+    const fee = gas * await getFeePerGas(publicClient);
+    return { method, gas, fee, approximate };
   };
 
   /**
@@ -87,8 +546,13 @@ export function useBounty() {
     repoOwner: string,
     repoName: string,
     issueNumber: string,
-    amount: string // In USDC (e.g., "100")
+    amount: string, // In whole tokens (e.g., "100")
+    token: TokenInfo,
+    deadline: bigint // Unix timestamp (seconds) after which the bounty can be refunded
   ) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
     if (!address || !walletClient) {
       throw new Error('Wallet not connected');
     }
@@ -97,45 +561,93 @@ export function useBounty() {
     setError(null);
 
     try {
-      const amountWei = parseUnits(amount, 6); // USDC has 6 decimals
-
-      // Step 1: Approve USDC spending
-      console.log('Approving USDC...');
-      const approveHash = await walletClient.writeContract({
-        address: CONTRACTS.sepolia.USDC,
-        abi: USDC_ABI,
-        functionName: 'approve',
-        args: [CONTRACTS.sepolia.BountyRegistry, amountWei],
+      const amountWei = parseUnits(amount, token.decimals);
+      const { method, permitDomain } = await getFundingMethod(token.address, amountWei);
+
+      const bountyId = computeBountyId(repoOwner, repoName, issueNumber);
+      const flowId = startFlow({
+        kind: 'createBounty',
+        chainId,
         account: address,
-        chain: sepolia
+        bountyId,
+        params: { repoOwner, repoName, issueNumber, amount, token: token.address, deadline: deadline.toString() },
+        steps: [
+          ...(method === 'approve' ? [{ kind: 'approve' as const, label: `Approve ${token.symbol}` }] : []),
+          ...(method === 'permit' ? [{ kind: 'permit' as const, label: `Sign ${token.symbol} permit` }] : []),
+          { kind: 'fund', label: 'Create bounty' }
+        ]
       });
 
-      await publicClient.waitForTransactionReceipt({ hash: approveHash });
-      console.log('USDC approved');
+      const receipt = await runFundingSteps(flowId, method, permitDomain, token, amountWei, {
+        fund: () => ({
+          functionName: 'fundIssue',
+          args: [amountWei, token.address, repoOwner, repoName, issueNumber, deadline]
+        }),
+        fundWithPermit: (permit) => ({
+          functionName: 'fundIssueWithPermit',
+          args: [amountWei, token.address, repoOwner, repoName, issueNumber, deadline, permit.deadline, permit.v, permit.r, permit.s]
+        })
+      });
 
-      // Step 2: Create bounty
-      console.log('Creating bounty...');
-      const hash = await walletClient.writeContract({
-        address: CONTRACTS.sepolia.BountyRegistry,
-        abi: BountyRegistryABI,
-        functionName: 'fundIssue',
-        args: [
-          amountWei,
-          CONTRACTS.sepolia.USDC,
-          repoOwner,
-          repoName,
-          issueNumber
-        ],
+      invalidateBounty(queryClient, chainId, bountyId);
+
+      return receipt;
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to create bounty');
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Adds amount (in whole tokens) to an existing bounty, in the bounty's token
+   */
+  const topUpBounty = async (
+    bountyId: `0x${string}`,
+    amount: string,
+    token: TokenInfo
+  ) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const amountWei = parseUnits(amount, token.decimals);
+      const { method, permitDomain } = await getFundingMethod(token.address, amountWei);
+
+      const flowId = startFlow({
+        kind: 'topUpBounty',
+        chainId,
         account: address,
-        chain: sepolia
+        bountyId,
+        params: { amount, token: token.address },
+        steps: [
+          ...(method === 'approve' ? [{ kind: 'approve' as const, label: `Approve ${token.symbol}` }] : []),
+          ...(method === 'permit' ? [{ kind: 'permit' as const, label: `Sign ${token.symbol} permit` }] : []),
+          { kind: 'fund', label: 'Top up bounty' }
+        ]
       });
 
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
-      console.log('Bounty created:', receipt.transactionHash);
+      const receipt = await runFundingSteps(flowId, method, permitDomain, token, amountWei, {
+        fund: () => ({ functionName: 'topUpBounty', args: [bountyId, amountWei] }),
+        fundWithPermit: ({ deadline, v, r, s }) => ({
+          functionName: 'topUpBountyWithPermit',
+          args: [bountyId, amountWei, deadline, v, r, s]
+        })
+      });
+      invalidateBounty(queryClient, chainId, bountyId);
 
       return receipt;
-    } catch (err: any) {
-      const errorMessage = err.message || 'Failed to create bounty';
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to top up bounty');
       setError(errorMessage);
       throw err;
     } finally {
@@ -143,8 +655,15 @@ export function useBounty() {
     }
   };
 
+  // The bond claimBounty must be sent, read fresh so a changed bond doesn't revert the claim
+  const readClaimBond = () => publicClient.readContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'claimBond'
+  });
+
   /**
-   * Claims a bounty by submitting a PR
+   * Claims a bounty by submitting a PR, posting the registry's claim bond
    */
   const claimBounty = async (
     repoOwner: string,
@@ -152,6 +671,9 @@ export function useBounty() {
     issueNumber: string,
     prNumber: string
   ) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
     if (!address || !walletClient) {
       throw new Error('Wallet not connected');
     }
@@ -161,22 +683,32 @@ export function useBounty() {
 
     try {
       const bountyId = computeBountyId(repoOwner, repoName, issueNumber);
-
-      const hash = await walletClient.writeContract({
-        address: CONTRACTS.sepolia.BountyRegistry,
-        abi: BountyRegistryABI,
-        functionName: 'claimBounty',
-        args: [bountyId, prNumber, repoOwner, repoName, issueNumber],
+      const flowId = startFlow({
+        kind: 'claimBounty',
+        chainId,
         account: address,
-        chain: sepolia
+        bountyId,
+        params: { repoOwner, repoName, issueNumber, prNumber },
+        // A split claim sends its PR numbers comma separated
+        steps: [{ kind: 'claim', label: `Submit claim for PR #${prNumber.split(',').join(', #')}` }]
       });
 
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
-      console.log('Claim submitted:', receipt.transactionHash);
+      const receipt = await runStep(flowId, 'claim', async () => {
+        const { request } = await publicClient.simulateContract({
+          address: deployment.BountyRegistry,
+          abi: BountyRegistryABI,
+          functionName: 'claimBounty',
+          args: [bountyId, prNumber, repoOwner, repoName, issueNumber],
+          value: await readClaimBond(),
+          account: address
+        });
+        return walletClient.writeContract({ ...request, chain: deployment.chain });
+      });
+      invalidateBounty(queryClient, chainId, bountyId);
 
       return receipt;
-    } catch (err: any) {
-      const errorMessage = err.message || 'Failed to claim bounty';
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to claim bounty');
       setError(errorMessage);
       throw err;
     } finally {
@@ -185,53 +717,185 @@ export function useBounty() {
   };
 
   /**
-   * Watches for bounty status changes
+   * Dry-runs claimBounty and estimates its gas.
+   * Throws the decoded revert (e.g. InvalidStatus while another claim is verifying).
    */
-  const watchBountyStatus = (
-    bountyId: `0x${string}`,
-    callback: (newStatus: BountyStatus) => void
-  ) => {
-    return publicClient.watchContractEvent({
-      address: CONTRACTS.sepolia.BountyRegistry,
+  const previewClaimBounty = async (
+    repoOwner: string,
+    repoName: string,
+    issueNumber: string,
+    prNumber: string
+  ): Promise<TxCostPreview> => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const gas = await publicClient.estimateContractGas({
+      address: deployment.BountyRegistry,
       abi: BountyRegistryABI,
-      eventName: 'BountyStatusChanged',
-      args: { bountyID: bountyId },
-      onLogs: (logs) => {
-        if (logs.length > 0) {
-          const newStatus = logs[0].args.newStatus as BountyStatus;
-          callback(newStatus);
-        }
-      }
+      functionName: 'claimBounty',
+      args: [computeBountyId(repoOwner, repoName, issueNumber), prNumber, repoOwner, repoName, issueNumber],
+      value: await readClaimBond(),
+      account: address
     });
+
+    const fee = gas * await getFeePerGas(publicClient);
+    return { gas, fee, approximate: false };
   };
 
   /**
-   * Checks user's USDC balance
+   * Refunds the connected funder's contribution to an expired bounty
    */
-  const getUSDCBalance = async (): Promise<bigint> => {
-    if (!address) return 0n;
+  const refundBounty = async (bountyId: `0x${string}`) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsLoading(true);
+    setError(null);
 
     try {
-      const balance = await publicClient.readContract({
-        address: CONTRACTS.sepolia.USDC,
-        abi: USDC_ABI,
-        functionName: 'balanceOf',
-        args: [address]
+      const flowId = startFlow({
+        kind: 'refundBounty',
+        chainId,
+        account: address,
+        bountyId,
+        params: {},
+        steps: [{ kind: 'refund', label: 'Refund bounty' }]
       });
-      return balance;
-    } catch (error) {
-      console.error('Error fetching USDC balance:', error);
-      return 0n;
+
+      const receipt = await runStep(flowId, 'refund', async () => {
+        const { request } = await publicClient.simulateContract({
+          address: deployment.BountyRegistry,
+          abi: BountyRegistryABI,
+          functionName: 'seepFunds',
+          args: [bountyId],
+          account: address
+        });
+        return walletClient.writeContract({ ...request, chain: deployment.chain });
+      });
+      invalidateBounty(queryClient, chainId, bountyId);
+
+      return receipt;
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to refund bounty');
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Reopens a bounty whose claim the oracle didn't answer within the verification timeout
+   */
+  const resetVerification = async (bountyId: `0x${string}`) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const flowId = startFlow({
+        kind: 'resetVerification',
+        chainId,
+        account: address,
+        bountyId,
+        params: {},
+        steps: [{ kind: 'reset', label: 'Reset verification' }]
+      });
+
+      const receipt = await runStep(flowId, 'reset', async () => {
+        const { request } = await publicClient.simulateContract({
+          address: deployment.BountyRegistry,
+          abi: BountyRegistryABI,
+          functionName: 'resetVerification',
+          args: [bountyId],
+          account: address
+        });
+        return walletClient.writeContract({ ...request, chain: deployment.chain });
+      });
+      invalidateBounty(queryClient, chainId, bountyId);
+
+      return receipt;
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to reset verification');
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Approves how an open bounty's payout is shared. shares are basis points of
+   * TOTAL_SPLIT_SHARES for FIXED and empty for PER_PULL_REQUEST; NONE removes the split.
+   */
+  const approvePayoutSplit = async (
+    bountyId: `0x${string}`,
+    split: PayoutSplit
+  ) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const flowId = startFlow({
+        kind: 'approvePayoutSplit',
+        chainId,
+        account: address,
+        bountyId,
+        params: { mode: String(split.mode), recipients: split.recipients.join(','), shares: split.shares.join(',') },
+        steps: [{ kind: 'split', label: split.mode === SplitMode.NONE ? 'Remove payout split' : 'Approve payout split' }]
+      });
+
+      const receipt = await runStep(flowId, 'split', async () => {
+        const { request } = await publicClient.simulateContract({
+          address: deployment.BountyRegistry,
+          abi: BountyRegistryABI,
+          functionName: 'approvePayoutSplit',
+          args: [bountyId, split.mode, split.recipients, split.shares],
+          account: address
+        });
+        return walletClient.writeContract({ ...request, chain: deployment.chain });
+      });
+      invalidateBounty(queryClient, chainId, bountyId);
+
+      return receipt;
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to approve payout split');
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
     }
   };
 
   return {
     computeBountyId,
-    getBounty,
+    getFundingMethod,
+    previewCreateBounty,
     createBounty,
+    topUpBounty,
+    previewClaimBounty,
     claimBounty,
-    watchBountyStatus,
-    getUSDCBalance,
+    refundBounty,
+    resetVerification,
+    approvePayoutSplit,
     isLoading,
     error
   };
@@ -0,0 +1,148 @@
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { useActiveChain } from '@/contexts/WalletContext';
+import { getPublicClient } from '@/lib/viem/client';
+import { BountyRegistryABI } from '@/lib/contracts/abis';
+import { bountyQueryKeys } from '@/lib/contracts/queries';
+import { getDeployment, type SupportedChainId } from '@/lib/contracts/addresses';
+import { LOG_BLOCK_RANGE, toBounty } from '@/lib/contracts/BountyRegistry';
+import { fetchIndexedBounties } from '@/lib/indexer/client';
+import type { Bounty } from '@/types';
+
+export type BountyListFilter = 'all' | 'open' | 'paid';
+
+// Indexer pages are numbered; log scans page backwards from a block (null = latest)
+type PageParam = { page: number } | { toBlock: bigint | null };
+
+interface BountyListPage {
+  items: Bounty[];
+  next: PageParam | undefined;
+  // Log scans only
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  // Indexer only
+  total?: number;
+  lastIndexedBlock?: bigint | null;
+}
+
+/**
+ * Loads a page of bounties from the indexer API instead of scanning logs
+ */
+async function fetchIndexerPage(
+  indexerUrl: string,
+  filter: BountyListFilter,
+  page: number
+): Promise<BountyListPage> {
+  const result = await fetchIndexedBounties(indexerUrl, {
+    status: filter === 'all' ? undefined : filter,
+    page,
+    pageSize: 30
+  });
+
+  return {
+    items: result.items,
+    next: result.hasMore ? { page: page + 1 } : undefined,
+    total: result.total,
+    lastIndexedBlock: result.lastIndexedBlock
+  };
+}
+
+/**
+ * Scans one LOG_BLOCK_RANGE window of BountyCreated logs ending at toBlock
+ */
+async function fetchScanPage(chainId: SupportedChainId, toBlockParam: bigint | null): Promise<BountyListPage> {
+  const publicClient = getPublicClient(chainId);
+  const registry = getDeployment(chainId).BountyRegistry;
+
+  const toBlock = toBlockParam ?? await publicClient.getBlockNumber();
+  const fromBlock = toBlock > LOG_BLOCK_RANGE ? toBlock - LOG_BLOCK_RANGE : 0n;
+
+  const logs = await publicClient.getContractEvents({
+    address: registry,
+    abi: BountyRegistryABI,
+    eventName: 'BountyCreated',
+    fromBlock,
+    toBlock
+  });
+
+  // Fetch full details for each bounty
+  const bounties = await Promise.all(logs.map(async (log): Promise<Bounty | null> => {
+    const { bountyID, repoOwner, repoName, issueNumber } = log.args;
+    if (!bountyID || !repoOwner || !repoName || !issueNumber) return null;
+
+    try {
+      const details = await publicClient.readContract({
+        address: registry,
+        abi: BountyRegistryABI,
+        functionName: 'getBountyDetails',
+        args: [bountyID]
+      });
+      return toBounty(bountyID, details, { repoOwner, repoName, issueNumber });
+    } catch (error) {
+      console.error(`Failed to fetch details for bounty ${bountyID}:`, error);
+      return null;
+    }
+  }));
+
+  return {
+    items: bounties.filter((b): b is Bounty => b !== null),
+    // Stop at genesis
+    next: fromBlock > 0n ? { toBlock: fromBlock - 1n } : undefined,
+    fromBlock,
+    toBlock
+  };
+}
+
+/**
+ * Pages through the bounties on the active chain, newest first.
+ * Uses the chain's indexer when configured, else scans logs from the browser.
+ */
+export function useBountyList(filter: BountyListFilter) {
+  const { chainId, deployment } = useActiveChain();
+  const queryClient = useQueryClient();
+  const indexerUrl = deployment.indexerUrl;
+  // The indexer filters server-side; log scans are filtered after loading
+  const queryKey = bountyQueryKeys.list(chainId, indexerUrl ? filter : 'all', indexerUrl);
+
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage
+  } = useInfiniteQuery({
+    queryKey,
+    initialPageParam: (indexerUrl ? { page: 1 } : { toBlock: null }) as PageParam,
+    queryFn: ({ pageParam }) => 'page' in pageParam
+      ? fetchIndexerPage(indexerUrl!, filter, pageParam.page)
+      : fetchScanPage(chainId, pageParam.toBlock),
+    getNextPageParam: (lastPage) => lastPage.next
+  });
+
+  const pages = data?.pages ?? [];
+
+  // Pages can overlap while new bounties arrive, so deduplicate by ID
+  const seen = new Set<string>();
+  const bounties = pages.flatMap((page) => page.items).filter((bounty) => {
+    if (seen.has(bounty.id)) return false;
+    seen.add(bounty.id);
+    return true;
+  });
+
+  const firstPage = pages[0];
+  const lastPage = pages[pages.length - 1];
+
+  return {
+    bounties,
+    isLoading,
+    isLoadingMore: isFetchingNextPage,
+    hasMore: hasNextPage,
+    loadMore: () => fetchNextPage(),
+    // Start over from the newest page rather than refetching every loaded page
+    refresh: () => queryClient.resetQueries({ queryKey }),
+    isIndexed: !!indexerUrl,
+    totalIndexed: firstPage?.total ?? null,
+    latestBlock: indexerUrl ? firstPage?.lastIndexedBlock ?? null : firstPage?.toBlock ?? null,
+    oldestBlock: lastPage?.fromBlock ?? null,
+    blocksScanned: pages.reduce((sum, page) => sum + ((page.toBlock ?? 0n) - (page.fromBlock ?? 0n)), 0n)
+  };
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useReadContract, useReadContracts } from 'wagmi';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { BountyRegistryABI } from '@/lib/contracts/abis';
+import { getErrorMessage } from '@/lib/contracts/errors';
+
+/**
+ * The bond a claim must post and the cooldown after a rejected claim, with the connected
+ * wallet's own cooldown and any returned bonds it has yet to withdraw.
+ */
+export function useClaimBond() {
+  const { address, walletClient, isWrongNetwork } = useWallet();
+  const { chainId, deployment, publicClient } = useActiveChain();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: settings } = useReadContracts({
+    contracts: [
+      { address: deployment.BountyRegistry, abi: BountyRegistryABI, functionName: 'claimBond', chainId },
+      { address: deployment.BountyRegistry, abi: BountyRegistryABI, functionName: 'claimCooldown', chainId }
+    ],
+    allowFailure: false
+  });
+
+  const { data: cooldownUntil, refetch: refetchCooldown } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'claimCooldownUntil',
+    args: address ? [address] : undefined,
+    chainId,
+    query: { enabled: !!address }
+  });
+
+  const { data: unclaimed, refetch: refetchUnclaimed } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'unclaimedBonds',
+    args: address ? [address] : undefined,
+    chainId,
+    query: { enabled: !!address }
+  });
+
+  // A claim settling changes both
+  const refetch = () => Promise.all([refetchCooldown(), refetchUnclaimed()]);
+
+  /**
+   * Withdraws bonds that couldn't be sent back to this wallet when its claims settled
+   */
+  const withdraw = async () => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsPending(true);
+    setError(null);
+
+    try {
+      const { request } = await publicClient.simulateContract({
+        address: deployment.BountyRegistry,
+        abi: BountyRegistryABI,
+        functionName: 'withdrawBond',
+        account: address
+      });
+      const hash = await walletClient.writeContract({ ...request, chain: deployment.chain });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Transaction reverted');
+      }
+      await refetch();
+      return receipt;
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to withdraw bond'));
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return {
+    bond: settings?.[0] ?? null,
+    cooldown: settings?.[1] ?? null,
+    // Seconds since epoch; 0 when the wallet has never been on cooldown
+    cooldownUntil: cooldownUntil ?? null,
+    unclaimed: unclaimed ?? null,
+    refetch,
+    withdraw,
+    isPending,
+    error
+  };
+}
@@ -0,0 +1,239 @@
+import { useQuery } from '@tanstack/react-query';
+import { useActiveChain } from '@/contexts/WalletContext';
+import { getPublicClient } from '@/lib/viem/client';
+import { BountyRegistryABI } from '@/lib/contracts/abis';
+import { bountyQueryKeys } from '@/lib/contracts/queries';
+import { getDeployment, type SupportedChainId } from '@/lib/contracts/addresses';
+import { getScanRange, isRefundable, scanBlockRange, toBounty } from '@/lib/contracts/BountyRegistry';
+import type { Bounty, BountyClaim, BountyPayout } from '@/types';
+
+export interface TokenTotal {
+  token: `0x${string}`;
+  amount: bigint;
+}
+
+/**
+ * Sums amounts per token, preserving first-seen token order
+ */
+export function totalsByToken(
+  items: Array<{ token: `0x${string}`; amount: bigint }>
+): TokenTotal[] {
+  const totals = new Map<string, TokenTotal>();
+
+  for (const { token, amount } of items) {
+    const key = token.toLowerCase();
+    const existing = totals.get(key);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      totals.set(key, { token, amount });
+    }
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Everything an address has funded, claimed and been paid on a chain
+ */
+async function fetchActivity(
+  chainId: SupportedChainId,
+  account: `0x${string}`
+): Promise<{
+  funded: Bounty[];
+  contributions: Map<string, bigint>;
+  // Bounties this address already took its refund from
+  refunded: Set<string>;
+  claims: BountyClaim[];
+  payouts: BountyPayout[];
+}> {
+  const publicClient = getPublicClient(chainId);
+  const registry = getDeployment(chainId).BountyRegistry;
+  const { fromBlock, toBlock } = await getScanRange(chainId);
+
+  // All creations are needed anyway: claim and payout events carry no repo metadata
+  const [createdLogs, contributedLogs, claimLogs, paidLogs] = await Promise.all([
+    scanBlockRange(
+      (from, to) => publicClient.getContractEvents({
+        address: registry,
+        abi: BountyRegistryABI,
+        eventName: 'BountyCreated',
+        fromBlock: from,
+        toBlock: to
+      }),
+      fromBlock,
+      toBlock
+    ),
+    scanBlockRange(
+      (from, to) => publicClient.getContractEvents({
+        address: registry,
+        abi: BountyRegistryABI,
+        eventName: 'BountyContributed',
+        args: { funder: account },
+        fromBlock: from,
+        toBlock: to
+      }),
+      fromBlock,
+      toBlock
+    ),
+    scanBlockRange(
+      (from, to) => publicClient.getContractEvents({
+        address: registry,
+        abi: BountyRegistryABI,
+        eventName: 'ClaimSubmitted',
+        args: { claimer: account },
+        fromBlock: from,
+        toBlock: to
+      }),
+      fromBlock,
+      toBlock
+    ),
+    scanBlockRange(
+      (from, to) => publicClient.getContractEvents({
+        address: registry,
+        abi: BountyRegistryABI,
+        eventName: 'BountyPaid',
+        args: { claimer: account },
+        fromBlock: from,
+        toBlock: to
+      }),
+      fromBlock,
+      toBlock
+    )
+  ]);
+
+  const metadata = new Map<string, { repoOwner: string; repoName: string; issueNumber: string }>();
+  for (const log of createdLogs) {
+    const { bountyID, repoOwner, repoName, issueNumber } = log.args;
+    if (bountyID && repoOwner && repoName && issueNumber) {
+      metadata.set(bountyID, { repoOwner, repoName, issueNumber });
+    }
+  }
+
+  // What this address put into each bounty it created or topped up
+  const contributions = new Map<string, bigint>();
+  for (const log of createdLogs) {
+    if (log.args.issuer?.toLowerCase() !== account.toLowerCase()) continue;
+    contributions.set(log.args.bountyID as string, log.args.amount ?? 0n);
+  }
+  for (const log of contributedLogs) {
+    const bountyId = log.args.bountyID as string;
+    contributions.set(bountyId, (contributions.get(bountyId) ?? 0n) + (log.args.amount ?? 0n));
+  }
+  const fundedIds = Array.from(contributions.keys()) as `0x${string}`[];
+
+  const bountyIds = new Set<`0x${string}`>([
+    ...fundedIds,
+    ...claimLogs.map((log) => log.args.bountyID as `0x${string}`),
+    ...paidLogs.map((log) => log.args.bountyID as `0x${string}`)
+  ]);
+
+  // Current on-chain state for every bounty this address touched
+  const details = await Promise.all(
+    Array.from(bountyIds).map(async (bountyId): Promise<Bounty | null> => {
+      const meta = metadata.get(bountyId);
+      if (!meta) return null;
+
+      try {
+        const result = await publicClient.readContract({
+          address: registry,
+          abi: BountyRegistryABI,
+          functionName: 'getBountyDetails',
+          args: [bountyId]
+        });
+        return toBounty(bountyId, result, meta);
+      } catch (err) {
+        console.error(`Failed to fetch details for bounty ${bountyId}:`, err);
+        return null;
+      }
+    })
+  );
+
+  const bounties = new Map<string, Bounty>();
+  for (const bounty of details) {
+    if (bounty) bounties.set(bounty.id, bounty);
+  }
+
+  // Only open or refunded bounties can still owe this funder a refund
+  const refunded = new Set<string>();
+  await Promise.all(
+    fundedIds
+      .filter((id) => bounties.get(id)?.status === 0 || bounties.get(id)?.status === 3)
+      .map(async (bountyId) => {
+        const claimed = await publicClient.readContract({
+          address: registry,
+          abi: BountyRegistryABI,
+          functionName: 'refundClaimed',
+          args: [bountyId, account]
+        });
+        if (claimed) refunded.add(bountyId);
+      })
+  );
+
+  return {
+    funded: fundedIds
+      .map((id) => bounties.get(id))
+      .filter((b): b is Bounty => !!b)
+      .reverse(),
+    contributions,
+    refunded,
+
+    claims: claimLogs
+      .map((log) => ({
+        bountyId: log.args.bountyID as `0x${string}`,
+        requestId: log.args.requestID as `0x${string}`,
+        prNumber: log.args.prNumber ?? '',
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        bounty: bounties.get(log.args.bountyID as string) ?? null
+      }))
+      .reverse(),
+
+    payouts: paidLogs
+      .map((log) => ({
+        bountyId: log.args.bountyID as `0x${string}`,
+        amount: log.args.amount ?? 0n,
+        githubUsername: log.args.githubUsername ?? '',
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        bounty: bounties.get(log.args.bountyID as string) ?? null
+      }))
+      .reverse()
+  };
+}
+
+/**
+ * Loads everything the connected address has funded, claimed and been paid
+ * on the active chain. Cached per chain and address; registry events invalidate it.
+ */
+export function useDashboard(address: `0x${string}` | null) {
+  const { chainId } = useActiveChain();
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: bountyQueryKeys.activity(chainId, address),
+    queryFn: () => fetchActivity(chainId, address!),
+    enabled: !!address
+  });
+
+  const funded = data?.funded ?? [];
+  // A funder only gets their own share back
+  const refundable = funded
+    .filter((bounty) => isRefundable(bounty) && !data?.refunded.has(bounty.id))
+    .map((bounty) => ({
+      bounty,
+      token: bounty.token,
+      amount: data?.contributions.get(bounty.id) ?? bounty.amount
+    }));
+
+  return {
+    funded,
+    claims: data?.claims ?? [],
+    payouts: data?.payouts ?? [],
+    refundable,
+    isLoading,
+    // Also true while cached activity is being refreshed in the background
+    isRefreshing: isFetching,
+    error: error ? (error as any).shortMessage || error.message || 'Failed to load wallet activity' : null,
+    reload: () => address && refetch()
+  };
+}
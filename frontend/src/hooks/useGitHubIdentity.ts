@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useReadContract } from 'wagmi';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { BountyRegistryABI } from '@/lib/contracts/abis';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import type { LinkedGitHub } from '@/hooks/useGithub';
+
+/**
+ * The GitHub account the connected wallet linked on chain, and actions to change it.
+ * Claims are only paid when the PR author is this account.
+ */
+export function useGitHubIdentity() {
+  const { address, walletClient, isWrongNetwork } = useWallet();
+  const { chainId, deployment, publicClient } = useActiveChain();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading, refetch } = useReadContract({
+    address: deployment.BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'githubIdentities',
+    args: address ? [address] : undefined,
+    chainId,
+    query: { enabled: !!address }
+  });
+
+  const identity: LinkedGitHub | null = address && data && data[0]
+    ? { address, username: data[0], gistId: data[1] }
+    : null;
+
+  const send = async (
+    call: { functionName: 'linkGitHub'; args: [string, string] } | { functionName: 'unlinkGitHub'; args?: undefined },
+    fallback: string
+  ) => {
+    if (isWrongNetwork) {
+      throw new Error(`Switch your wallet to ${deployment.name}`);
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsPending(true);
+    setError(null);
+
+    try {
+      const { request } = await publicClient.simulateContract({
+        address: deployment.BountyRegistry,
+        abi: BountyRegistryABI,
+        ...call,
+        account: address
+      });
+      const hash = await walletClient.writeContract({ ...request, chain: deployment.chain });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Transaction reverted');
+      }
+      await refetch();
+      return receipt;
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  /**
+   * Links a GitHub account, proven by a public gist holding identityProofMessage(address)
+   */
+  const link = (username: string, gistId: string) =>
+    send({ functionName: 'linkGitHub', args: [username, gistId] }, 'Failed to link GitHub account');
+
+  const unlink = () => send({ functionName: 'unlinkGitHub' }, 'Failed to unlink GitHub account');
+
+  return {
+    identity,
+    isLoading: isLoading && !!address,
+    link,
+    unlink,
+    isPending,
+    error
+  };
+}
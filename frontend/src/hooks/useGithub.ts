@@ -1,6 +1,92 @@
-import { useState, useEffect } from 'react';
+import { useState, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  githubGet,
+  githubGetAll,
+  githubGraphQL,
+  hasGitHubToken,
+  isGitHubNotFound,
+  getGitHubRateLimitState,
+  subscribeGitHubRateLimit,
+  GitHubRateLimitError,
+  type GitHubRateLimitState
+} from '@/lib/github/client';
+import {
+  PULL_REQUEST_QUERY,
+  parseGist,
+  parsePullRequest,
+  verifyPullRequest,
+  type ClaimerIdentity,
+  type GistData,
+  type PullRequestData,
+  type PullRequestNode,
+  type VerificationResult
+} from '@oracle/rules/verification';
 import type { GitHubIssue } from '@/types';
 
+export interface PRValidation {
+  valid: boolean;
+  author: string;
+  // What the oracle would decide; null when the PR doesn't exist
+  verification: VerificationResult | null;
+}
+
+// A wallet's on-chain GitHub link
+export interface LinkedGitHub {
+  address: string;
+  username: string;
+  gistId: string;
+}
+
+const SERVER_RATE_LIMIT_STATE: GitHubRateLimitState = {
+  rateLimit: null,
+  blockedUntil: null,
+  isAuthenticated: false
+};
+
+/**
+ * Loads a PR the way the oracle does when a token is set, so the prediction is exact.
+ * Without one only REST is available, which has no closing issue references.
+ */
+async function fetchPullRequest(owner: string, repo: string, prNumber: string): Promise<PullRequestData | null> {
+  if (hasGitHubToken()) {
+    const data = await githubGraphQL<{ repository: { pullRequest: PullRequestNode | null } | null }>(
+      PULL_REQUEST_QUERY,
+      { owner, name: repo, number: Number(prNumber) }
+    );
+    return parsePullRequest(data.repository?.pullRequest);
+  }
+
+  const pr = await githubGet<{ merged?: boolean; body: string | null; user?: { login: string } }>(
+    `/repos/${owner}/${repo}/pulls/${prNumber}`
+  );
+  return { merged: pr.merged === true, body: pr.body, author: pr.user?.login || '', closingIssues: null, commitAuthors: null };
+}
+
+/**
+ * Loads a gist the way the oracle does; null when it doesn't exist
+ */
+export async function fetchGist(gistId: string): Promise<GistData | null> {
+  try {
+    return parseGist(await githubGet(`/gists/${gistId}`));
+  } catch (err) {
+    if (isGitHubNotFound(err)) return null;
+    throw err;
+  }
+}
+
+/**
+ * Reads a gist ID from a gist URL (gist.github.com/user/ID) or a bare ID
+ */
+export function parseGistId(input: string): string | null {
+  const match = input.trim().match(/^(?:https?:\/\/gist\.github\.com\/(?:[\w-]+\/)?)?([0-9a-f]+)\/?$/i);
+  return match?.[1] ?? null;
+}
+
+function fetchIssue(owner: string, repo: string, issueNumber: string): Promise<GitHubIssue> {
+  return githubGet<GitHubIssue>(`/repos/${owner}/${repo}/issues/${issueNumber}`);
+}
+
 export function useGitHub() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -17,28 +103,9 @@ export function useGitHub() {
     setError(null);
 
     try {
-      const response = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}`,
-        {
-          headers: {
-            'Accept': 'application/vnd.github.v3+json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          setError('Issue not found');
-          return null;
-        }
-        throw new Error(`GitHub API error: ${response.status}`);
-      }
-
-      const issue = await response.json();
-      return issue as GitHubIssue;
+      return await fetchIssue(owner, repo, issueNumber);
     } catch (err: any) {
-      const errorMessage = err.message || 'Failed to fetch issue';
-      setError(errorMessage);
+      setError(isGitHubNotFound(err) ? 'Issue not found' : err.message || 'Failed to fetch issue');
       console.error('GitHub API error:', err);
       return null;
     } finally {
@@ -58,22 +125,11 @@ export function useGitHub() {
     setError(null);
 
     try {
-      const response = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/issues?state=${state}&per_page=100`,
-        {
-          headers: {
-            'Accept': 'application/vnd.github.v3+json'
-          }
-        }
+      const issues = await githubGetAll<GitHubIssue & { pull_request?: unknown }>(
+        `/repos/${owner}/${repo}/issues?state=${state}&per_page=100`
       );
-
-      if (!response.ok) {
-        throw new Error(`GitHub API error: ${response.status}`);
-      }
-
-      const issues = await response.json();
       // Filter out pull requests (GitHub API includes PRs in issues endpoint)
-      return issues.filter((issue: any) => !issue.pull_request) as GitHubIssue[];
+      return issues.filter((issue) => !issue.pull_request);
     } catch (err: any) {
       const errorMessage = err.message || 'Failed to fetch issues';
       setError(errorMessage);
@@ -85,36 +141,37 @@ export function useGitHub() {
   };
 
   /**
-   * Validates if a PR exists and is merged
+   * Checks a claim by the linked wallet (null if it has no link) against the oracle's
+   * verification rules for an issue.
+   * Throws when GitHub can't answer (e.g. rate limited), since that says nothing about the PR.
    */
   const validatePR = async (
     owner: string,
     repo: string,
-    prNumber: string
-  ): Promise<{ valid: boolean; merged: boolean; author: string }> => {
+    prNumber: string,
+    issueNumber: string,
+    linked: LinkedGitHub | null
+  ): Promise<PRValidation> => {
     try {
-      const response = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/pulls/${prNumber}`,
-        {
-          headers: {
-            'Accept': 'application/vnd.github.v3+json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        return { valid: false, merged: false, author: '' };
+      const pr = await fetchPullRequest(owner, repo, prNumber);
+      if (!pr) {
+        return { valid: false, author: '', verification: null };
       }
-
-      const pr = await response.json();
+      const claimer: ClaimerIdentity | null = linked && {
+        address: linked.address,
+        username: linked.username,
+        gist: await fetchGist(linked.gistId)
+      };
       return {
         valid: true,
-        merged: pr.merged || false,
-        author: pr.user?.login || ''
+        author: pr.author,
+        verification: verifyPullRequest(pr, { owner, repo, issueNumber }, claimer)
       };
-    } catch (error) {
-      console.error('Error validating PR:', error);
-      return { valid: false, merged: false, author: '' };
+    } catch (err) {
+      if (isGitHubNotFound(err)) {
+        return { valid: false, author: '', verification: null };
+      }
+      throw err;
     }
   };
 
@@ -159,14 +216,30 @@ export function useGitHub() {
  * Hook that automatically fetches an issue on mount
  */
 export function useIssue(owner: string, repo: string, issueNumber: string) {
-  const { getIssue, isLoading, error } = useGitHub();
-  const [issue, setIssue] = useState<GitHubIssue | null>(null);
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['github', 'issue', owner, repo, issueNumber],
+    queryFn: () => fetchIssue(owner, repo, issueNumber),
+    enabled: !!(owner && repo && issueNumber),
+    staleTime: 5 * 60 * 1000,
+    // Retrying a missing issue or a rate limit only burns more of the quota
+    retry: (failureCount, err) =>
+      failureCount < 2 && !isGitHubNotFound(err) && !(err instanceof GitHubRateLimitError)
+  });
 
-  useEffect(() => {
-    if (owner && repo && issueNumber) {
-      getIssue(owner, repo, issueNumber).then(setIssue);
-    }
-  }, [owner, repo, issueNumber]);
+  return {
+    issue: data ?? null,
+    isLoading,
+    error: error ? (isGitHubNotFound(error) ? 'Issue not found' : error.message) : null
+  };
+}
 
-  return { issue, isLoading, error };
-}
\ No newline at end of file
+/**
+ * Current GitHub rate limit, updated after every API response
+ */
+export function useGitHubRateLimit(): GitHubRateLimitState {
+  return useSyncExternalStore(
+    subscribeGitHubRateLimit,
+    getGitHubRateLimitState,
+    () => SERVER_RATE_LIMIT_STATE
+  );
+}
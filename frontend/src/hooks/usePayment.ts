@@ -0,0 +1,126 @@
+import { useRef, useState } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import { X402_GATEWAY_URL, getCachedAccess, x402Fetch } from '@/lib/x402/payment';
+import { getErrorMessage } from '@/lib/contracts/errors';
+import type { PaymentChallenge } from '@/types';
+
+export type PaymentStep =
+  | 'idle'
+  | 'requesting'   // calling the gateway, may get a 402 back
+  | 'awaiting'     // challenge received, waiting for the user to approve
+  | 'signing'      // wallet is signing the typed data
+  | 'verifying'    // gateway is verifying the signature
+  | 'complete'
+  | 'error';
+
+const PAYMENT_CANCELLED = 'Payment cancelled';
+
+export function usePayment() {
+  const { address, walletClient } = useWallet();
+  const [step, setStep] = useState<PaymentStep>('idle');
+  const [challenge, setChallenge] = useState<PaymentChallenge | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves once the user approves (or cancels) the challenge in the UI
+  const approval = useRef<{ resolve: () => void; reject: (err: Error) => void } | null>(null);
+
+  /**
+   * Fetches the paid context for an issue, paying through x402 if required
+   */
+  const fetchPaidContext = async (
+    owner: string,
+    repo: string,
+    issueId: string
+  ) => {
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    const resource = { owner, repo, issueId };
+
+    setStep('requesting');
+    setChallenge(null);
+    setError(null);
+    setExpiresAt(getCachedAccess(resource)?.expiresAt ?? null);
+
+    try {
+      const response = await x402Fetch(
+        `${X402_GATEWAY_URL}/api/v1/context/${owner}/${repo}/${issueId}`,
+        resource,
+        { walletClient, account: address },
+        undefined,
+        {
+          onChallenge: (received) => {
+            setChallenge(received);
+            setStep('awaiting');
+            return new Promise<void>((resolve, reject) => {
+              approval.current = { resolve, reject };
+            });
+          },
+          onSigning: () => setStep('signing'),
+          onVerifying: () => setStep('verifying'),
+          onAccess: (access) => setExpiresAt(access.expiresAt)
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Gateway error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setStep('complete');
+      return data;
+    } catch (err: any) {
+      if (err.message === PAYMENT_CANCELLED) {
+        reset();
+        throw err;
+      }
+
+      const errorMessage = getErrorMessage(err, 'Payment failed');
+      setError(errorMessage);
+      setStep('error');
+      throw err;
+    } finally {
+      approval.current = null;
+    }
+  };
+
+  /**
+   * Lets a pending challenge continue to signing
+   */
+  const approvePayment = () => {
+    approval.current?.resolve();
+  };
+
+  /**
+   * Aborts a pending challenge, or just resets a finished flow
+   */
+  const cancelPayment = () => {
+    if (approval.current) {
+      approval.current.reject(new Error(PAYMENT_CANCELLED));
+      approval.current = null;
+    } else {
+      reset();
+    }
+  };
+
+  const reset = () => {
+    setStep('idle');
+    setChallenge(null);
+    setError(null);
+  };
+
+  return {
+    fetchPaidContext,
+    approvePayment,
+    cancelPayment,
+    reset,
+    step,
+    challenge,
+    expiresAt,
+    payer: address,
+    isProcessing: step === 'requesting' || step === 'signing' || step === 'verifying',
+    error
+  };
+}
@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query';
+import { useReadContract } from 'wagmi';
+import { useWallet, useActiveChain } from '@/contexts/WalletContext';
+import { ERC20_ABI } from '@/lib/contracts/abis';
+import { tokenQueryKeys } from '@/lib/contracts/queries';
+import { getAllowedTokens, getTokenInfo, type TokenInfo } from '@/lib/contracts/tokens';
+
+/**
+ * Symbol and decimals of a token on the active chain (null while loading)
+ */
+export function useTokenInfo(token: `0x${string}` | null | undefined): TokenInfo | null {
+  const { chainId } = useActiveChain();
+
+  const { data } = useQuery({
+    queryKey: tokenQueryKeys.info(chainId, token ?? '0x'),
+    queryFn: () => getTokenInfo(chainId, token!),
+    enabled: !!token,
+    // Symbol and decimals never change
+    staleTime: Infinity
+  });
+
+  return data ?? null;
+}
+
+/**
+ * Tokens new bounties can be funded with on the active chain
+ */
+export function useAllowedTokens() {
+  const { chainId } = useActiveChain();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: tokenQueryKeys.allowed(chainId),
+    queryFn: () => getAllowedTokens(chainId)
+  });
+
+  return {
+    tokens: data ?? [],
+    isLoading,
+    error: error ? (error as any).shortMessage || error.message || 'Failed to load tokens' : null
+  };
+}
+
+/**
+ * Connected wallet's balance of a token (null while loading or disconnected)
+ */
+export function useTokenBalance(token: `0x${string}` | null | undefined): bigint | null {
+  const { address } = useWallet();
+  const { chainId } = useActiveChain();
+
+  const { data } = useReadContract({
+    address: token ?? undefined,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+    chainId,
+    query: { enabled: !!token && !!address }
+  });
+
+  return data ?? null;
+}
@@ -0,0 +1,124 @@
+import { getPublicClient } from '@/lib/viem/client';
+import type { PublicClient } from 'viem';
+import { getDeployment, type SupportedChainId } from '@/lib/contracts/addresses';
+import type { Bounty, BountyStatus } from '@/types';
+
+const DAY = 24n * 60n * 60n; // seconds
+
+// Preselected deadline for new bounties, clamped to the registry's min/maxBountyDuration
+export const DEFAULT_BOUNTY_DURATION = 180n * DAY;
+
+// Mirror MAX_SPLIT_RECIPIENTS and TOTAL_SPLIT_SHARES in BountyRegistry.sol
+export const MAX_SPLIT_RECIPIENTS = 4;
+export const TOTAL_SPLIT_SHARES = 10000;
+
+// Rough gas for fundIssue when it can't be estimated yet (no allowance before approve/permit)
+export const FUND_ISSUE_GAS_ESTIMATE = 200000n;
+// Extra gas fundIssueWithPermit spends on the permit call
+export const PERMIT_GAS_OVERHEAD = 60000n;
+
+// Most public RPCs cap eth_getLogs ranges, so scans are split into windows
+export const LOG_BLOCK_RANGE = 100000n;
+
+// How far back wallet-scoped scans go when no deployment block is configured.
+// Reaches ~270 days back on Sepolia, so refundable bounties created with a deadline further
+// out than that are only found when the deployment block is configured.
+export const DEFAULT_LOOKBACK_BLOCKS = 2000000n;
+
+// What getBountyDetails returns
+type BountyDetails = readonly [
+  issuer: `0x${string}`,
+  token: `0x${string}`,
+  amount: bigint,
+  status: number,
+  creationTime: bigint,
+  prClaimer: string,
+  activeRequestId: `0x${string}`,
+  deadline: bigint
+];
+
+/**
+ * Builds a Bounty from getBountyDetails and the metadata from its BountyCreated event.
+ * Returns null for ids with no bounty (zero amount).
+ */
+export function toBounty(
+  bountyId: `0x${string}`,
+  details: BountyDetails,
+  meta: { repoOwner: string; repoName: string; issueNumber: string }
+): Bounty | null {
+  const [issuer, token, amount, status, creationTime, prClaimer, activeRequestId, deadline] = details;
+  if (amount === 0n) return null;
+
+  return {
+    id: bountyId,
+    issuer,
+    token,
+    amount,
+    status: status as BountyStatus,
+    creationTime,
+    prClaimer,
+    activeRequestId,
+    deadline,
+    ...meta
+  };
+}
+
+/**
+ * Runs a log query over [fromBlock, toBlock] in LOG_BLOCK_RANGE windows
+ * and concatenates the results in block order
+ */
+export async function scanBlockRange<T>(
+  fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<T[]> {
+  const windows: Array<[bigint, bigint]> = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+    const end = start + LOG_BLOCK_RANGE - 1n;
+    windows.push([start, end > toBlock ? toBlock : end]);
+  }
+
+  const results = await Promise.all(windows.map(([from, to]) => fetchRange(from, to)));
+  return results.flat();
+}
+
+/**
+ * Returns the block range wallet-scoped scans should cover on a chain
+ */
+export async function getScanRange(chainId: SupportedChainId): Promise<{ fromBlock: bigint; toBlock: bigint }> {
+  const toBlock = await getPublicClient(chainId).getBlockNumber();
+  const { deploymentBlock } = getDeployment(chainId);
+
+  if (deploymentBlock !== null) {
+    return { fromBlock: deploymentBlock, toBlock };
+  }
+
+  return {
+    fromBlock: toBlock > DEFAULT_LOOKBACK_BLOCKS ? toBlock - DEFAULT_LOOKBACK_BLOCKS : 0n,
+    toBlock
+  };
+}
+
+/**
+ * Upper bound on the price per gas a transaction sent now would pay
+ */
+export async function getFeePerGas(client: PublicClient): Promise<bigint> {
+  try {
+    const { maxFeePerGas } = await client.estimateFeesPerGas();
+    return maxFeePerGas;
+  } catch {
+    // Chains without EIP-1559
+    return client.getGasPrice();
+  }
+}
+
+/**
+ * Whether a funder can call seepFunds on the bounty right now: it is open and past its
+ * deadline, or another funder already refunded it
+ */
+export function isRefundable(
+  bounty: { status: number; deadline: bigint },
+  now: bigint = BigInt(Math.floor(Date.now() / 1000))
+): boolean {
+  return bounty.status === 3 || (bounty.status === 0 && now > bounty.deadline);
+}
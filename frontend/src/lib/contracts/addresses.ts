@@ -1,7 +1,64 @@
-export const CONTRACTS = {
-  sepolia: {
-    BountyRegistry: '0xf96e4437e0fbE806e0c7cAf22CAeEfC9c3708cbc' as `0x${string}`, // ← Replace this!
-    Oracle: '0x213B29913eFa8B3957b0Cca3260517FEaedD0Bff' as `0x${string}`, // ← Replace this!
-    USDC: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as `0x${string}`, // Sepolia USDC
+import { anvil, sepolia } from 'viem/chains';
+import type { Chain } from 'viem';
+
+export interface ChainDeployment {
+  chain: Chain;
+  name: string;
+  rpcUrl: string;
+  BountyRegistry: `0x${string}`;
+  Oracle: `0x${string}`;
+  USDC: `0x${string}`;
+  // Block the registry was deployed in; log scans start here when set
+  deploymentBlock: bigint | null;
+  // Optional Backend/Indexer instance for this chain
+  indexerUrl: string | null;
+}
+
+function optionalBlock(value: string | undefined): bigint | null {
+  return value ? BigInt(value) : null;
+}
+
+export const DEPLOYMENTS = {
+  [sepolia.id]: {
+    chain: sepolia,
+    name: 'Sepolia',
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || 'https://rpc.sepolia.org',
+    BountyRegistry: '0xf96e4437e0fbE806e0c7cAf22CAeEfC9c3708cbc',
+    Oracle: '0x213B29913eFa8B3957b0Cca3260517FEaedD0Bff',
+    USDC: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', // Sepolia USDC
+    deploymentBlock: optionalBlock(process.env.NEXT_PUBLIC_DEPLOYMENT_BLOCK),
+    indexerUrl: process.env.NEXT_PUBLIC_INDEXER_URL || null
+  },
+  // Local Anvil chain. Defaults are the CREATE addresses of Anvil's first
+  // account deploying MockUSDC, MockOracle and BountyRegistry in that order
+  // (DeployLocal in Backend/Contracts/script/Deploy.s.sol).
+  [anvil.id]: {
+    chain: anvil,
+    name: 'Anvil (local)',
+    rpcUrl: process.env.NEXT_PUBLIC_ANVIL_RPC_URL || 'http://127.0.0.1:8545',
+    BountyRegistry: (process.env.NEXT_PUBLIC_ANVIL_BOUNTY_REGISTRY_ADDRESS ||
+      '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0') as `0x${string}`,
+    Oracle: (process.env.NEXT_PUBLIC_ANVIL_ORACLE_ADDRESS ||
+      '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512') as `0x${string}`,
+    USDC: (process.env.NEXT_PUBLIC_ANVIL_USDC_ADDRESS ||
+      '0x5FbDB2315678afecb367f032d93F642f64180aa3') as `0x${string}`,
+    deploymentBlock: 0n,
+    indexerUrl: process.env.NEXT_PUBLIC_ANVIL_INDEXER_URL || null
   }
-} as const;
\ No newline at end of file
+} as const satisfies Record<number, ChainDeployment>;
+
+export type SupportedChainId = keyof typeof DEPLOYMENTS;
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(DEPLOYMENTS).map(Number) as SupportedChainId[];
+
+export function isSupportedChain(chainId: number | null | undefined): chainId is SupportedChainId {
+  return chainId != null && chainId in DEPLOYMENTS;
+}
+
+export const DEFAULT_CHAIN_ID: SupportedChainId = isSupportedChain(Number(process.env.NEXT_PUBLIC_CHAIN_ID))
+  ? (Number(process.env.NEXT_PUBLIC_CHAIN_ID) as SupportedChainId)
+  : sepolia.id;
+
+export function getDeployment(chainId: SupportedChainId = DEFAULT_CHAIN_ID): ChainDeployment {
+  return DEPLOYMENTS[chainId];
+}
@@ -0,0 +1,760 @@
+// GENERATED by Backend/Contracts/script/exportAbi.js from the forge build of BountyRegistry.sol. Do not edit by hand.
+
+export const BountyRegistryABI = [
+  {
+    "type": "constructor",
+    "inputs": [
+      { "name": "_oracle", "type": "address", "internalType": "address" }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "MAX_SPLIT_PULL_REQUESTS",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "MAX_SPLIT_RECIPIENTS",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "TOTAL_SPLIT_SHARES",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint16", "internalType": "uint16" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "approvePayoutSplit",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "mode", "type": "uint8", "internalType": "enum BountyRegistry.SplitMode" },
+      { "name": "recipients", "type": "address[]", "internalType": "address[]" },
+      { "name": "shares", "type": "uint16[]", "internalType": "uint16[]" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "bounties",
+    "inputs": [
+      { "name": "", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "issuer", "type": "address", "internalType": "address" },
+      { "name": "token", "type": "address", "internalType": "address" },
+      { "name": "amount", "type": "uint256", "internalType": "uint256" },
+      { "name": "status", "type": "uint8", "internalType": "enum BountyRegistry.BountyStatus" },
+      { "name": "creationTime", "type": "uint256", "internalType": "uint256" },
+      { "name": "prClaimer", "type": "string", "internalType": "string" },
+      { "name": "activeRequestID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "deadline", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "claimBond",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "claimBonds",
+    "inputs": [
+      { "name": "", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "claimer", "type": "address", "internalType": "address" },
+      { "name": "amount", "type": "uint96", "internalType": "uint96" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "claimBounty",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "prNumber", "type": "string", "internalType": "string" },
+      { "name": "repoOwner", "type": "string", "internalType": "string" },
+      { "name": "repoName", "type": "string", "internalType": "string" },
+      { "name": "issueNumber", "type": "string", "internalType": "string" }
+    ],
+    "outputs": [],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "function",
+    "name": "claimCooldown",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "claimCooldownUntil",
+    "inputs": [
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "completeBountyPayout",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "requestID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "githubUsername", "type": "string", "internalType": "string" },
+      { "name": "receiver", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "completeSplitPayout",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "requestID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "weights", "type": "uint256[]", "internalType": "uint256[]" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "computeBountyID",
+    "inputs": [
+      { "name": "_repoOwner", "type": "string", "internalType": "string" },
+      { "name": "_repoName", "type": "string", "internalType": "string" },
+      { "name": "_issueNumber", "type": "string", "internalType": "string" }
+    ],
+    "outputs": [
+      { "name": "", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "contributions",
+    "inputs": [
+      { "name": "", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "fundIssue",
+    "inputs": [
+      { "name": "_amount", "type": "uint256", "internalType": "uint256" },
+      { "name": "_token", "type": "address", "internalType": "address" },
+      { "name": "repoOwner", "type": "string", "internalType": "string" },
+      { "name": "repoName", "type": "string", "internalType": "string" },
+      { "name": "issueNumber", "type": "string", "internalType": "string" },
+      { "name": "bountyDeadline", "type": "uint256", "internalType": "uint256" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "fundIssueWithPermit",
+    "inputs": [
+      { "name": "_amount", "type": "uint256", "internalType": "uint256" },
+      { "name": "_token", "type": "address", "internalType": "address" },
+      { "name": "repoOwner", "type": "string", "internalType": "string" },
+      { "name": "repoName", "type": "string", "internalType": "string" },
+      { "name": "issueNumber", "type": "string", "internalType": "string" },
+      { "name": "bountyDeadline", "type": "uint256", "internalType": "uint256" },
+      { "name": "deadline", "type": "uint256", "internalType": "uint256" },
+      { "name": "v", "type": "uint8", "internalType": "uint8" },
+      { "name": "r", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "s", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "getAllowedTokens",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address[]", "internalType": "address[]" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getBountyDetails",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "issuer", "type": "address", "internalType": "address" },
+      { "name": "token", "type": "address", "internalType": "address" },
+      { "name": "amount", "type": "uint256", "internalType": "uint256" },
+      { "name": "status", "type": "uint8", "internalType": "enum BountyRegistry.BountyStatus" },
+      { "name": "creationTime", "type": "uint256", "internalType": "uint256" },
+      { "name": "prClaimer", "type": "string", "internalType": "string" },
+      { "name": "activeRequestId", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "deadline", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getFunders",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "accounts", "type": "address[]", "internalType": "address[]" },
+      { "name": "amounts", "type": "uint256[]", "internalType": "uint256[]" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getPayoutSplit",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "mode", "type": "uint8", "internalType": "enum BountyRegistry.SplitMode" },
+      { "name": "recipients", "type": "address[]", "internalType": "address[]" },
+      { "name": "shares", "type": "uint16[]", "internalType": "uint16[]" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "githubIdentities",
+    "inputs": [
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [
+      { "name": "username", "type": "string", "internalType": "string" },
+      { "name": "gistId", "type": "string", "internalType": "string" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "isTokenAllowed",
+    "inputs": [
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "bool", "internalType": "bool" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "linkGitHub",
+    "inputs": [
+      { "name": "username", "type": "string", "internalType": "string" },
+      { "name": "gistId", "type": "string", "internalType": "string" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "maxBountyDuration",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "minBountyDuration",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "oracle",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address", "internalType": "contract IOracle" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "owner",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "refundClaimed",
+    "inputs": [
+      { "name": "", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "bool", "internalType": "bool" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "rejectBountyClaim",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "requestID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "reason", "type": "uint8", "internalType": "enum BountyRegistry.RejectionReason" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "renounceOwnership",
+    "inputs": [],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "resetVerification",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "secretsSlotID",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint8", "internalType": "uint8" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "secretsVersion",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint64", "internalType": "uint64" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "seepFunds",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "setBountyDurationBounds",
+    "inputs": [
+      { "name": "minDuration", "type": "uint256", "internalType": "uint256" },
+      { "name": "maxDuration", "type": "uint256", "internalType": "uint256" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "setClaimBond",
+    "inputs": [
+      { "name": "bond", "type": "uint256", "internalType": "uint256" },
+      { "name": "funder", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "setClaimCooldown",
+    "inputs": [
+      { "name": "cooldown", "type": "uint256", "internalType": "uint256" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "setTokenAllowed",
+    "inputs": [
+      { "name": "token", "type": "address", "internalType": "address" },
+      { "name": "allowed", "type": "bool", "internalType": "bool" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "setVerificationTimeout",
+    "inputs": [
+      { "name": "timeout", "type": "uint256", "internalType": "uint256" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "subscriptionFunder",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "topUpBounty",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "_amount", "type": "uint256", "internalType": "uint256" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "topUpBountyWithPermit",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "_amount", "type": "uint256", "internalType": "uint256" },
+      { "name": "deadline", "type": "uint256", "internalType": "uint256" },
+      { "name": "v", "type": "uint8", "internalType": "uint8" },
+      { "name": "r", "type": "bytes32", "internalType": "bytes32" },
+      { "name": "s", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "transferOwnership",
+    "inputs": [
+      { "name": "newOwner", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "unclaimedBonds",
+    "inputs": [
+      { "name": "", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "unlinkGitHub",
+    "inputs": [],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "updateDONSecrets",
+    "inputs": [
+      { "name": "slotID", "type": "uint8", "internalType": "uint8" },
+      { "name": "version", "type": "uint64", "internalType": "uint64" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "updateOracle",
+    "inputs": [
+      { "name": "newOracle", "type": "address", "internalType": "address" }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "verificationStartedAt",
+    "inputs": [
+      { "name": "", "type": "bytes32", "internalType": "bytes32" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "verificationTimeout",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256", "internalType": "uint256" }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "withdrawBond",
+    "inputs": [],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "event",
+    "name": "BountyContributed",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "funder", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amount", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "totalAmount", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "BountyCreated",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "repoOwner", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "repoName", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "issueNumber", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "issuer", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "token", "type": "address", "indexed": false, "internalType": "address" },
+      { "name": "amount", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "deadline", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "BountyDurationBoundsUpdated",
+    "inputs": [
+      { "name": "minDuration", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "maxDuration", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "BountyPaid",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "claimer", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amount", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "githubUsername", "type": "string", "indexed": false, "internalType": "string" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "BountyStatusChanged",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "newStatus", "type": "uint8", "indexed": false, "internalType": "enum BountyRegistry.BountyStatus" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "ClaimBondForfeited",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "claimer", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amount", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "ClaimBondReturned",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "claimer", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amount", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "ClaimBondUpdated",
+    "inputs": [
+      { "name": "bond", "type": "uint256", "indexed": false, "internalType": "uint256" },
+      { "name": "subscriptionFunder", "type": "address", "indexed": false, "internalType": "address" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "ClaimCooldownUpdated",
+    "inputs": [
+      { "name": "cooldown", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "ClaimRejected",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "requestID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "reason", "type": "uint8", "indexed": false, "internalType": "enum BountyRegistry.RejectionReason" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "ClaimSubmitted",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "claimer", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "requestID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "prNumber", "type": "string", "indexed": false, "internalType": "string" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "FundsRefunded",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "funder", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "amount", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "GitHubLinked",
+    "inputs": [
+      { "name": "account", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "username", "type": "string", "indexed": false, "internalType": "string" },
+      { "name": "gistId", "type": "string", "indexed": false, "internalType": "string" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "GitHubUnlinked",
+    "inputs": [
+      { "name": "account", "type": "address", "indexed": true, "internalType": "address" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "OwnershipTransferred",
+    "inputs": [
+      { "name": "previousOwner", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "newOwner", "type": "address", "indexed": true, "internalType": "address" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "PayoutSplitApproved",
+    "inputs": [
+      { "name": "bountyID", "type": "bytes32", "indexed": true, "internalType": "bytes32" },
+      { "name": "mode", "type": "uint8", "indexed": false, "internalType": "enum BountyRegistry.SplitMode" },
+      { "name": "recipients", "type": "address[]", "indexed": false, "internalType": "address[]" },
+      { "name": "shares", "type": "uint16[]", "indexed": false, "internalType": "uint16[]" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "TokenAllowlistUpdated",
+    "inputs": [
+      { "name": "token", "type": "address", "indexed": true, "internalType": "address" },
+      { "name": "allowed", "type": "bool", "indexed": false, "internalType": "bool" }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "VerificationTimeoutUpdated",
+    "inputs": [
+      { "name": "timeout", "type": "uint256", "indexed": false, "internalType": "uint256" }
+    ],
+    "anonymous": false
+  },
+  { "inputs": [], "name": "BondTransferFailed", "type": "error" },
+  { "inputs": [], "name": "BountyExists", "type": "error" },
+  { "inputs": [], "name": "BountyMismatch", "type": "error" },
+  { "inputs": [], "name": "ClaimCooldownActive", "type": "error" },
+  { "inputs": [], "name": "GitHubNotLinked", "type": "error" },
+  { "inputs": [], "name": "InvalidAmount", "type": "error" },
+  { "inputs": [], "name": "InvalidBond", "type": "error" },
+  { "inputs": [], "name": "InvalidDeadline", "type": "error" },
+  { "inputs": [], "name": "InvalidIdentity", "type": "error" },
+  { "inputs": [], "name": "InvalidPullRequest", "type": "error" },
+  { "inputs": [], "name": "InvalidSplit", "type": "error" },
+  { "inputs": [], "name": "InvalidStatus", "type": "error" },
+  {
+    "type": "error",
+    "name": "OwnableInvalidOwner",
+    "inputs": [
+      { "name": "owner", "type": "address", "internalType": "address" }
+    ]
+  },
+  {
+    "type": "error",
+    "name": "OwnableUnauthorizedAccount",
+    "inputs": [
+      { "name": "account", "type": "address", "internalType": "address" }
+    ]
+  },
+  { "inputs": [], "name": "PermitFailed", "type": "error" },
+  { "inputs": [], "name": "ReentrancyGuardReentrantCall", "type": "error" },
+  {
+    "type": "error",
+    "name": "SafeERC20FailedOperation",
+    "inputs": [
+      { "name": "token", "type": "address", "internalType": "address" }
+    ]
+  },
+  { "inputs": [], "name": "TimelockNotExpired", "type": "error" },
+  { "inputs": [], "name": "TokenNotAllowed", "type": "error" },
+  { "inputs": [], "name": "Unauthorised", "type": "error" },
+  { "inputs": [], "name": "VerificationPending", "type": "error" }
+] as const;
@@ -0,0 +1,101 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult
+} from 'viem';
+import { BountyRegistryABI, ERC20_ABI } from '@/lib/contracts/abis';
+
+// Registry calls can also revert with the token's errors (bubbled up from transferFrom)
+const REVERT_ABI = [...BountyRegistryABI, ...ERC20_ABI];
+
+const ERROR_MESSAGES: Record<string, string> = {
+  // BountyRegistry
+  Unauthorised: 'Your wallet is not allowed to do this for this bounty.',
+  InvalidAmount: 'The amount or token is invalid. Enter an amount above zero.',
+  BountyExists: 'This issue already has a bounty.',
+  InvalidStatus: 'This bounty is no longer open. It may already be under verification, paid or refunded.',
+  TimelockNotExpired: "The bounty's deadline has not passed yet.",
+  TokenNotAllowed: 'This token is not accepted for bounties.',
+  PermitFailed: 'The token permit was rejected. Try again, or approve the token first.',
+  GitHubNotLinked: 'Link your GitHub account to this wallet before claiming.',
+  InvalidIdentity: 'Enter both a GitHub username and a gist.',
+  BountyMismatch: 'The repository and issue do not match this bounty.',
+  InvalidPullRequest: 'Enter the pull request number (comma separated numbers for a split bounty).',
+  VerificationPending: 'The oracle may still answer this claim. Try again once the verification timeout has passed.',
+  InvalidDeadline: "The deadline is outside the range the registry allows.",
+  InvalidBond: "The claim bond sent doesn't match the registry's. Reload the page and try again.",
+  ClaimCooldownActive: 'Your last claim was rejected, so this wallet must wait out the claim cooldown before claiming again.',
+  BondTransferFailed: 'Your wallet did not accept the bond it was sent.',
+  InvalidSplit: 'The payout split is invalid. Use up to 4 distinct recipients whose shares add up to 100%.',
+  // OpenZeppelin
+  OwnableUnauthorizedAccount: 'Only the registry owner can do this.',
+  ReentrancyGuardReentrantCall: 'The transaction was blocked by the reentrancy guard.',
+  SafeERC20FailedOperation: 'The token transfer failed.',
+  ERC20InsufficientBalance: 'Your token balance is too low for this amount.',
+  ERC20InsufficientAllowance: 'The registry is not approved to spend this amount.'
+};
+
+/**
+ * Name of the custom error a contract call reverted with, if any
+ */
+export function getRevertErrorName(error: unknown): string | null {
+  if (!(error instanceof BaseError)) return null;
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError)) return null;
+
+  if (reverted.data?.errorName) return reverted.data.errorName;
+
+  // Not in the ABI the call was made with, e.g. a token error
+  if (reverted.raw) {
+    try {
+      return decodeErrorResult({ abi: REVERT_ABI, data: reverted.raw }).errorName;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a call reverted only because the registry isn't approved to pull the tokens yet
+ */
+export function isAllowanceRevert(error: unknown): boolean {
+  if (getRevertErrorName(error) === 'ERC20InsufficientAllowance') return true;
+
+  // Pre-OpenZeppelin 5 tokens (including USDC) revert with a reason string
+  if (!(error instanceof BaseError)) return false;
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  return reverted instanceof ContractFunctionRevertedError && /allowance/i.test(reverted.reason ?? '');
+}
+
+/**
+ * Turns a wallet, RPC or contract error into a message fit for the user
+ */
+export function getErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+      return 'Request rejected in your wallet.';
+    }
+    if (error.walk((e) => e instanceof InsufficientFundsError)) {
+      return 'Insufficient ETH for gas fees.';
+    }
+
+    const errorName = getRevertErrorName(error);
+    if (errorName) {
+      return ERROR_MESSAGES[errorName] ?? `Transaction reverted: ${errorName}`;
+    }
+
+    return error.shortMessage || fallback;
+  }
+
+  // EIP-1193 errors that never went through viem
+  if ((error as any)?.code === 4001) {
+    return 'Request rejected in your wallet.';
+  }
+
+  return (error as any)?.message || fallback;
+}
@@ -0,0 +1,96 @@
+import { domainSeparator, parseSignature } from 'viem';
+import type { PublicClient, TypedDataDomain, WalletClient } from 'viem';
+import { ERC20_PERMIT_ABI } from '@/lib/contracts/abis';
+
+// How long a signed permit stays valid
+export const PERMIT_TTL_SECONDS = 20n * 60n;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+} as const;
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+}
+
+/**
+ * Returns the token's EIP-712 domain if it supports EIP-2612, else null.
+ * The domain is rebuilt from name()/version() and only trusted when it
+ * hashes to the token's own DOMAIN_SEPARATOR.
+ */
+export async function getPermitDomain(
+  client: PublicClient,
+  token: `0x${string}`
+): Promise<TypedDataDomain | null> {
+  const chainId = client.chain?.id ?? await client.getChainId();
+
+  let name: string;
+  let onChainSeparator: `0x${string}`;
+  try {
+    [name, onChainSeparator] = await Promise.all([
+      client.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'name' }),
+      client.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR' })
+    ]);
+  } catch {
+    return null;
+  }
+
+  // Most permit tokens use "1" and don't expose version() at all
+  const version = await client
+    .readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'version' })
+    .catch(() => '1');
+
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract: token };
+  if (domainSeparator({ domain }).toLowerCase() !== onChainSeparator.toLowerCase()) {
+    return null;
+  }
+
+  return domain;
+}
+
+/**
+ * Asks the wallet to sign an EIP-2612 permit for spender
+ */
+export async function signPermit(
+  client: PublicClient,
+  walletClient: WalletClient,
+  {
+    domain,
+    owner,
+    spender,
+    value
+  }: {
+    domain: TypedDataDomain;
+    owner: `0x${string}`;
+    spender: `0x${string}`;
+    value: bigint;
+  }
+): Promise<PermitSignature> {
+  const nonce = await client.readContract({
+    address: domain.verifyingContract as `0x${string}`,
+    abi: ERC20_PERMIT_ABI,
+    functionName: 'nonces',
+    args: [owner]
+  });
+  const deadline = BigInt(Math.floor(Date.now() / 1000)) + PERMIT_TTL_SECONDS;
+
+  const signature = await walletClient.signTypedData({
+    account: owner,
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { owner, spender, value, nonce, deadline }
+  });
+
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { deadline, r, s, v: v !== undefined ? Number(v) : yParity + 27 };
+}
@@ -0,0 +1,56 @@
+import type { Query, QueryClient } from '@tanstack/react-query';
+import type { SupportedChainId } from '@/lib/contracts/addresses';
+
+/**
+ * Query keys for data that isn't a single wagmi contract read.
+ * Everything about bounties on a chain lives under ['bounties', chainId].
+ */
+export const bountyQueryKeys = {
+  all: (chainId: SupportedChainId) => ['bounties', chainId] as const,
+  list: (chainId: SupportedChainId, filter: string, indexerUrl: string | null) =>
+    ['bounties', chainId, 'list', filter, indexerUrl] as const,
+  activity: (chainId: SupportedChainId, account: `0x${string}` | null) =>
+    ['bounties', chainId, 'activity', account] as const,
+  payments: (chainId: SupportedChainId, bountyId: `0x${string}` | null) =>
+    ['bounties', chainId, 'payments', bountyId] as const
+};
+
+export const tokenQueryKeys = {
+  info: (chainId: SupportedChainId, token: `0x${string}`) =>
+    ['tokens', chainId, 'info', token.toLowerCase()] as const,
+  allowed: (chainId: SupportedChainId) => ['tokens', chainId, 'allowed'] as const
+};
+
+// Registry reads keyed by bounty ID first
+const BOUNTY_READS = new Set([
+  'getBountyDetails',
+  'getFunders',
+  'refundClaimed',
+  'getPayoutSplit',
+  'verificationStartedAt'
+]);
+
+/**
+ * Whether a query is one of wagmi's cached registry reads of this bounty
+ */
+function isBountyReadQuery(query: Query, chainId: SupportedChainId, bountyId: `0x${string}`): boolean {
+  const [scope, params] = query.queryKey as [string, { functionName?: string; chainId?: number; args?: unknown[] }?];
+  return scope === 'readContract'
+    && BOUNTY_READS.has(params?.functionName ?? '')
+    && params?.chainId === chainId
+    && params.args?.[0] === bountyId;
+}
+
+/**
+ * Marks everything derived from a bounty's on-chain state as stale
+ */
+export function invalidateBounty(
+  queryClient: QueryClient,
+  chainId: SupportedChainId,
+  bountyId: `0x${string}`
+): Promise<unknown> {
+  return Promise.all([
+    queryClient.invalidateQueries({ predicate: (query) => isBountyReadQuery(query, chainId, bountyId) }),
+    queryClient.invalidateQueries({ queryKey: bountyQueryKeys.all(chainId) })
+  ]);
+}
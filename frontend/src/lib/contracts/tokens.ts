@@ -0,0 +1,55 @@
+import { formatUnits } from 'viem';
+import { getPublicClient } from '@/lib/viem/client';
+import { getDeployment, type SupportedChainId } from '@/lib/contracts/addresses';
+import { BountyRegistryABI, ERC20_ABI } from '@/lib/contracts/abis';
+
+export interface TokenInfo {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+}
+
+// Symbol and decimals never change, so each token is read once per chain
+const tokenInfoCache = new Map<string, Promise<TokenInfo>>();
+
+/**
+ * Reads a token's symbol and decimals from chain
+ */
+export function getTokenInfo(chainId: SupportedChainId, token: `0x${string}`): Promise<TokenInfo> {
+  const key = `${chainId}:${token.toLowerCase()}`;
+  let info = tokenInfoCache.get(key);
+
+  if (!info) {
+    const client = getPublicClient(chainId);
+    info = Promise.all([
+      client.readContract({ address: token, abi: ERC20_ABI, functionName: 'symbol' }),
+      client.readContract({ address: token, abi: ERC20_ABI, functionName: 'decimals' })
+    ]).then(([symbol, decimals]) => ({ address: token, symbol, decimals }));
+
+    // Don't keep failed reads around
+    info.catch(() => tokenInfoCache.delete(key));
+    tokenInfoCache.set(key, info);
+  }
+
+  return info;
+}
+
+/**
+ * Tokens the registry currently accepts for new bounties
+ */
+export async function getAllowedTokens(chainId: SupportedChainId): Promise<TokenInfo[]> {
+  const tokens = await getPublicClient(chainId).readContract({
+    address: getDeployment(chainId).BountyRegistry,
+    abi: BountyRegistryABI,
+    functionName: 'getAllowedTokens'
+  });
+
+  return Promise.all(tokens.map((token) => getTokenInfo(chainId, token)));
+}
+
+/**
+ * Formats a raw token amount, e.g. 1500000n with 6 decimals -> "1.5 USDC"
+ */
+export function formatTokenAmount(amount: bigint, token: TokenInfo): string {
+  return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
@@ -0,0 +1,243 @@
+// The local devnet points this at its stub GitHub
+const GITHUB_API_URL = process.env.NEXT_PUBLIC_GITHUB_API_URL || 'https://api.github.com';
+const TOKEN_STORAGE_KEY = 'mergemint.githubToken';
+// Secondary rate limits don't always say how long to wait
+const DEFAULT_BACKOFF_MS = 60 * 1000;
+const DEFAULT_MAX_PAGES = 10;
+
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  resource: string;
+}
+
+export interface GitHubRateLimitState {
+  // Latest headers seen from the API
+  rateLimit: GitHubRateLimit | null;
+  // Requests fail fast until this time instead of going out
+  blockedUntil: Date | null;
+  isAuthenticated: boolean;
+}
+
+export class GitHubApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(public readonly resetAt: Date, status = 403) {
+    super(
+      `GitHub rate limit reached. Try again after ${resetAt.toLocaleTimeString()}.`,
+      status
+    );
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+interface CachedResponse {
+  etag: string;
+  data: unknown;
+  link: string | null;
+}
+
+// Keyed by URL; a 304 on a conditional request doesn't count against the rate limit
+const etagCache = new Map<string, CachedResponse>();
+const listeners = new Set<() => void>();
+
+let state: GitHubRateLimitState = {
+  rateLimit: null,
+  blockedUntil: null,
+  isAuthenticated: false
+};
+let token: string | null | undefined;
+
+function setState(patch: Partial<GitHubRateLimitState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+function getToken(): string | null {
+  if (token === undefined) {
+    token = typeof window !== 'undefined' ? localStorage.getItem(TOKEN_STORAGE_KEY) : null;
+    state = { ...state, isAuthenticated: !!token };
+  }
+  return token;
+}
+
+/**
+ * Stores a personal access token for GitHub requests, or clears it with null.
+ * Authenticated requests get 5,000 requests an hour instead of 60.
+ */
+export function setGitHubToken(value: string | null) {
+  token = value?.trim() || null;
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+  // Cached bodies may depend on what the old token could see
+  etagCache.clear();
+  setState({ isAuthenticated: !!token, rateLimit: null, blockedUntil: null });
+}
+
+export function getGitHubRateLimitState(): GitHubRateLimitState {
+  getToken();
+  return state;
+}
+
+export function subscribeGitHubRateLimit(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function readRateLimit(headers: Headers): GitHubRateLimit | null {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return null;
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: new Date(Number(reset) * 1000),
+    resource: headers.get('x-ratelimit-resource') ?? 'core'
+  };
+}
+
+/**
+ * Returns when to retry if the response is a primary or secondary rate limit, else null
+ */
+function getRateLimitReset(response: Response, rateLimit: GitHubRateLimit | null): Date | null {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter !== null) {
+    return new Date(Date.now() + Number(retryAfter) * 1000);
+  }
+  if (rateLimit?.remaining === 0) {
+    return rateLimit.resetAt;
+  }
+  // A 429 without headers is still a rate limit; a bare 403 is a permissions problem
+  return response.status === 429 ? new Date(Date.now() + DEFAULT_BACKOFF_MS) : null;
+}
+
+/**
+ * Finds the rel="next" URL in a Link header
+ */
+function getNextLink(link: string | null): string | null {
+  if (!link) return null;
+  const match = link.split(',').map((part) => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean);
+  return match?.[1] ?? null;
+}
+
+async function request<T>(
+  url: string,
+  init: { method?: 'GET' | 'POST'; body?: string } = {}
+): Promise<{ data: T; link: string | null }> {
+  const { blockedUntil } = state;
+  if (blockedUntil && blockedUntil.getTime() > Date.now()) {
+    throw new GitHubRateLimitError(blockedUntil);
+  }
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json'
+  };
+  const authToken = getToken();
+  if (authToken) {
+    headers['Authorization'] = `Bearer ${authToken}`;
+  }
+  // Only GETs are conditional; GraphQL POSTs always go out
+  const cached = init.method === 'POST' ? undefined : etagCache.get(url);
+  if (cached) {
+    headers['If-None-Match'] = cached.etag;
+  }
+
+  if (init.body) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(url, { ...init, headers });
+  const rateLimit = readRateLimit(response.headers);
+  const resetAt = getRateLimitReset(response, rateLimit);
+  setState({ rateLimit: rateLimit ?? state.rateLimit, blockedUntil: resetAt });
+
+  if (resetAt) {
+    throw new GitHubRateLimitError(resetAt, response.status);
+  }
+  if (response.status === 304 && cached) {
+    return { data: cached.data as T, link: cached.link };
+  }
+  if (response.status === 401) {
+    throw new GitHubApiError('GitHub rejected the access token. Update or remove it.', 401);
+  }
+  if (response.status === 404) {
+    throw new GitHubApiError('Not found on GitHub', 404);
+  }
+  if (!response.ok) {
+    throw new GitHubApiError(`GitHub API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  const link = response.headers.get('link');
+  const etag = response.headers.get('etag');
+  if (etag && init.method !== 'POST') {
+    etagCache.set(url, { etag, data, link });
+  }
+
+  return { data: data as T, link };
+}
+
+/**
+ * GETs a REST API path, e.g. `/repos/owner/repo/issues/1`
+ */
+export async function githubGet<T>(path: string): Promise<T> {
+  const { data } = await request<T>(`${GITHUB_API_URL}${path}`);
+  return data;
+}
+
+/**
+ * GETs every page of a list endpoint by following the Link header
+ */
+export async function githubGetAll<T>(path: string, maxPages = DEFAULT_MAX_PAGES): Promise<T[]> {
+  const items: T[] = [];
+  let url: string | null = `${GITHUB_API_URL}${path}`;
+
+  for (let page = 0; url && page < maxPages; page++) {
+    const { data, link }: { data: T[]; link: string | null } = await request<T[]>(url);
+    items.push(...data);
+    url = getNextLink(link);
+  }
+
+  return items;
+}
+
+/**
+ * Runs a GraphQL query. GitHub only serves GraphQL to authenticated requests.
+ */
+export async function githubGraphQL<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+  if (!getToken()) {
+    throw new GitHubApiError('GitHub GraphQL requires an access token', 401);
+  }
+
+  const { data } = await request<{ data: T | null; errors?: Array<{ type?: string; message: string }> }>(
+    `${GITHUB_API_URL}/graphql`,
+    { method: 'POST', body: JSON.stringify({ query, variables }) }
+  );
+
+  if (data.errors?.length) {
+    const notFound = data.errors.every((e) => e.type === 'NOT_FOUND');
+    throw new GitHubApiError(data.errors[0].message, notFound ? 404 : 400);
+  }
+  return data.data as T;
+}
+
+export function hasGitHubToken(): boolean {
+  return !!getToken();
+}
+
+export function isGitHubNotFound(error: unknown): boolean {
+  return error instanceof GitHubApiError && error.status === 404;
+}
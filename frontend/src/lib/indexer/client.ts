@@ -0,0 +1,86 @@
+import type { Bounty, BountyStatus } from '@/types';
+
+export interface IndexedBountyQuery {
+  status?: 'open' | 'verifying' | 'paid' | 'refunded';
+  issuer?: string;
+  claimer?: string;
+  token?: string;
+  repoOwner?: string;
+  repoName?: string;
+  q?: string;
+  sort?: 'newest' | 'oldest' | 'amount';
+  page?: number;
+  pageSize?: number;
+}
+
+export interface IndexedBountyPage {
+  items: Bounty[];
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+  lastIndexedBlock: bigint | null;
+}
+
+// Shape served by Backend/Indexer (amounts are decimal strings)
+interface IndexedBountyRow {
+  id: `0x${string}`;
+  repoOwner: string;
+  repoName: string;
+  issueNumber: string;
+  issuer: `0x${string}`;
+  token: `0x${string}`;
+  amount: string;
+  status: number;
+  creationTime: number;
+  deadline: number;
+  prClaimer: string;
+  activeRequestId: `0x${string}`;
+}
+
+function toBounty(row: IndexedBountyRow): Bounty {
+  return {
+    id: row.id,
+    issuer: row.issuer,
+    token: row.token,
+    amount: BigInt(row.amount),
+    status: row.status as BountyStatus,
+    creationTime: BigInt(row.creationTime),
+    prClaimer: row.prClaimer,
+    activeRequestId: row.activeRequestId,
+    deadline: BigInt(row.deadline),
+    repoOwner: row.repoOwner,
+    repoName: row.repoName,
+    issueNumber: row.issueNumber
+  };
+}
+
+/**
+ * Fetches a page of bounties from an indexer API.
+ * Each chain has its own indexer (see ChainDeployment.indexerUrl).
+ */
+export async function fetchIndexedBounties(
+  indexerUrl: string,
+  query: IndexedBountyQuery = {}
+): Promise<IndexedBountyPage> {
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+
+  const response = await fetch(`${indexerUrl}/api/v1/bounties?${params}`);
+  if (!response.ok) {
+    throw new Error(`Indexer API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return {
+    items: (data.items as IndexedBountyRow[]).map(toBounty),
+    page: data.page,
+    pageSize: data.pageSize,
+    total: data.total,
+    hasMore: data.hasMore,
+    lastIndexedBlock: data.lastIndexedBlock !== null ? BigInt(data.lastIndexedBlock) : null
+  };
+}
@@ -1,26 +1,12 @@
-import { createPublicClient, createWalletClient, custom, http } from 'viem';
-import { sepolia } from 'viem/chains';
-
-// Use Alchemy or Infura for better rate limits
-const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || 'https://rpc.sepolia.org';
-
-export const publicClient = createPublicClient({
-  chain: sepolia,
-  transport: http(RPC_URL, {
-    retryCount: 3,
-    retryDelay: 1000,
-  })
-});
-
-export function getWalletClient() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('No wallet detected');
-  }
-
-  return createWalletClient({
-    chain: sepolia,
-    transport: custom(window.ethereum)
-  });
+import { getPublicClient as getWagmiPublicClient } from 'wagmi/actions';
+import type { PublicClient } from 'viem';
+import { wagmiConfig } from '@/lib/wagmi/config';
+import { DEFAULT_CHAIN_ID, type SupportedChainId } from '@/lib/contracts/addresses';
+
+/**
+ * Returns the public client for a supported chain.
+ * Shared with wagmi, so imperative reads and query hooks use the same transport.
+ */
+export function getPublicClient(chainId: SupportedChainId = DEFAULT_CHAIN_ID): PublicClient {
+  return getWagmiPublicClient(wagmiConfig, { chainId }) as PublicClient;
 }
-
-export { sepolia };
\ No newline at end of file
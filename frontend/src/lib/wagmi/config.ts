@@ -0,0 +1,29 @@
+import { createConfig, http, injected } from 'wagmi';
+import { sepolia, anvil } from 'viem/chains';
+import { DEPLOYMENTS } from '@/lib/contracts/addresses';
+
+// Transport options shared by every chain; public RPCs rate limit aggressively
+const transportOptions = { retryCount: 3, retryDelay: 1000 };
+
+/**
+ * wagmi config for every chain in DEPLOYMENTS.
+ * Injected wallets are discovered through EIP-6963 (multiInjectedProviderDiscovery),
+ * and the last used one is reconnected on load.
+ */
+export const wagmiConfig = createConfig({
+  chains: [sepolia, anvil],
+  connectors: [injected()],
+  multiInjectedProviderDiscovery: true,
+  transports: {
+    [sepolia.id]: http(DEPLOYMENTS[sepolia.id].rpcUrl, transportOptions),
+    [anvil.id]: http(DEPLOYMENTS[anvil.id].rpcUrl, transportOptions)
+  },
+  // Next.js renders on the server first; hydrate the connection state on the client
+  ssr: true
+});
+
+declare module 'wagmi' {
+  interface Register {
+    config: typeof wagmiConfig;
+  }
+}
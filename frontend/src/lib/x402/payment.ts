@@ -0,0 +1,184 @@
+import type { WalletClient } from 'viem';
+import type { PaymentAccess, PaymentChallenge } from '@/types';
+
+export const X402_GATEWAY_URL = process.env.NEXT_PUBLIC_X402_GATEWAY_URL || 'http://localhost:3001';
+
+// Paid resources are scoped to a single GitHub issue
+export interface PaidResource {
+  owner: string;
+  repo: string;
+  issueId: string;
+}
+
+export interface X402Signer {
+  walletClient: WalletClient;
+  account: `0x${string}`;
+}
+
+// Hooks for UIs that want to show where the payment currently is
+export interface X402Callbacks {
+  onChallenge?: (challenge: PaymentChallenge) => void | Promise<void>;
+  onSigning?: () => void;
+  onVerifying?: () => void;
+  onAccess?: (access: { accessToken: string; expiresAt: number }) => void;
+}
+
+interface CachedAccess {
+  accessToken: string;
+  expiresAt: number; // ms since epoch
+}
+
+// Refresh a little early so a token never expires mid-request
+const EXPIRY_MARGIN_MS = 5_000;
+
+const accessCache = new Map<string, CachedAccess>();
+
+function resourceKey({ owner, repo, issueId }: PaidResource): string {
+  return `${owner}/${repo}/${issueId}`.toLowerCase();
+}
+
+/**
+ * Returns a cached access token for the resource if it has not expired
+ */
+export function getCachedAccess(resource: PaidResource): CachedAccess | null {
+  const key = resourceKey(resource);
+  const cached = accessCache.get(key);
+
+  if (!cached) return null;
+  if (Date.now() >= cached.expiresAt - EXPIRY_MARGIN_MS) {
+    accessCache.delete(key);
+    return null;
+  }
+
+  return cached;
+}
+
+export function clearCachedAccess(resource?: PaidResource) {
+  if (resource) {
+    accessCache.delete(resourceKey(resource));
+  } else {
+    accessCache.clear();
+  }
+}
+
+/**
+ * Signs the EIP-712 typed data from a 402 challenge with the connected wallet
+ */
+export async function signPaymentChallenge(
+  challenge: PaymentChallenge,
+  { walletClient, account }: X402Signer
+): Promise<`0x${string}`> {
+  const { domain, types, message } = challenge.eip712;
+
+  // The gateway may omit primaryType; it is the one type that isn't the domain
+  const primaryType =
+    challenge.eip712.primaryType ||
+    Object.keys(types).find((name) => name !== 'EIP712Domain');
+
+  if (!primaryType) {
+    throw new Error('Payment challenge has no typed data to sign');
+  }
+
+  return walletClient.signTypedData({
+    account,
+    domain,
+    types,
+    primaryType,
+    message
+  });
+}
+
+/**
+ * Sends the signed payment to the gateway and returns the issued access token.
+ * The gateway recovers the payer from the signed EIP-712 message, which names the issue.
+ */
+export async function verifyPayment(
+  challenge: PaymentChallenge,
+  signature: `0x${string}`
+): Promise<PaymentAccess> {
+  const response = await fetch(`${X402_GATEWAY_URL}/api/v1/payment/verify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      paymentData: challenge.eip712.message,
+      signature
+    })
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw new Error(`Payment verification failed: ${response.status}${details ? ` ${details}` : ''}`);
+  }
+
+  const access = (await response.json()) as PaymentAccess;
+  if (!access.accessToken) {
+    throw new Error('Payment verification returned no access token');
+  }
+
+  return access;
+}
+
+function withPaymentToken(init: RequestInit | undefined, accessToken: string): RequestInit {
+  const headers = new Headers(init?.headers);
+  headers.set('X-Payment-Token', accessToken);
+  return { ...init, headers };
+}
+
+/**
+ * fetch() wrapper that pays for x402-protected resources.
+ * On a 402 it signs the challenge, exchanges the signature for an access token,
+ * caches the token until it expires and retries the original request once.
+ * A cached token the gateway rejects (401) is dropped and the request re-challenged.
+ */
+export async function x402Fetch(
+  input: string,
+  resource: PaidResource,
+  signer: X402Signer,
+  init?: RequestInit,
+  callbacks: X402Callbacks = {}
+): Promise<Response> {
+  const cached = getCachedAccess(resource);
+  let response = await fetch(
+    input,
+    cached ? withPaymentToken(init, cached.accessToken) : init
+  );
+
+  // An expired or unknown token gets a 401 without a challenge; ask again without it
+  if (cached && response.status === 401) {
+    clearCachedAccess(resource);
+    response = await fetch(input, init);
+  }
+
+  if (response.status !== 402) {
+    return response;
+  }
+
+  // A cached token the gateway no longer accepts is useless
+  if (cached) {
+    clearCachedAccess(resource);
+  }
+
+  const challenge = (await response.json()) as PaymentChallenge;
+  if (!challenge?.eip712) {
+    throw new Error('Gateway returned 402 without a payment challenge');
+  }
+
+  await callbacks.onChallenge?.(challenge);
+
+  callbacks.onSigning?.();
+  const signature = await signPaymentChallenge(challenge, signer);
+
+  callbacks.onVerifying?.();
+  const access = await verifyPayment(challenge, signature);
+
+  const entry: CachedAccess = {
+    accessToken: access.accessToken,
+    expiresAt: Date.now() + access.expiresIn * 1000
+  };
+  accessCache.set(resourceKey(resource), entry);
+  callbacks.onAccess?.(entry);
+
+  return fetch(input, withPaymentToken(init, access.accessToken));
+}
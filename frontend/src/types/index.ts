@@ -5,6 +5,13 @@ export enum BountyStatus {
   REFUNDED = 3
 }
 
+// Mirrors BountyRegistry.SplitMode
+export enum SplitMode {
+  NONE = 0,
+  FIXED = 1,
+  PER_PULL_REQUEST = 2
+}
+
 export interface Bounty {
   id: `0x${string}`;
   issuer: `0x${string}`;
@@ -14,12 +21,39 @@ export interface Bounty {
   creationTime: bigint;
   prClaimer: string;
   activeRequestId: `0x${string}`;
+  // Unix timestamp after which an unclaimed bounty can be refunded
+  deadline: bigint;
   // Metadata
   repoOwner: string;
   repoName: string;
   issueNumber: string;
 }
 
+export interface PayoutSplit {
+  mode: SplitMode;
+  recipients: `0x${string}`[];
+  // Basis points of TOTAL_SPLIT_SHARES, one per recipient; empty for PER_PULL_REQUEST
+  shares: number[];
+}
+
+export interface BountyClaim {
+  bountyId: `0x${string}`;
+  requestId: `0x${string}`;
+  prNumber: string;
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+  bounty: Bounty | null;
+}
+
+export interface BountyPayout {
+  bountyId: `0x${string}`;
+  amount: bigint;
+  githubUsername: string;
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+  bounty: Bounty | null;
+}
+
 export interface GitHubIssue {
   number: number;
   title: string;
@@ -49,6 +83,12 @@ export interface PaymentChallenge {
   eip712: {
     domain: any;
     types: any;
+    primaryType?: string;
     message: any;
   };
+}
+
+export interface PaymentAccess {
+  accessToken: string;
+  expiresIn: number; // seconds
 }
\ No newline at end of file
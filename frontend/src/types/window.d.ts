@@ -3,5 +3,6 @@ interface Window {
     request: (args: { method: string; params?: any[] }) => Promise<any>;
     on: (event: string, handler: (...args: any[]) => void) => void;
     removeListener: (event: string, handler: (...args: any[]) => void) => void;
+    isMetaMask?: boolean;
   };
 }
\ No newline at end of file